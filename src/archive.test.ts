@@ -0,0 +1,53 @@
+/**
+ * Tests for the archive module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import AdmZip from 'adm-zip';
+import { extractZipEntries, extractZipEntry } from './archive.js';
+
+describe('ZIP extraction', () => {
+  let testDir: string;
+  let zipPath: string;
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'archive-test-'));
+    const zip = new AdmZip();
+    zip.addFile('media/', Buffer.alloc(0));
+    zip.addFile('media/main.mp4', Buffer.from('video'));
+    zip.addFile('overlay/main.mp4', Buffer.from('overlay'));
+    zipPath = join(testDir, 'media.zip');
+    zip.writeZip(zipPath);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should write a single entry to a file', async () => {
+    const destPath = join(testDir, 'overlay.mp4');
+    await extractZipEntry(zipPath, 'overlay/main.mp4', destPath);
+
+    expect(await readFile(destPath, 'utf-8')).toBe('overlay');
+    await expect(extractZipEntry(zipPath, 'missing.png', destPath)).rejects.toThrow(/not found/);
+  });
+
+  it('should write every file entry under a numbered name', async () => {
+    const entries = await extractZipEntries(zipPath, testDir, 'abc-');
+
+    // Entries with the same base name don't overwrite each other, folders are skipped
+    expect(entries).toEqual([
+      { name: 'media/main.mp4', path: join(testDir, 'abc-0-main.mp4') },
+      { name: 'overlay/main.mp4', path: join(testDir, 'abc-1-main.mp4') },
+    ]);
+    expect(await readFile(entries[1].path, 'utf-8')).toBe('overlay');
+    expect((await readdir(testDir)).sort()).toEqual([
+      'abc-0-main.mp4',
+      'abc-1-main.mp4',
+      'media.zip',
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Archive module for reading Snapchat exports directly from ZIP files
+ *
+ * Uses yauzl so only the central directory and the requested entry are read,
+ * which keeps multi-gigabyte export archives out of memory.
+ */
+
+import { createWriteStream } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import yauzl from 'yauzl';
+
+/**
+ * A ZIP entry written to disk
+ */
+export interface ExtractedZipEntry {
+  readonly name: string; // Entry name inside the archive
+  readonly path: string; // File it was written to
+}
+
+/**
+ * Check if a path looks like a ZIP archive
+ */
+export function isZipPath(path: string): boolean {
+  return extname(path).toLowerCase() === '.zip';
+}
+
+/**
+ * List the file entries (not directories) in a ZIP archive
+ */
+export async function listZipEntries(zipPath: string): Promise<string[]> {
+  const zipFile = await yauzl.openPromise(zipPath, { lazyEntries: true });
+  const names: string[] = [];
+
+  try {
+    for await (const entry of zipFile.eachEntry()) {
+      if (!entry.fileName.endsWith('/')) {
+        names.push(entry.fileName);
+      }
+    }
+  } finally {
+    zipFile.close();
+  }
+
+  return names;
+}
+
+/**
+ * Read a single entry from a ZIP archive into memory
+ */
+export async function readZipEntry(zipPath: string, entryName: string): Promise<Buffer> {
+  const zipFile = await yauzl.openPromise(zipPath, { lazyEntries: true });
+
+  try {
+    for await (const entry of zipFile.eachEntry()) {
+      if (entry.fileName !== entryName) continue;
+
+      const stream = await zipFile.openReadStreamPromise(entry);
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      return Buffer.concat(chunks);
+    }
+  } finally {
+    zipFile.close();
+  }
+
+  throw new Error(`Entry ${entryName} not found in ${zipPath}`);
+}
+
+/**
+ * Read a single entry from a ZIP archive as UTF-8 text
+ */
+export async function readZipEntryText(zipPath: string, entryName: string): Promise<string> {
+  return (await readZipEntry(zipPath, entryName)).toString('utf-8');
+}
+
+/**
+ * Open a single entry from a ZIP archive as a readable stream
+ * The archive file stays open until the returned stream ends
+ */
+export async function openZipEntryStream(zipPath: string, entryName: string): Promise<Readable> {
+  const zipFile = await yauzl.openPromise(zipPath, { lazyEntries: true });
+
+  try {
+    for await (const entry of zipFile.eachEntry()) {
+      if (entry.fileName === entryName) {
+        return await zipFile.openReadStreamPromise(entry);
+      }
+    }
+  } finally {
+    // Open read streams keep their own reference to the underlying file
+    zipFile.close();
+  }
+
+  throw new Error(`Entry ${entryName} not found in ${zipPath}`);
+}
+
+/**
+ * Write a single entry from a ZIP archive to a file, without reading it into memory
+ */
+export async function extractZipEntry(
+  zipPath: string,
+  entryName: string,
+  destPath: string
+): Promise<void> {
+  await pipeline(await openZipEntryStream(zipPath, entryName), createWriteStream(destPath));
+}
+
+/**
+ * Write all file entries of a ZIP archive into a folder, one entry at a time
+ *
+ * @param prefix - Prepended to the written file names, which are numbered to keep them unique
+ */
+export async function extractZipEntries(
+  zipPath: string,
+  destDir: string,
+  prefix = ''
+): Promise<ExtractedZipEntry[]> {
+  const zipFile = await yauzl.openPromise(zipPath, { lazyEntries: true });
+  const extracted: ExtractedZipEntry[] = [];
+
+  try {
+    for await (const entry of zipFile.eachEntry()) {
+      if (entry.fileName.endsWith('/')) continue;
+
+      const path = join(destDir, `${prefix}${extracted.length}-${basename(entry.fileName)}`);
+      await pipeline(await zipFile.openReadStreamPromise(entry), createWriteStream(path));
+      extracted.push({ name: entry.fileName, path });
+    }
+  } finally {
+    zipFile.close();
+  }
+
+  return extracted;
+}
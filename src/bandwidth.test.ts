@@ -0,0 +1,71 @@
+/**
+ * Tests for the bandwidth module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createBandwidthLimiter, formatBandwidth, parseBandwidth } from './bandwidth.js';
+
+describe('parseBandwidth', () => {
+  it('should parse rates with binary units', () => {
+    expect(parseBandwidth('5MB/s')).toBe(5 * 1024 * 1024);
+    expect(parseBandwidth('500k')).toBe(500 * 1024);
+    expect(parseBandwidth('1.5 mb')).toBe(1.5 * 1024 * 1024);
+    expect(parseBandwidth('2048')).toBe(2048);
+    expect(parseBandwidth('0')).toBe(0);
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseBandwidth('fast')).toThrow('Invalid bandwidth: fast');
+    expect(() => parseBandwidth('5 Mbit/s')).toThrow();
+  });
+});
+
+describe('formatBandwidth', () => {
+  it('should pick a readable unit', () => {
+    expect(formatBandwidth(1.5 * 1024 * 1024)).toBe('1.5 MB/s');
+    expect(formatBandwidth(300 * 1024)).toBe('300 KB/s');
+    expect(formatBandwidth(512)).toBe('512 B/s');
+  });
+});
+
+describe('createBandwidthLimiter', () => {
+  it('should let a burst through and then hold back to the limit', async () => {
+    const limiter = createBandwidthLimiter({ bytesPerSecond: 100_000 });
+
+    const start = Date.now();
+    await limiter.consume(100_000); // The bucket starts full
+    const burst = Date.now() - start;
+    await limiter.consume(50_000);
+    const waited = Date.now() - start - burst;
+
+    expect(burst).toBeLessThan(100);
+    expect(waited).toBeGreaterThanOrEqual(450);
+    expect(waited).toBeLessThan(1000);
+  });
+
+  it('should release waiting downloads when the limit is removed', async () => {
+    const limiter = createBandwidthLimiter({ bytesPerSecond: 10_000 });
+    await limiter.consume(10_000);
+
+    const start = Date.now();
+    const waiting = limiter.consume(100_000); // Ten seconds at the limit
+    setTimeout(() => limiter.setLimit(0), 100);
+    await waiting;
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(limiter.limit).toBe(0);
+  });
+
+  it('should measure the throughput without a limit', async () => {
+    let time = 0;
+    const limiter = createBandwidthLimiter({ now: () => time });
+
+    time = 2000;
+    await limiter.consume(3000);
+    await limiter.consume(1000);
+
+    expect(limiter.getRate()).toBe(2000);
+    time = 10_000;
+    expect(limiter.getRate()).toBe(0);
+  });
+});
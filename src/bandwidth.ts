@@ -0,0 +1,152 @@
+/**
+ * Bandwidth module for limiting the download throughput of all workers together
+ *
+ * A token bucket shared by the workers: every chunk of a response body takes
+ * its size in tokens, which refill at the configured rate. A worker that runs
+ * out waits before reading on, so the server is slowed down by TCP flow control.
+ */
+
+/**
+ * Units accepted by parseBandwidth, as powers of 1024 like curl's --limit-rate
+ */
+const UNITS: Record<string, number> = {
+  '': 1,
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Window over which the throughput is measured
+ */
+const RATE_WINDOW_MS = 5000;
+
+/**
+ * Longest single wait, so a changed limit applies quickly
+ */
+const MAX_WAIT_MS = 250;
+
+/**
+ * Parse a bandwidth limit such as 5MB/s, 500k or 1048576
+ * @returns Bytes per second, or 0 for no limit
+ * @throws Error if the value isn't a bandwidth
+ */
+export function parseBandwidth(value: string): number {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)\s*([kmg]?b?)(?:\/s)?$/);
+  if (!match) {
+    throw new Error(`Invalid bandwidth: ${value} (expected e.g. 5MB/s or 500KB/s)`);
+  }
+  return Math.round(Number(match[1]) * UNITS[match[2]]);
+}
+
+/**
+ * Format a bandwidth for display, e.g. "1.5 MB/s"
+ */
+export function formatBandwidth(bytesPerSecond: number): string {
+  if (bytesPerSecond >= 1024 ** 2) return `${(bytesPerSecond / 1024 ** 2).toFixed(1)} MB/s`;
+  if (bytesPerSecond >= 1024) return `${(bytesPerSecond / 1024).toFixed(0)} KB/s`;
+  return `${Math.round(bytesPerSecond)} B/s`;
+}
+
+/**
+ * Options for a bandwidth limiter
+ */
+export interface BandwidthLimiterOptions {
+  readonly bytesPerSecond?: number; // 0 or missing for no limit
+  readonly now?: () => number; // Clock, for tests
+}
+
+/**
+ * Throughput limit shared by the download workers
+ */
+export interface BandwidthLimiter {
+  /**
+   * Current limit in bytes per second, 0 for none
+   */
+  readonly limit: number;
+
+  /**
+   * Change the limit, also while downloads are waiting
+   * @param bytesPerSecond - New limit, 0 for none
+   */
+  setLimit(bytesPerSecond: number): void;
+
+  /**
+   * Take the tokens for a received chunk, waiting until the bucket has refilled enough
+   */
+  consume(bytes: number): Promise<void>;
+
+  /**
+   * Bytes received per second over the last few seconds
+   */
+  getRate(): number;
+}
+
+/**
+ * Create a bandwidth limiter
+ * The bucket holds one second's worth of tokens, so short bursts are allowed.
+ */
+export function createBandwidthLimiter(options: BandwidthLimiterOptions = {}): BandwidthLimiter {
+  const { now = (): number => Date.now() } = options;
+
+  const startedAt = now();
+  let limit = Math.max(0, options.bytesPerSecond ?? 0);
+  let tokens = limit;
+  let refilledAt = startedAt;
+  const received: { time: number; bytes: number }[] = [];
+
+  const refill = (): void => {
+    const time = now();
+    tokens = Math.min(limit, tokens + ((time - refilledAt) * limit) / 1000);
+    refilledAt = time;
+  };
+
+  return {
+    get limit(): number {
+      return limit;
+    },
+
+    setLimit: (bytesPerSecond: number): void => {
+      refill();
+      limit = Math.max(0, bytesPerSecond);
+      tokens = Math.min(tokens, limit);
+    },
+
+    consume: async (bytes: number): Promise<void> => {
+      const time = now();
+      received.push({ time, bytes });
+      while (received.length > 0 && received[0].time <= time - RATE_WINDOW_MS) {
+        received.shift();
+      }
+
+      if (limit === 0) {
+        return;
+      }
+      // Take the tokens now and wait off the debt, so workers queue up fairly
+      refill();
+      tokens -= bytes;
+      while (limit > 0 && tokens < 0) {
+        const waitMs = Math.min(MAX_WAIT_MS, Math.ceil((-tokens * 1000) / limit));
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+        refill();
+      }
+    },
+
+    getRate: (): number => {
+      const time = now();
+      const bytes = received
+        .filter((chunk) => chunk.time > time - RATE_WINDOW_MS)
+        .reduce((total, chunk) => total + chunk.bytes, 0);
+      // Measure over the time since the start until a full window has passed
+      const windowMs = Math.max(1000, Math.min(RATE_WINDOW_MS, time - startedAt));
+      return bytes / (windowMs / 1000);
+    },
+  };
+}
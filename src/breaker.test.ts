@@ -0,0 +1,53 @@
+/**
+ * Tests for the breaker module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyFailure, createCircuitBreaker, formatBreakerTrip } from './breaker.js';
+import { DownloadError, MediaMismatchError, TimeoutError } from './types.js';
+
+const url = 'https://example.com/media';
+
+describe('classifyFailure', () => {
+  it('should tell expired links, network and rate limit failures apart', () => {
+    expect(classifyFailure(new DownloadError(url, 403, 'Forbidden'))).toBe('expired');
+    expect(classifyFailure(new DownloadError(url, 404, 'Not Found'))).toBe('expired');
+    expect(classifyFailure(new MediaMismatchError(url, 'Image', 'an HTML page'))).toBe('expired');
+    expect(classifyFailure(new DownloadError(url, 429, 'Too Many Requests'))).toBe('rate-limited');
+    expect(classifyFailure(new TimeoutError(url, 'connect', 1000))).toBe('network');
+
+    const refused = new TypeError('fetch failed', {
+      cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }),
+    });
+    expect(classifyFailure(refused)).toBe('network');
+    expect(classifyFailure(new DownloadError(url, 500, 'Internal Server Error'))).toBe('other');
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  it('should open after the configured failures in a row', () => {
+    const breaker = createCircuitBreaker(3);
+    breaker.recordFailure(new DownloadError(url, 403, 'Forbidden'));
+    breaker.recordFailure(new DownloadError(url, 403, 'Forbidden'));
+    breaker.recordSuccess();
+    breaker.recordFailure(new DownloadError(url, 403, 'Forbidden'));
+    breaker.recordFailure(new DownloadError(url, 429, 'Too Many Requests'));
+    expect(breaker.trip).toBeNull();
+
+    breaker.recordFailure(new DownloadError(url, 410, 'Gone'));
+    expect(breaker.trip).toEqual({
+      cause: 'expired',
+      failures: 3,
+      lastError: expect.stringContaining('Gone') as string,
+    });
+    expect(formatBreakerTrip(breaker.trip!)).toContain('Request a new export');
+  });
+
+  it('should never open with a limit of 0', () => {
+    const breaker = createCircuitBreaker(0);
+    for (let i = 0; i < 100; i++) {
+      breaker.recordFailure(new DownloadError(url, 403, 'Forbidden'));
+    }
+    expect(breaker.trip).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Circuit breaker module for stopping a run that can no longer succeed
+ *
+ * When an export's links have expired or the network is down, every memory
+ * fails the same way. After a run of consecutive failed downloads the breaker
+ * opens: the workers stop taking new memories, and the most common cause of
+ * the failures decides what the user is told to do next.
+ */
+
+import {
+  DownloadError,
+  IncompleteDownloadError,
+  MediaMismatchError,
+  ProxyError,
+  TimeoutError,
+} from './types.js';
+
+/**
+ * Default number of failed downloads in a row that opens the breaker
+ */
+export const DEFAULT_MAX_CONSECUTIVE_FAILURES = 20;
+
+/**
+ * Why downloads are failing
+ */
+export type FailureCause = 'expired' | 'network' | 'rate-limited' | 'other';
+
+/**
+ * Exit code of a run stopped by the breaker, one per cause
+ */
+export const BREAKER_EXIT_CODES: Record<FailureCause, number> = {
+  expired: 3,
+  network: 4,
+  'rate-limited': 5,
+  other: 6,
+};
+
+/**
+ * Status codes of links that no longer work
+ */
+const EXPIRED_STATUS_CODES = new Set([
+  401, // Unauthorized
+  403, // Forbidden (expired signature)
+  404, // Not Found
+  410, // Gone
+]);
+
+/**
+ * Error codes of a network that is down or unreachable
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'ENETDOWN',
+]);
+
+/**
+ * Classify the error a download failed with
+ */
+export function classifyFailure(error: unknown): FailureCause {
+  // Expired links can answer 200 with an HTML error page
+  if (error instanceof MediaMismatchError) {
+    return 'expired';
+  }
+  if (
+    error instanceof TimeoutError ||
+    error instanceof IncompleteDownloadError ||
+    error instanceof ProxyError
+  ) {
+    return 'network';
+  }
+  if (error instanceof DownloadError) {
+    if (error.statusCode === 429) return 'rate-limited';
+    if (EXPIRED_STATUS_CODES.has(error.statusCode)) return 'expired';
+    return 'other';
+  }
+
+  if (error instanceof Error) {
+    // fetch wraps the network error in its cause
+    const cause = (error as Error & { cause?: unknown }).cause;
+    const code =
+      (error as NodeJS.ErrnoException).code ?? (cause as NodeJS.ErrnoException | undefined)?.code;
+    if (code && NETWORK_ERROR_CODES.has(code)) {
+      return 'network';
+    }
+  }
+  return 'other';
+}
+
+/**
+ * Why the breaker opened
+ */
+export interface BreakerTrip {
+  readonly cause: FailureCause; // Most common cause of the failures in a row
+  readonly failures: number; // Failed downloads in a row
+  readonly lastError: string;
+}
+
+/**
+ * Counts failed downloads in a row across all workers
+ */
+export interface CircuitBreaker {
+  /**
+   * Set once the breaker has opened: no new downloads should start
+   */
+  readonly trip: BreakerTrip | null;
+
+  /**
+   * Report a successful download, which ends the run of failures
+   */
+  recordSuccess(): void;
+
+  /**
+   * Report a download that failed for good (after its retries)
+   */
+  recordFailure(error: unknown): void;
+}
+
+/**
+ * Create a circuit breaker
+ * @param maxConsecutiveFailures - Failures in a row that open it, 0 to never open
+ */
+export function createCircuitBreaker(
+  maxConsecutiveFailures: number = DEFAULT_MAX_CONSECUTIVE_FAILURES
+): CircuitBreaker {
+  const causes = new Map<FailureCause, number>();
+  let failures = 0;
+  let trip: BreakerTrip | null = null;
+
+  return {
+    get trip(): BreakerTrip | null {
+      return trip;
+    },
+
+    recordSuccess: (): void => {
+      failures = 0;
+      causes.clear();
+    },
+
+    recordFailure: (error: unknown): void => {
+      const cause = classifyFailure(error);
+      causes.set(cause, (causes.get(cause) ?? 0) + 1);
+      failures++;
+
+      if (trip || maxConsecutiveFailures <= 0 || failures < maxConsecutiveFailures) {
+        return;
+      }
+      const [mostCommon] = [...causes].sort((a, b) => b[1] - a[1])[0];
+      trip = {
+        cause: mostCommon,
+        failures,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+    },
+  };
+}
+
+/**
+ * Explain why the breaker opened and what to do next
+ */
+export function formatBreakerTrip(trip: BreakerTrip): string {
+  const lines = [`Stopped after ${trip.failures} failed downloads in a row.`];
+
+  switch (trip.cause) {
+    case 'expired':
+      lines.push(
+        "The export's download links have expired (the server rejects them or sends error pages).",
+        'Next steps:',
+        '  1. Request a new export from Snapchat (Settings > My Data)',
+        '  2. Run this tool on the new export with the same output folder;',
+        '     memories already downloaded are skipped'
+      );
+      break;
+    case 'network':
+      lines.push(
+        'The network seems to be down or unreachable (connections fail or time out).',
+        'Next steps:',
+        '  1. Check your internet connection, and the proxy if you use one',
+        '  2. Run the same command again to resume where this run stopped'
+      );
+      break;
+    case 'rate-limited':
+      lines.push(
+        'Snapchat keeps rate limiting the downloads.',
+        'Next steps:',
+        '  1. Wait a while (an hour is usually enough)',
+        '  2. Resume with fewer parallel downloads and a longer delay, e.g. -c 2 --delay 2000'
+      );
+      break;
+    case 'other':
+      lines.push(
+        `Last error: ${trip.lastError}`,
+        'Next steps:',
+        '  Check the error above, then run the same command again to resume'
+      );
+      break;
+  }
+
+  return lines.join('\n');
+}
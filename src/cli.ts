@@ -2,32 +2,60 @@
  * CLI module for Snapchat Memory Export tool
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
+import { basename } from 'node:path';
+import { emitKeypressEvents } from 'node:readline';
 import ora from 'ora';
 import cliProgress from 'cli-progress';
-import { loadMemories } from './parser.js';
+import { getFormatAdapters } from './formats.js';
+import {
+  detectExportFormats,
+  findMemoriesFiles,
+  loadMemoriesWithReport,
+  streamMemories,
+} from './parser.js';
+import {
+  createParseReport,
+  formatParseReport,
+  hasParseIssues,
+  writeParseReport,
+} from './report.js';
 import {
-  downloadMemory,
-  downloadMediaWithOverlay,
-  sleep,
-  checkOverlayUrlsExpired,
   DEFAULT_DOWNLOAD_DELAY_MS,
   DEFAULT_CONCURRENCY,
   DEFAULT_MAX_RETRIES,
-  DownloadedMediaWithExtras,
+  DEFAULT_REQUEST_TIMEOUTS,
+  prefetchSignedUrls,
+  resolveSignedUrls,
 } from './downloader.js';
-import { saveMemory, formatStats, ensureDir } from './exporter.js';
+import { formatStats, ensureDir } from './exporter.js';
 import { closeExiftool, formatGpsForDisplay } from './metadata.js';
-import { ExportOptions, ExportStats, SnapchatMemory, ExportManifest } from './types.js';
+import { ExportOptions, SnapchatMemory, ExportManifest, ManifestWriteError } from './types.js';
 import {
   loadManifest,
   saveManifest,
-  filterPendingMemories,
-  addManifestEntry,
+  isMemoryDownloaded,
   getManifestStats,
+  migrateManifestEntry,
 } from './manifest.js';
 import { isPhotosAvailable, importToPhotos } from './photos.js';
-import { compositeMedia, CompositeError } from './compositor.js';
+import {
+  createExpiryTriage,
+  ExpiryTriage,
+  formatExpiryReport,
+  isOverlayExpired,
+  sortByExpiry,
+} from './expiry.js';
+import { describeProxy, getProxySettings, parseProxyUrl } from './proxy.js';
+import { createHttpTransport } from './transport.js';
+import {
+  BREAKER_EXIT_CODES,
+  DEFAULT_MAX_CONSECUTIVE_FAILURES,
+  formatBreakerTrip,
+} from './breaker.js';
+import { formatBandwidth, parseBandwidth } from './bandwidth.js';
+import { createSignedUrlCache, SignedUrlCache } from './signedurl.js';
+import { createExportEngine, ExportEngine, ExportResult } from './engine.js';
 
 /**
  * Check if running in interactive mode (no arguments provided)
@@ -59,8 +87,9 @@ export function createProgram(): Command {
     .description('Export Snapchat memories with preserved metadata')
     .version('1.0.0')
     .argument(
-      '[path]',
-      'Path to Snapchat export folder (containing mydata~ folder or json/ folder)'
+      '[paths...]',
+      'Paths to Snapchat export folders (containing mydata~ folder or json/ folder) or mydata~*.zip files; ' +
+        'several exports are merged and deduplicated'
     )
     .option('-o, --output <dir>', 'Output directory', './snapchat-exports')
     .option('-f, --format <format>', 'Organization format: date or flat', 'date')
@@ -77,19 +106,77 @@ export function createProgram(): Command {
       'Max retries for failed downloads (with exponential backoff)',
       String(DEFAULT_MAX_RETRIES)
     )
+    .option(
+      '--connect-timeout <ms>',
+      'Give up connecting to the server after this many milliseconds (0 disables)',
+      parseNonNegativeInteger,
+      DEFAULT_REQUEST_TIMEOUTS.connectMs
+    )
+    .option(
+      '--header-timeout <ms>',
+      'Give up waiting for a response after this many milliseconds (0 disables)',
+      parseNonNegativeInteger,
+      DEFAULT_REQUEST_TIMEOUTS.headersMs
+    )
+    .option(
+      '--idle-timeout <ms>',
+      'Give up on a download that receives no data for this many milliseconds (0 disables)',
+      parseNonNegativeInteger,
+      DEFAULT_REQUEST_TIMEOUTS.idleMs
+    )
+    .option(
+      '--max-failures <n>',
+      'Stop after this many failed downloads in a row (0 never stops)',
+      parseNonNegativeInteger,
+      DEFAULT_MAX_CONSECUTIVE_FAILURES
+    )
     .option('--photos', 'Import downloaded files into Apple Photos (macOS only)', false)
     .option('-l, --limit <n>', 'Limit number of memories to process (for testing)')
     .option('--no-overlay', 'Skip overlay compositing (faster if overlay URLs are expired)')
+    .option('--split-segments', 'Save videos split into segments as numbered parts', false)
+    .option('--rejects-file <path>', 'Write export entries that could not be parsed to a JSON file')
+    .option(
+      '--offline',
+      'Only use media files included in the export (memories/ folder), never download',
+      false
+    )
+    .option(
+      '--proxy <url>',
+      'Send downloads through an HTTP(S) or SOCKS5 proxy (default: HTTPS_PROXY/HTTP_PROXY/ALL_PROXY)'
+    )
+    .option(
+      '--prefetch-urls [window]',
+      'Resolve signed URLs (JSON exports) before downloading: all of them, or this many ahead',
+      parsePositiveInteger
+    )
+    .option(
+      '--max-bandwidth <rate>',
+      'Limit the total download speed, e.g. 5MB/s (press < or > to halve or double it while running)'
+    )
+    .option('--format-info', 'Show which export format was detected and why, then exit', false)
     .option('-i, --interactive', 'Run in interactive mode with guided prompts', false)
-    .action(async (exportPath: string | undefined, opts: Record<string, unknown>) => {
+    .action(async (exportPaths: string[], opts: Record<string, unknown>) => {
       // If no path provided and not explicitly interactive, this is handled by index.ts
-      if (!exportPath) {
+      if (exportPaths.length === 0) {
         console.error('Error: No export path provided. Use -i for interactive mode.');
         process.exitCode = 1;
         return;
       }
 
-      await runExport(exportPath, {
+      if (opts.formatInfo) {
+        await printFormatInfo(exportPaths);
+        return;
+      }
+      let maxBandwidth: number | undefined;
+      try {
+        maxBandwidth = opts.maxBandwidth ? parseBandwidth(opts.maxBandwidth as string) : undefined;
+      } catch (error) {
+        console.error(`Error: ${error instanceof Error ? error.message : 'Invalid bandwidth'}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      await runExport(exportPaths, {
         outputDir: opts.output as string,
         format: opts.format as 'date' | 'flat',
         dryRun: opts.dryRun as boolean,
@@ -97,15 +184,90 @@ export function createProgram(): Command {
         delay: parseInt(opts.delay as string, 10),
         concurrency: parseInt(opts.concurrency as string, 10),
         maxRetries: parseInt(opts.maxRetries as string, 10),
+        maxConsecutiveFailures: opts.maxFailures as number,
         importToPhotos: opts.photos as boolean,
         limit: opts.limit ? parseInt(opts.limit as string, 10) : null,
         skipOverlay: opts.overlay === false, // --no-overlay sets overlay to false
+        splitSegments: opts.splitSegments as boolean,
+        offline: opts.offline as boolean,
+        rejectsFile: opts.rejectsFile as string | undefined,
+        proxy: opts.proxy as string | undefined,
+        prefetchUrls: parsePrefetchUrls(opts.prefetchUrls as number | boolean | undefined),
+        maxBandwidth,
+        timeouts: {
+          connectMs: opts.connectTimeout as number,
+          headersMs: opts.headerTimeout as number,
+          idleMs: opts.idleTimeout as number,
+        },
       });
     });
 
   return program;
 }
 
+/**
+ * Parse the --prefetch-urls option, given without a value for all memories
+ */
+function parsePrefetchUrls(value: number | boolean | undefined): 'all' | number | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (value === true) return 'all';
+  return value;
+}
+
+/**
+ * Parse an option value that must be a positive whole number
+ * @throws InvalidArgumentError, which commander reports with the option name
+ */
+function parsePositiveInteger(value: string): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value.trim()) || number <= 0) {
+    throw new InvalidArgumentError('Expected a positive whole number.');
+  }
+  return number;
+}
+
+/**
+ * Parse an option value that must be a whole number, 0 included
+ * @throws InvalidArgumentError, which commander reports with the option name
+ */
+function parseNonNegativeInteger(value: string): number {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new InvalidArgumentError('Expected a whole number (0 or more).');
+  }
+  return Number(value);
+}
+
+/**
+ * Print which format adapter matched each part of the given exports, and why
+ */
+async function printFormatInfo(exportPaths: readonly string[]): Promise<void> {
+  const adapters = getFormatAdapters();
+  console.log(`Format adapters (in order): ${adapters.map((a) => a.name).join(', ')}`);
+
+  let matched = 0;
+  for (const exportPath of exportPaths) {
+    console.log();
+    console.log(exportPath);
+
+    for (const match of await detectExportFormats(exportPath)) {
+      const part = match.part === exportPath ? '.' : basename(match.part);
+      if (match.adapter && match.detection) {
+        matched++;
+        console.log(`  ${part}: ${match.adapter.name} - ${match.adapter.description}`);
+        console.log(`    ${match.detection.reason}`);
+      } else {
+        console.log(`  ${part}: no adapter matched`);
+      }
+    }
+  }
+
+  if (matched === 0) {
+    console.log();
+    console.log('No memories file was recognized.');
+    process.exitCode = 1;
+  }
+}
+
 /**
  * Estimate download time
  */
@@ -132,7 +294,10 @@ function estimateTime(count: number, delay: number, concurrency: number): string
 /**
  * Main export execution - exported for use by interactive mode
  */
-export async function runExport(exportPath: string, options: ExportOptions): Promise<void> {
+export async function runExport(
+  exportPaths: string | readonly string[],
+  options: ExportOptions
+): Promise<void> {
   const spinner = ora('Loading Snapchat export...').start();
 
   try {
@@ -147,68 +312,121 @@ export async function runExport(exportPath: string, options: ExportOptions): Pro
       spinner.text = 'Apple Photos available. Loading Snapchat export...';
     }
 
-    // Load memories (use preloaded from interactive mode if available)
-    let memories: SnapchatMemory[];
+    // Check the proxy URL before loading anything
+    if (options.proxy) {
+      try {
+        parseProxyUrl(options.proxy);
+      } catch (error) {
+        spinner.fail(error instanceof Error ? error.message : 'Invalid proxy URL');
+        process.exitCode = 1;
+        return;
+      }
+    }
+
+    // Load memories (use preloaded from interactive mode if available). A single
+    // memories file is streamed; several parts are merged up front to dedupe them.
+    let loadedMemories: readonly SnapchatMemory[] | null = null;
+    let report = createParseReport();
     if (options.preloadedMemories && options.preloadedMemories.length > 0) {
-      memories = [...options.preloadedMemories];
-      spinner.succeed(`Using ${memories.length} pre-loaded memories`);
+      loadedMemories = options.preloadedMemories;
     } else {
-      memories = await loadMemories(exportPath);
-      spinner.succeed(`Found ${memories.length} memories`);
+      const paths = typeof exportPaths === 'string' ? [exportPaths] : exportPaths;
+      const fileResults = await Promise.all(paths.map((path) => findMemoriesFiles(path)));
+      if (fileResults.flat().length > 1) {
+        ({ memories: loadedMemories, report } = await loadMemoriesWithReport(exportPaths));
+      }
+    }
+    const openMemories = (): AsyncIterable<SnapchatMemory> | Iterable<SnapchatMemory> =>
+      loadedMemories ?? streamMemories(exportPaths);
+
+    // Load manifest for resume capability
+    const manifest = await loadManifest(options.outputDir);
+    const manifestStats = getManifestStats(manifest);
+
+    // The first pass over a streamed export also fills in the parse report,
+    // and checks when the links of the memories to download expire
+    const expiry = createExpiryTriage({ skipOverlay: options.skipOverlay });
+    const summary = await summarizeMemories(
+      loadedMemories ?? streamMemories(exportPaths, report),
+      manifest,
+      options.offline,
+      expiry
+    );
+    if (options.preloadedMemories && options.preloadedMemories.length > 0) {
+      spinner.succeed(`Using ${summary.total} pre-loaded memories`);
+    } else {
+      spinner.succeed(`Found ${summary.total} memories`);
     }
 
-    if (memories.length === 0) {
+    if (summary.total === 0) {
       console.log('No memories to export.');
       return;
     }
 
     // Show summary
-    const images = memories.filter((m) => m.mediaType === 'Image').length;
-    const videos = memories.filter((m) => m.mediaType === 'Video').length;
-    const withLocation = memories.filter((m) => m.location !== null).length;
-
-    console.log(`  Images: ${images}`);
-    console.log(`  Videos: ${videos}`);
-    console.log(`  With GPS location: ${withLocation}`);
-    console.log(`  Date range: ${formatDateRange(memories)}`);
-
-    // Check overlay URL expiration and warn user
-    let effectiveSkipOverlay = options.skipOverlay;
-    if (!effectiveSkipOverlay) {
-      const expirationInfo = checkOverlayUrlsExpired(memories);
-      if (expirationInfo?.isExpired) {
-        console.log();
-        console.log(
-          `  Warning: Overlay URLs appear to be expired (${expirationInfo.ageHours} hours old).`
-        );
-        console.log('  Overlays will not be applied. Use --no-overlay to skip overlay attempts.');
-        console.log('  For overlays, request a fresh Snapchat export and run immediately.');
-        effectiveSkipOverlay = true;
-      } else if (expirationInfo && expirationInfo.ageHours > 3) {
-        console.log();
-        console.log(
-          `  Note: Export is ${expirationInfo.ageHours} hours old. Overlay URLs may expire soon.`
-        );
+    console.log(`  Images: ${summary.images}`);
+    console.log(`  Videos: ${summary.videos}`);
+    console.log(`  With GPS location: ${summary.withLocation}`);
+    console.log(`  Date range: ${formatDateRange(summary.earliest, summary.latest)}`);
+    if (summary.localMedia > 0) {
+      console.log(`  With included media files: ${summary.localMedia}`);
+    }
+    if (summary.unavailable > 0) {
+      console.log(`  Skipped in offline mode (no included media file): ${summary.unavailable}`);
+    }
+
+    // Show where memories came from when several exports were merged
+    if (summary.sourceCounts.size > 1) {
+      console.log(`  Merged from ${summary.sourceCounts.size} exports:`);
+      for (const [source, count] of summary.sourceCounts) {
+        console.log(`    ${basename(source)}: ${count}`);
+      }
+    }
+
+    // Report entries that could not be parsed or had clashing IDs
+    if (hasParseIssues(report)) {
+      console.log();
+      console.log(formatParseReport(report).replace(/^/gm, '  '));
+    }
+    if (report.rejected.length > 0) {
+      if (options.rejectsFile) {
+        await writeParseReport(report, options.rejectsFile);
+        console.log(`  Skipped entries written to: ${options.rejectsFile}`);
+      } else {
+        console.log('  Use --rejects-file <path> to save them for review.');
+      }
+    }
+
+    // Report when the links of the memories to download expire
+    const expiryReport = expiry.report(options.delay / Math.max(1, options.concurrency));
+    if (expiryReport.total > 0) {
+      console.log();
+      console.log(formatExpiryReport(expiryReport).replace(/^/gm, '  '));
+      if (expiryReport.expired + expiryReport.expiringBeforeTurn > 0) {
+        console.log('  For the rest, request a fresh Snapchat export and run it right away.');
       }
     }
     console.log();
 
     // Dry run mode
     if (options.dryRun) {
-      const displayMemories = options.limit ? memories.slice(0, options.limit) : memories;
+      const displayCount = options.limit ? Math.min(options.limit, summary.total) : summary.total;
       console.log('Dry run mode - showing what would be downloaded:');
       console.log();
-      for (const memory of displayMemories) {
+      let shown = 0;
+      for await (const memory of openMemories()) {
+        if (shown >= displayCount) break;
         const location = memory.location ? formatGpsForDisplay(memory.location) : 'No location';
         console.log(`  ${memory.date.toISOString()} | ${memory.mediaType} | ${location}`);
+        shown++;
       }
       console.log();
-      console.log(`Would download ${displayMemories.length} files to: ${options.outputDir}`);
+      console.log(`Would download ${displayCount} files to: ${options.outputDir}`);
       if (options.importToPhotos) {
         console.log('Would import to Apple Photos after download');
       }
       console.log(
-        `Estimated time: ${estimateTime(displayMemories.length, options.delay, options.concurrency)}`
+        `Estimated time: ${estimateTime(displayCount, options.delay, options.concurrency)}`
       );
       return;
     }
@@ -216,64 +434,159 @@ export async function runExport(exportPath: string, options: ExportOptions): Pro
     // Ensure output directory exists
     await ensureDir(options.outputDir);
 
-    // Load manifest for resume capability
-    const manifest = await loadManifest(options.outputDir);
-    const manifestStats = getManifestStats(manifest);
+    // Persist manifest entries moved over from legacy media IDs
+    if (summary.migrated > 0) {
+      await saveManifest(manifest);
+      console.log(`Migrated ${summary.migrated} manifest entries to new media IDs`);
+    }
 
-    // Filter out already-downloaded memories
-    let pendingMemories = filterPendingMemories(memories, manifest);
-    const alreadyDownloaded = memories.length - pendingMemories.length;
+    // Already-downloaded memories are filtered out while streaming
+    let pendingCount = summary.pending;
+    const alreadyDownloaded = summary.total - summary.pending;
 
     if (alreadyDownloaded > 0) {
       console.log(
         `Previously downloaded: ${alreadyDownloaded} (${manifestStats.images} images, ${manifestStats.videos} videos)`
       );
-      console.log(`Remaining: ${pendingMemories.length}`);
+      console.log(`Remaining: ${pendingCount}`);
       console.log();
     }
 
     // Apply limit if specified
-    if (options.limit && options.limit < pendingMemories.length) {
+    if (options.limit && options.limit < pendingCount) {
       console.log(`Limiting to ${options.limit} memories (--limit flag)`);
-      pendingMemories = pendingMemories.slice(0, options.limit);
+      pendingCount = options.limit;
       console.log();
     }
 
-    if (pendingMemories.length === 0) {
+    if (pendingCount === 0) {
       console.log('All memories already downloaded! Nothing to do.');
       return;
     }
 
     // Download with progress bar
-    console.log(`Downloading to: ${options.outputDir}`);
-    console.log(`Concurrency: ${options.concurrency} parallel downloads`);
-    console.log(`Delay between downloads: ${options.delay}ms`);
-    console.log(`Max retries: ${options.maxRetries} (with exponential backoff)`);
-    if (effectiveSkipOverlay) {
+    if (options.offline) {
+      console.log(`Exporting included media files to: ${options.outputDir}`);
+    } else {
+      console.log(`Downloading to: ${options.outputDir}`);
+      console.log(`Concurrency: ${options.concurrency} parallel downloads`);
+      console.log(`Delay between downloads: ${options.delay}ms`);
+      console.log(`Max retries: ${options.maxRetries} (with exponential backoff)`);
+      if (options.proxy) {
+        console.log(`Proxy: ${describeProxy(parseProxyUrl(options.proxy))}`);
+      }
+      if (options.prefetchUrls === 'all') {
+        console.log('Signed URLs: resolved before downloading');
+      } else if (options.prefetchUrls !== undefined) {
+        console.log(`Signed URLs: resolved ${options.prefetchUrls} ahead of the downloads`);
+      }
+      if (!expiry.isScheduleOrdered) {
+        console.log('Order: earliest expiring links first');
+      }
+      if (options.maxBandwidth) {
+        console.log(`Max bandwidth: ${formatBandwidth(options.maxBandwidth)}`);
+      }
+    }
+    if (options.skipOverlay) {
       console.log('Overlay compositing: disabled');
     }
     if (options.importToPhotos) {
       console.log('Will import to Apple Photos after download');
     }
-    console.log(
-      `Estimated time: ${estimateTime(pendingMemories.length, options.delay, options.concurrency)}`
-    );
+    if (!options.offline) {
+      console.log(
+        `Estimated time: ${estimateTime(pendingCount, options.delay, options.concurrency)}`
+      );
+    }
     console.log();
 
-    const { stats, importedPaths } = await downloadWithProgress(
+    // Memories whose links expire first are downloaded first. Only when the export
+    // isn't in that order already are the pending memories held and sorted.
+    let scheduled: SnapchatMemory[] | null = null;
+    if (!options.offline && !expiry.isScheduleOrdered) {
+      const pending: SnapchatMemory[] = [];
+      for await (const memory of streamPendingMemories(
+        openMemories(),
+        manifest,
+        summary.pending,
+        false
+      )) {
+        pending.push(memory);
+      }
+      scheduled = sortByExpiry(pending, { skipOverlay: options.skipOverlay });
+    }
+    const openPendingMemories = (): AsyncGenerator<SnapchatMemory> =>
+      streamPendingMemories(scheduled ?? openMemories(), manifest, pendingCount, options.offline);
+
+    // Requests go through the --proxy or the proxy from the environment
+    const transport =
+      options.transport ?? createHttpTransport({ proxy: getProxySettings(options.proxy) });
+    const getDownloadUrl = (memory: SnapchatMemory): string | null =>
+      getMemoryDownloadUrl(memory, options.skipOverlay);
+
+    // Signed URLs of JSON exports, resolved ahead of the downloads if asked to
+    const signedUrls = createSignedUrlCache();
+    const prefetchOptions = {
+      signedUrls,
+      concurrency: options.concurrency,
+      transport,
+      timeouts: options.timeouts,
+    };
+    let pendingMemories = openPendingMemories();
+    if (options.prefetchUrls === 'all' && !options.offline) {
+      // First phase: resolve every signed URL, so the downloads start with fresh links
+      const prefetchSpinner = ora('Resolving signed URLs...').start();
+      const result = await resolveSignedUrls(mapMemories(openPendingMemories(), getDownloadUrl), {
+        ...prefetchOptions,
+        onProgress: ({ resolved, failed }) => {
+          prefetchSpinner.text = `Resolving signed URLs... ${resolved + failed}/${pendingCount}`;
+        },
+      });
+      prefetchSpinner.succeed(
+        `Resolved ${result.resolved} signed URLs` +
+          (result.failed > 0 ? ` (${result.failed} failed, retried while downloading)` : '')
+      );
+      console.log();
+    } else if (typeof options.prefetchUrls === 'number' && !options.offline) {
+      // Rolling window: resolve signed URLs a little ahead of the workers
+      pendingMemories = prefetchSignedUrls(
+        pendingMemories,
+        getDownloadUrl,
+        options.prefetchUrls,
+        prefetchOptions
+      );
+    }
+
+    const { stats, savedPaths, trip, stopped } = await downloadWithProgress(
       pendingMemories,
-      { ...options, skipOverlay: effectiveSkipOverlay },
-      manifest
+      pendingCount,
+      { ...options, transport },
+      manifest,
+      signedUrls
     );
-
     console.log();
-    console.log('Download complete!');
+    console.log(trip || stopped ? 'Download stopped!' : 'Download complete!');
     console.log(formatStats(stats));
 
+    // The manifest has every saved memory, so a later run picks up from here
+    if (trip) {
+      console.log();
+      console.log(formatBreakerTrip(trip));
+      process.exitCode = BREAKER_EXIT_CODES[trip.cause];
+    } else if (stopped) {
+      const left = stats.total - stats.downloaded - stats.skipped - stats.failed;
+      console.log();
+      console.log(
+        `Stopped with ${left} memories left. Run the same command again to resume; ` +
+          'memories already downloaded are skipped.'
+      );
+      process.exitCode = INTERRUPTED_EXIT_CODE;
+    }
+
     // Import to Apple Photos if requested
-    if (options.importToPhotos && importedPaths.length > 0) {
+    if (options.importToPhotos && savedPaths.length > 0) {
       console.log();
-      await importToApplePhotos(importedPaths);
+      await importToApplePhotos(savedPaths);
     }
   } catch (error) {
     spinner.fail('Export failed');
@@ -286,14 +599,131 @@ export async function runExport(exportPath: string, options: ExportOptions): Pro
 }
 
 /**
- * Format date range for display
+ * Summary of a set of memories, gathered in a single pass
+ */
+interface MemorySummary {
+  total: number;
+  pending: number; // Not yet in the manifest
+  unavailable: number; // Not yet in the manifest, but no included media file in offline mode
+  localMedia: number; // With media files included in the export
+  migrated: number; // Manifest entries moved from legacy media IDs
+  images: number;
+  videos: number;
+  withLocation: number;
+  earliest: Date | null;
+  latest: Date | null;
+  sourceCounts: Map<string, number>; // Memories per export source
+}
+
+/**
+ * Summarize memories, holding only their IDs in memory
+ * Also migrates manifest entries keyed by legacy media IDs along the way, and
+ * adds the memories still to be downloaded to the expiry triage.
+ */
+async function summarizeMemories(
+  memories: AsyncIterable<SnapchatMemory> | Iterable<SnapchatMemory>,
+  manifest: ExportManifest,
+  offline: boolean,
+  expiry?: ExpiryTriage
+): Promise<MemorySummary> {
+  const summary: MemorySummary = {
+    total: 0,
+    pending: 0,
+    unavailable: 0,
+    localMedia: 0,
+    migrated: 0,
+    images: 0,
+    videos: 0,
+    withLocation: 0,
+    earliest: null,
+    latest: null,
+    sourceCounts: new Map(),
+  };
+
+  // The same memory can appear more than once, e.g. in overlapping export parts;
+  // like streamPendingMemories, count it once
+  const counted = new Set<string>();
+
+  for await (const memory of memories) {
+    if (counted.has(memory.mediaId)) continue;
+    counted.add(memory.mediaId);
+    summary.total++;
+    if (migrateManifestEntry(manifest, memory)) summary.migrated++;
+    if (memory.localMedia) summary.localMedia++;
+    if (!isMemoryDownloaded(manifest, memory)) {
+      if (offline && !memory.localMedia) {
+        summary.unavailable++;
+      } else {
+        summary.pending++;
+        if (!memory.localMedia) expiry?.add(memory);
+      }
+    }
+    if (memory.mediaType === 'Image') {
+      summary.images++;
+    } else {
+      summary.videos++;
+    }
+    if (memory.location !== null) summary.withLocation++;
+    if (!summary.earliest || memory.date < summary.earliest) summary.earliest = memory.date;
+    if (!summary.latest || memory.date > summary.latest) summary.latest = memory.date;
+    if (memory.source) {
+      summary.sourceCounts.set(memory.source, (summary.sourceCounts.get(memory.source) ?? 0) + 1);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Stream the memories still to be downloaded, up to a limit
+ * Skips memories already in the manifest or already queued in this run, and in
+ * offline mode memories without included media files
  */
-function formatDateRange(memories: readonly SnapchatMemory[]): string {
-  if (memories.length === 0) return 'N/A';
+async function* streamPendingMemories(
+  memories: AsyncIterable<SnapchatMemory> | Iterable<SnapchatMemory>,
+  manifest: ExportManifest,
+  limit: number,
+  offline: boolean
+): AsyncGenerator<SnapchatMemory> {
+  const queued = new Set<string>();
+
+  for await (const memory of memories) {
+    if (queued.size >= limit) return;
+    if (offline && !memory.localMedia) continue;
+    if (isMemoryDownloaded(manifest, memory) || queued.has(memory.mediaId)) continue;
+    queued.add(memory.mediaId);
+    yield memory;
+  }
+}
 
-  const dates = memories.map((m) => m.date.getTime());
-  const earliest = new Date(Math.min(...dates));
-  const latest = new Date(Math.max(...dates));
+/**
+ * Get the URL a memory will be downloaded from, or null for included media files
+ */
+function getMemoryDownloadUrl(memory: SnapchatMemory, skipOverlay: boolean): string | null {
+  if (memory.localMedia) return null;
+  if (memory.mediaDownloadUrl && !skipOverlay && !isOverlayExpired(memory)) {
+    return memory.mediaDownloadUrl;
+  }
+  return memory.downloadUrl;
+}
+
+/**
+ * Map a stream of memories as they are read
+ */
+async function* mapMemories<T>(
+  memories: AsyncIterable<SnapchatMemory>,
+  map: (memory: SnapchatMemory) => T
+): AsyncGenerator<T> {
+  for await (const memory of memories) {
+    yield map(memory);
+  }
+}
+
+/**
+ * Format date range for display
+ */
+function formatDateRange(earliest: Date | null, latest: Date | null): string {
+  if (!earliest || !latest) return 'N/A';
 
   const formatDate = (d: Date): string =>
     d.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
@@ -306,223 +736,169 @@ function formatDateRange(memories: readonly SnapchatMemory[]): string {
 }
 
 /**
- * Download memories with CLI progress bar using concurrent downloads
+ * Download memories with CLI progress bar, showing the events of an export engine
  */
 async function downloadWithProgress(
-  memories: readonly SnapchatMemory[],
+  memories: AsyncIterable<SnapchatMemory>,
+  total: number,
   options: ExportOptions,
-  manifest: ExportManifest
-): Promise<{ stats: ExportStats; importedPaths: string[] }> {
+  manifest: ExportManifest,
+  signedUrls?: SignedUrlCache
+): Promise<ExportResult> {
   const progressBar = new cliProgress.SingleBar(
     {
       format:
-        'Downloading |{bar}| {percentage}% | {value}/{total} | {rate}/s | ETA: {eta_formatted} | Retries: {retries}',
+        'Downloading |{bar}| {percentage}% | {value}/{total} | {rate}/s | {speed} | Workers: {workers} | ETA: {eta_formatted} | Retries: {retries}',
       hideCursor: true,
       etaBuffer: 50,
     },
     cliProgress.Presets.shades_classic
   );
 
-  const stats: ExportStats = {
-    total: memories.length,
-    downloaded: 0,
-    skipped: 0,
-    failed: 0,
-    images: 0,
-    videos: 0,
-    retries: 0,
-  };
-
-  const importedPaths: string[] = [];
-
-  progressBar.start(memories.length, 0, { retries: 0 });
+  // Aborted by a second Ctrl+C, which quits without waiting for the downloads in progress
+  const abort = new AbortController();
+  const engine = createExportEngine(options, { manifest, signedUrls, signal: abort.signal });
+  const { rateController, bandwidth } = engine;
+  let retries = 0;
+  const rateStatus = (): { rate: string; speed: string; workers: string } => ({
+    rate: rateController.getRate().toFixed(1),
+    speed:
+      formatBandwidth(bandwidth.getRate()) +
+      (bandwidth.limit > 0 ? ` (max ${formatBandwidth(bandwidth.limit)})` : ''),
+    workers: engine.paused
+      ? 'paused'
+      : `${Math.min(rateController.limit, total)}/${Math.min(engine.concurrency, total)}`,
+  });
+
+  engine.on('retry', ({ memory, attempt, delay, error }) => {
+    retries++;
+    progressBar.update({ retries, ...rateStatus() });
+    console.error(
+      `\n  Retry ${attempt}/${options.maxRetries} for ${memory.mediaId.substring(0, 8)}... ` +
+        `(waiting ${Math.round(delay / 1000)}s, error: ${error.message.substring(0, 50)})`
+    );
+  });
+  let overlayNoted = false;
+  engine.on('warning', ({ memory, type, message }) => {
+    if (type === 'overlay-download') {
+      // Only noted once, as it usually happens for every memory
+      if (!overlayNoted) console.error(`\n  Note: ${message}`);
+      overlayNoted = true;
+      return;
+    }
+    console.error(`\n  Warning for ${memory.mediaId.substring(0, 8)}: ${message}`);
+  });
+  engine.on('failed', ({ error }) => {
+    // The file is saved, but the next run won't know: worth telling apart from a failed download
+    if (error instanceof ManifestWriteError) console.error(`\n  Warning: ${error.message}`);
+  });
+  for (const event of ['saved', 'skipped', 'failed'] as const) {
+    engine.on(event, () => progressBar.increment(rateStatus()));
+  }
 
-  // Create a queue of memories to process
-  const queue = [...memories];
+  if (process.stdin.isTTY) {
+    console.log('Keys: p pause/resume, +/- parallel downloads, </> bandwidth, 0 no limit');
+  }
+  progressBar.start(total, 0, { retries: 0, ...rateStatus() });
+  const statusTimer = setInterval(() => progressBar.update(rateStatus()), 1000);
+  const stopWatchingKeys = watchKeys(engine, () => progressBar.update(rateStatus()));
+
+  // First Ctrl+C: finish the downloads in progress, then stop. Second: quit now
+  const onInterrupt = (): void => {
+    if (!engine.stopping) {
+      engine.stop();
+      console.error(
+        '\n  Stopping after the downloads in progress... (press Ctrl+C again to quit now)'
+      );
+      return;
+    }
+    abort.abort();
+    clearInterval(statusTimer);
+    stopWatchingKeys();
+    progressBar.stop();
+    console.error('\nQuit. Run the same command again to resume.');
+    process.exit(INTERRUPTED_EXIT_CODE);
+  };
+  process.on('SIGINT', onInterrupt);
 
-  /**
-   * Process a single memory: download, composite overlay if present, save, update stats
-   */
-  const processMemory = async (memory: SnapchatMemory): Promise<void> => {
-    try {
-      let media: DownloadedMediaWithExtras;
-
-      // Try to download with overlay support if mediaDownloadUrl is available and not skipping overlays
-      if (memory.mediaDownloadUrl && !options.skipOverlay) {
-        try {
-          const extracted = await downloadMediaWithOverlay(memory, {
-            maxRetries: options.maxRetries,
-            onRetry: (attempt, delay, error) => {
-              stats.retries++;
-              progressBar.update({ retries: stats.retries });
-              console.error(
-                `\n  Retry ${attempt}/${options.maxRetries} for ${memory.mediaId.substring(0, 8)}... ` +
-                  `(waiting ${Math.round(delay / 1000)}s, error: ${error.message.substring(0, 50)})`
-              );
-            },
-          });
-
-          // Composite the overlay if present
-          try {
-            const composited = await compositeMedia(
-              extracted.baseMedia,
-              extracted.overlay,
-              memory.mediaType
-            );
-            media = {
-              data: composited.data,
-              contentType: composited.contentType,
-              extension: composited.extension,
-            };
-          } catch (compError) {
-            // If compositing fails, log warning and use base media
-            if (compError instanceof CompositeError) {
-              console.error(
-                `\n  Warning: Compositing failed for ${memory.mediaId.substring(0, 8)}: ${compError.message}. Using base media.`
-              );
-            }
-            media = {
-              data: extracted.baseMedia,
-              contentType: memory.mediaType === 'Image' ? 'image/jpeg' : 'video/mp4',
-              extension: extracted.baseMediaType,
-            };
-          }
-        } catch (overlayError) {
-          // If overlay download fails, fall back to regular download
-          // This commonly happens when mediaDownloadUrl has expired
-          const errorMsg = overlayError instanceof Error ? overlayError.message : 'Unknown error';
-          // Only log on first occurrence to avoid spam
-          if (stats.downloaded === 0 && stats.failed === 0) {
-            console.error(
-              `\n  Note: Overlay download failed (${errorMsg.substring(0, 60)}). ` +
-                `Falling back to regular download (overlays will not be applied).`
-            );
-          }
-          media = await downloadMemory(memory, {
-            maxRetries: options.maxRetries,
-            onRetry: (attempt, delay, error) => {
-              stats.retries++;
-              progressBar.update({ retries: stats.retries });
-              console.error(
-                `\n  Retry ${attempt}/${options.maxRetries} for ${memory.mediaId.substring(0, 8)}... ` +
-                  `(waiting ${Math.round(delay / 1000)}s, error: ${error.message.substring(0, 50)})`
-              );
-            },
-          });
-        }
-      } else {
-        // No mediaDownloadUrl, use regular download
-        const downloaded = await downloadMemory(memory, {
-          maxRetries: options.maxRetries,
-          onRetry: (attempt, delay, error) => {
-            stats.retries++;
-            progressBar.update({ retries: stats.retries });
-            console.error(
-              `\n  Retry ${attempt}/${options.maxRetries} for ${memory.mediaId.substring(0, 8)}... ` +
-                `(waiting ${Math.round(delay / 1000)}s, error: ${error.message.substring(0, 50)})`
-            );
-          },
-        });
-
-        // Check if we got additional files (overlay) from a ZIP and should composite
-        const overlayFile = downloaded.additionalFiles?.find((f) => f.type === 'overlay');
-
-        if (overlayFile && !options.skipOverlay) {
-          // Composite the overlay
-          try {
-            const composited = await compositeMedia(
-              downloaded.data,
-              overlayFile.data,
-              memory.mediaType
-            );
-            media = {
-              data: composited.data,
-              contentType: composited.contentType,
-              extension: composited.extension,
-            };
-          } catch (compError) {
-            // If compositing fails, log warning and use base media
-            if (compError instanceof CompositeError) {
-              console.error(
-                `\n  Warning: Compositing failed for ${memory.mediaId.substring(0, 8)}: ${compError.message}. Using base media.`
-              );
-            }
-            media = {
-              data: downloaded.data,
-              contentType: downloaded.contentType,
-              extension: downloaded.extension,
-            };
-          }
-        } else {
-          media = {
-            data: downloaded.data,
-            contentType: downloaded.contentType,
-            extension: downloaded.extension,
-          };
-        }
-      }
+  try {
+    return await engine.run(memories, total);
+  } finally {
+    process.off('SIGINT', onInterrupt);
+    clearInterval(statusTimer);
+    stopWatchingKeys();
+    progressBar.stop();
+  }
+}
 
-      try {
-        const filePath = await saveMemory(memory, media, options);
-        stats.downloaded++;
-        importedPaths.push(filePath);
-        if (memory.mediaType === 'Image') {
-          stats.images++;
-        } else {
-          stats.videos++;
-        }
-
-        // Add to manifest and save (ensures resume capability)
-        addManifestEntry(manifest, memory, filePath, media.data.length);
-        await saveManifest(manifest);
-      } catch (error) {
-        if (error instanceof Error && error.message === 'File already exists') {
-          stats.skipped++;
-        } else {
-          stats.failed++;
-        }
-      }
-    } catch {
-      stats.failed++;
-    }
+/**
+ * Lowest limit the < key goes down to
+ */
+const MIN_BANDWIDTH = 16 * 1024;
 
-    progressBar.increment();
-  };
+/**
+ * Highest number of parallel downloads the + key goes up to
+ */
+const MAX_KEY_CONCURRENCY = 20;
 
-  /**
-   * Worker that pulls from queue and processes with delay
-   */
-  const worker = async (): Promise<void> => {
-    while (queue.length > 0) {
-      const memory = queue.shift();
-      if (!memory) break;
+/**
+ * Exit code of a run stopped with Ctrl+C, as for a shell killed by SIGINT
+ */
+const INTERRUPTED_EXIT_CODE = 130;
 
-      await processMemory(memory);
+/**
+ * Let the user control the export while downloading
+ * p pauses or resumes, + and - change the number of parallel downloads,
+ * < halves the bandwidth limit (starting from the current speed if there is
+ * none), > doubles it and 0 removes it. Only on a terminal.
+ * @returns A function that stops listening
+ */
+function watchKeys(engine: ExportEngine, onChange: () => void): () => void {
+  const { bandwidth } = engine;
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return () => {};
+  }
 
-      // Rate limiting delay
-      if (queue.length > 0) {
-        await sleep(options.delay);
+  const onKeypress = (text: string | undefined, key: { ctrl?: boolean; name?: string }): void => {
+    if (key?.ctrl && key.name === 'c') {
+      // Raw mode swallows Ctrl+C
+      process.kill(process.pid, 'SIGINT');
+      return;
+    }
+    if (text === 'p') {
+      if (engine.paused) {
+        engine.resume();
+      } else {
+        engine.pause();
       }
+    } else if (text === '+' || text === '=') {
+      engine.setConcurrency(Math.min(MAX_KEY_CONCURRENCY, engine.concurrency + 1));
+    } else if (text === '-') {
+      engine.setConcurrency(engine.concurrency - 1);
+    } else if (text === '<') {
+      const current = bandwidth.limit || bandwidth.getRate();
+      bandwidth.setLimit(Math.max(MIN_BANDWIDTH, Math.round(current / 2)));
+    } else if (text === '>' && bandwidth.limit > 0) {
+      bandwidth.setLimit(bandwidth.limit * 2);
+    } else if (text === '0') {
+      bandwidth.setLimit(0);
+    } else {
+      return;
     }
+    onChange();
   };
 
-  // Start concurrent workers with staggered starts
-  const workers: Promise<void>[] = [];
-  const actualConcurrency = Math.min(options.concurrency, memories.length);
+  emitKeypressEvents(stdin);
+  stdin.setRawMode(true);
+  stdin.on('keypress', onKeypress);
+  stdin.resume();
 
-  for (let i = 0; i < actualConcurrency; i++) {
-    // Stagger worker starts to avoid burst of requests
-    if (i > 0) {
-      await sleep(options.delay / actualConcurrency);
-    }
-    workers.push(worker());
-  }
-
-  // Wait for all workers to complete
-  await Promise.all(workers);
-
-  progressBar.stop();
-  return { stats, importedPaths };
+  return () => {
+    stdin.off('keypress', onKeypress);
+    stdin.setRawMode(false);
+    stdin.pause();
+  };
 }
 
 /**
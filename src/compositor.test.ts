@@ -0,0 +1,88 @@
+/**
+ * Tests for the compositor module, with the bundled ffmpeg
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import sharp from 'sharp';
+import { compositeSegments, concatVideos } from './compositor.js';
+
+const { path: ffmpegPath } = createRequire(import.meta.url)('@ffmpeg-installer/ffmpeg') as {
+  path: string;
+};
+
+/**
+ * Run ffmpeg and return what it wrote to stderr
+ */
+const ffmpeg = (args: string[]): { status: number | null; stderr: string } => {
+  const result = spawnSync(ffmpegPath, ['-hide_banner', ...args], { encoding: 'utf8' });
+  return { status: result.status, stderr: result.stderr };
+};
+
+let testDir: string;
+
+beforeAll(async () => {
+  testDir = await mkdtemp(join(tmpdir(), 'compositor-test-'));
+});
+
+afterAll(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+describe('compositeSegments', () => {
+  it('should encode the parts without an overlay like the composited ones', async () => {
+    // Parts in another codec than the one composited parts are encoded with
+    const segments = [1, 2, 3].map((n) => {
+      const path = join(testDir, `part-${n}.mp4`);
+      expect(
+        ffmpeg([
+          '-f',
+          'lavfi',
+          '-i',
+          'testsrc=size=32x32:rate=10:duration=0.3',
+          '-c:v',
+          'mpeg4',
+          '-y',
+          path,
+        ]).status
+      ).toBe(0);
+      return { path, overlayPath: null as string | null };
+    });
+    segments[1].overlayPath = join(testDir, 'part-2-overlay.png');
+    await writeFile(
+      segments[1].overlayPath,
+      await sharp({
+        create: {
+          width: 32,
+          height: 32,
+          channels: 4,
+          background: { r: 255, g: 0, b: 0, alpha: 1 },
+        },
+      })
+        .png()
+        .toBuffer()
+    );
+
+    const parts = await compositeSegments(segments);
+    const joined = await concatVideos(
+      parts.map((part) => part.path),
+      join(testDir, 'joined.mp4')
+    );
+
+    expect(parts.map((part) => part.path)).toEqual([
+      join(testDir, 'part-1-encoded.mp4'),
+      join(testDir, 'part-2-composited.mp4'),
+      join(testDir, 'part-3-encoded.mp4'),
+    ]);
+    // Every part has the codec of the composited part, so the streams could be copied
+    for (const part of parts) {
+      expect(ffmpeg(['-i', part.path]).stderr).toMatch(/Video: h264/);
+    }
+    const decoded = ffmpeg(['-v', 'error', '-i', joined.path, '-f', 'null', '-']);
+    expect(decoded).toEqual({ status: 0, stderr: '' });
+  }, 60_000);
+});
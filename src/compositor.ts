@@ -2,15 +2,18 @@
  * Compositor module for combining base media with overlay images
  *
  * Handles:
- * - Image compositing: base JPG + overlay PNG/WebP -> combined JPG
- * - Video compositing: base MP4 + overlay PNG/WebP -> combined MP4 (using ffmpeg)
+ * - Image compositing: base JPG/PNG/WebP/HEIC + overlay PNG/WebP -> combined image
+ * - Video compositing: base MP4/MOV/WebM + overlay PNG/WebP -> combined video (using ffmpeg)
+ * - Multi-segment videos: each part with its overlay, then joined into one video
+ * Composited media keeps the container of its base where it can be written.
  */
 
 import sharp from 'sharp';
 import { spawn, spawnSync } from 'node:child_process';
-import { writeFile, mkdtemp, rm, readFile } from 'node:fs/promises';
-import { join } from 'node:path';
-import { tmpdir } from 'node:os';
+import { rm, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import type { MediaSegment } from './downloader.js';
+import { detectMediaFormat } from './sniff.js';
 
 /**
  * Get the ffmpeg path - tries bundled version first, then system ffmpeg
@@ -44,11 +47,40 @@ const FFMPEG_PATH = getFfmpegPath();
  * Result of a composite operation
  */
 export interface CompositeResult {
-  readonly data: Buffer;
+  readonly path: string;
   readonly contentType: string;
   readonly extension: string;
 }
 
+/**
+ * Formats composited images are written in, by extension
+ * Bases in other formats (e.g. HEIC, which sharp can't write) become JPEG.
+ */
+const IMAGE_OUTPUTS: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+/**
+ * Containers composited videos are written in, by extension, with their video encoder
+ */
+const VIDEO_OUTPUTS: Record<string, { contentType: string; encoder: string[] }> = {
+  mp4: { contentType: 'video/mp4', encoder: ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23'] },
+  mov: {
+    contentType: 'video/quicktime',
+    encoder: ['-c:v', 'libx264', '-preset', 'fast', '-crf', '23'],
+  },
+  webm: { contentType: 'video/webm', encoder: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0'] },
+};
+
+/**
+ * Get the extension of a file without the dot, e.g. "mp4"
+ */
+function getExtension(path: string): string {
+  return extname(path).slice(1).toLowerCase();
+}
+
 /**
  * Error thrown when compositing fails
  */
@@ -66,42 +98,52 @@ export class CompositeError extends Error {
  * Composite an image with an overlay using sharp
  * Supports JPG, PNG, WebP, and other formats for both base and overlay
  *
- * @param baseImage - The base image buffer (JPG/PNG/WebP)
- * @param overlay - The overlay image buffer (PNG/WebP with transparency)
- * @returns Combined image as JPEG buffer
+ * @param basePath - The base image file (JPG/PNG/WebP/HEIC)
+ * @param overlayPath - The overlay image file (PNG/WebP with transparency)
+ * @param outputPath - File to write the combined image to: .png, .webp or else JPEG
+ * @returns Combined image
  */
-export async function compositeImage(baseImage: Buffer, overlay: Buffer): Promise<CompositeResult> {
+export async function compositeImage(
+  basePath: string,
+  overlayPath: string,
+  outputPath: string
+): Promise<CompositeResult> {
   try {
     // Get base image metadata to determine dimensions
-    const baseMetadata = await sharp(baseImage).metadata();
+    const baseMetadata = await sharp(basePath).metadata();
 
     if (!baseMetadata.width || !baseMetadata.height) {
       throw new CompositeError('Image', 'Could not determine base image dimensions');
     }
 
     // Resize overlay to match base image dimensions
-    const resizedOverlay = await sharp(overlay)
+    const resizedOverlay = await sharp(overlayPath)
       .resize(baseMetadata.width, baseMetadata.height, {
         fit: 'fill', // Stretch to exact dimensions
       })
       .toBuffer();
 
-    // Composite overlay on top of base image and output as JPEG
-    const composited = await sharp(baseImage)
-      .composite([
-        {
-          input: resizedOverlay,
-          top: 0,
-          left: 0,
-        },
-      ])
-      .jpeg({ quality: 95 })
-      .toBuffer();
+    // Composite overlay on top of base image, in the format of the output file
+    const extension = getExtension(outputPath) in IMAGE_OUTPUTS ? getExtension(outputPath) : 'jpg';
+    const composited = sharp(basePath).composite([
+      {
+        input: resizedOverlay,
+        top: 0,
+        left: 0,
+      },
+    ]);
+    if (extension === 'png') {
+      await composited.png().toFile(outputPath);
+    } else if (extension === 'webp') {
+      await composited.webp({ quality: 95 }).toFile(outputPath);
+    } else {
+      await composited.jpeg({ quality: 95 }).toFile(outputPath);
+    }
 
     return {
-      data: composited,
-      contentType: 'image/jpeg',
-      extension: 'jpg',
+      path: outputPath,
+      contentType: IMAGE_OUTPUTS[extension],
+      extension,
     };
   } catch (error) {
     if (error instanceof CompositeError) {
@@ -117,52 +159,65 @@ export async function compositeImage(baseImage: Buffer, overlay: Buffer): Promis
 /**
  * Composite a video with an overlay PNG using ffmpeg
  *
- * @param baseVideo - The base video buffer (MP4)
- * @param overlay - The overlay image buffer (PNG with transparency)
- * @returns Combined video as MP4 buffer
+ * @param basePath - The base video file (MP4/MOV/WebM)
+ * @param overlayPath - The overlay image file (PNG with transparency)
+ * @param outputPath - File to write the combined video to: .mov, .webm or else MP4
+ * @returns Combined video
  */
-export async function compositeVideo(baseVideo: Buffer, overlay: Buffer): Promise<CompositeResult> {
-  // Create a temporary directory for intermediate files
-  const tempDir = await mkdtemp(join(tmpdir(), 'snapchat-composite-'));
-  const tempVideoPath = join(tempDir, 'input.mp4');
-  const tempOverlayPath = join(tempDir, 'overlay.png');
-  const tempOutputPath = join(tempDir, 'output.mp4');
-
-  try {
-    // Write input files to temp directory
-    await writeFile(tempVideoPath, baseVideo);
-    await writeFile(tempOverlayPath, overlay);
-
-    // Run ffmpeg to composite overlay onto video
-    await runFfmpeg([
-      '-i',
-      tempVideoPath,
+export async function compositeVideo(
+  basePath: string,
+  overlayPath: string,
+  outputPath: string
+): Promise<CompositeResult> {
+  return encodeVideo(
+    basePath,
+    [
       '-i',
-      tempOverlayPath,
+      overlayPath,
       '-filter_complex',
       // Use scale2ref to scale overlay to match video dimensions, then overlay it
       '[1:v][0:v]scale2ref=iw:ih[ovr][base];[base][ovr]overlay=0:0:format=auto',
-      '-c:v',
-      'libx264',
-      '-preset',
-      'fast',
-      '-crf',
-      '23',
+    ],
+    outputPath
+  );
+}
+
+/**
+ * Encode a video with the encoder of its output container using ffmpeg
+ *
+ * @param basePath - The video to encode
+ * @param filterArgs - Further inputs and filters, e.g. to apply an overlay
+ * @param outputPath - File to write the video to: .mov, .webm or else MP4
+ * @returns Encoded video
+ */
+async function encodeVideo(
+  basePath: string,
+  filterArgs: readonly string[],
+  outputPath: string
+): Promise<CompositeResult> {
+  const extension = getExtension(outputPath) in VIDEO_OUTPUTS ? getExtension(outputPath) : 'mp4';
+  const output = VIDEO_OUTPUTS[extension];
+  try {
+    await runFfmpeg([
+      '-i',
+      basePath,
+      ...filterArgs,
+      ...output.encoder,
       '-c:a',
       'copy', // Copy audio stream without re-encoding
       '-y', // Overwrite output
-      tempOutputPath,
+      outputPath,
     ]);
 
-    // Read the output file
-    const outputData = await readFile(tempOutputPath);
-
     return {
-      data: outputData,
-      contentType: 'video/mp4',
-      extension: 'mp4',
+      path: outputPath,
+      contentType: output.contentType,
+      extension,
     };
   } catch (error) {
+    // Clean up partial output
+    await rm(outputPath, { force: true });
+
     if (error instanceof CompositeError) {
       throw error;
     }
@@ -170,13 +225,6 @@ export async function compositeVideo(baseVideo: Buffer, overlay: Buffer): Promis
       'Video',
       error instanceof Error ? error.message : 'Unknown error during video compositing'
     );
-  } finally {
-    // Clean up temp directory
-    try {
-      await rm(tempDir, { recursive: true, force: true });
-    } catch {
-      // Ignore cleanup errors
-    }
   }
 }
 
@@ -214,38 +262,133 @@ function runFfmpeg(args: string[]): Promise<void> {
 /**
  * Composite media with an overlay
  *
- * @param baseMedia - The base media buffer
- * @param overlay - The overlay PNG buffer (or null if no overlay)
+ * The result is written next to the base media file, in the base's format
+ * where it can be written.
+ *
+ * @param basePath - The base media file
+ * @param overlayPath - The overlay PNG file (or null if no overlay)
  * @param mediaType - 'Image' or 'Video'
  * @returns Composited media, or original if no overlay
  */
 export async function compositeMedia(
-  baseMedia: Buffer,
-  overlay: Buffer | null,
+  basePath: string,
+  overlayPath: string | null,
   mediaType: 'Image' | 'Video'
 ): Promise<CompositeResult> {
+  // The base file's name says nothing about its format, its first bytes do
+  const format = await detectMediaFormat(basePath, mediaType);
+
   // If no overlay, return the base media as-is
-  if (!overlay) {
-    if (mediaType === 'Image') {
-      return {
-        data: baseMedia,
-        contentType: 'image/jpeg',
-        extension: 'jpg',
-      };
-    } else {
-      return {
-        data: baseMedia,
-        contentType: 'video/mp4',
-        extension: 'mp4',
-      };
-    }
+  if (!overlayPath) {
+    return {
+      path: basePath,
+      contentType: format.contentType,
+      extension: format.extension,
+    };
   }
 
   // Composite based on media type
+  const name = basename(basePath, extname(basePath));
   if (mediaType === 'Image') {
-    return compositeImage(baseMedia, overlay);
+    const extension = format.extension in IMAGE_OUTPUTS ? format.extension : 'jpg';
+    return compositeImage(
+      basePath,
+      overlayPath,
+      join(dirname(basePath), `${name}-composited.${extension}`)
+    );
   } else {
-    return compositeVideo(baseMedia, overlay);
+    const extension = format.extension in VIDEO_OUTPUTS ? format.extension : 'mp4';
+    return compositeVideo(
+      basePath,
+      overlayPath,
+      join(dirname(basePath), `${name}-composited.${extension}`)
+    );
+  }
+}
+
+/**
+ * Composite each part of a multi-segment video with its overlay
+ * Parts without an overlay are encoded the same way, so all parts share their
+ * codec parameters and can be joined by copying the streams. The results are
+ * written next to the parts. If a part fails, the parts written before it are
+ * removed.
+ *
+ * @returns The parts in order, composited where they have an overlay
+ */
+export async function compositeSegments(
+  segments: readonly MediaSegment[]
+): Promise<CompositeResult[]> {
+  const results: CompositeResult[] = [];
+  try {
+    // One at a time, ffmpeg already uses every core
+    for (const segment of segments) {
+      if (segment.overlayPath) {
+        results.push(await compositeMedia(segment.path, segment.overlayPath, 'Video'));
+      } else {
+        const format = await detectMediaFormat(segment.path, 'Video');
+        const extension = format.extension in VIDEO_OUTPUTS ? format.extension : 'mp4';
+        const name = basename(segment.path, extname(segment.path));
+        results.push(
+          await encodeVideo(
+            segment.path,
+            [],
+            join(dirname(segment.path), `${name}-encoded.${extension}`)
+          )
+        );
+      }
+    }
+    return results;
+  } catch (error) {
+    await Promise.all(
+      results
+        .filter((result, index) => result.path !== segments[index].path)
+        .map((result) => rm(result.path, { force: true }))
+    );
+    throw error;
+  }
+}
+
+/**
+ * Join videos one after another into one video using ffmpeg
+ * The parts of a split Snapchat video share their encoding, so the streams
+ * are copied without re-encoding.
+ *
+ * @param paths - The videos in order, all in the same container
+ * @param outputPath - File to write the joined video to, in that container
+ * @returns Joined video
+ */
+export async function concatVideos(
+  paths: readonly string[],
+  outputPath: string
+): Promise<CompositeResult> {
+  // The concat demuxer reads the parts from a list file
+  const listPath = `${outputPath}.txt`;
+  try {
+    await writeFile(
+      listPath,
+      paths.map((path) => `file '${path.replace(/'/g, "'\\''")}'`).join('\n')
+    );
+    await runFfmpeg(['-f', 'concat', '-safe', '0', '-i', listPath, '-c', 'copy', '-y', outputPath]);
+
+    const extension = getExtension(outputPath) in VIDEO_OUTPUTS ? getExtension(outputPath) : 'mp4';
+    return {
+      path: outputPath,
+      contentType: VIDEO_OUTPUTS[extension].contentType,
+      extension,
+    };
+  } catch (error) {
+    // Clean up partial output
+    await rm(outputPath, { force: true });
+
+    if (error instanceof CompositeError) {
+      throw error;
+    }
+    throw new CompositeError(
+      'Video',
+      error instanceof Error ? error.message : 'Unknown error while joining videos'
+    );
+  } finally {
+    await rm(listPath, { force: true });
   }
 }
 
@@ -0,0 +1,661 @@
+/**
+ * Tests for the downloader module, run against the mock Snapchat server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import sharp from 'sharp';
+import { createBandwidthLimiter } from './bandwidth.js';
+import { runExport } from './cli.js';
+import { BREAKER_EXIT_CODES } from './breaker.js';
+import {
+  downloadMediaWithOverlay,
+  downloadMemory,
+  prefetchSignedUrls,
+  resolveSignedUrls,
+} from './downloader.js';
+import { MockSnapchatServer, startMockSnapchatServer } from './mockserver.js';
+import { createRateController } from './ratecontrol.js';
+import { createSignedUrlCache } from './signedurl.js';
+import { createFetchTransport, Transport, TransportRequest } from './transport.js';
+import {
+  DownloadError,
+  ExportOptions,
+  MediaMismatchError,
+  SnapchatMemory,
+  TimeoutError,
+} from './types.js';
+
+let server: MockSnapchatServer;
+let tempDir: string;
+let image: Buffer;
+let overlay: Buffer;
+
+beforeAll(async () => {
+  server = await startMockSnapchatServer();
+  tempDir = await mkdtemp(join(tmpdir(), 'snapchat-downloader-'));
+  image = await sharp({
+    create: { width: 8, height: 8, channels: 3, background: { r: 0, g: 0, b: 255 } },
+  })
+    .jpeg()
+    .toBuffer();
+  overlay = await sharp({
+    create: { width: 8, height: 8, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+  })
+    .png()
+    .toBuffer();
+});
+
+afterAll(async () => {
+  await server.close();
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const memoryFor = (
+  mediaId: string,
+  downloadUrl: string,
+  mediaDownloadUrl: string | null = null
+): SnapchatMemory => ({
+  date: new Date('2024-01-15T10:30:00Z'),
+  mediaType: 'Image',
+  location: null,
+  downloadUrl,
+  mediaDownloadUrl,
+  mediaId,
+});
+
+describe('downloadMemory', () => {
+  it('should POST for a signed URL and then fetch the file', async () => {
+    server.addMedia({ mediaId: 'proxy-1', data: image, contentType: 'image/jpeg' });
+
+    const media = await downloadMemory(memoryFor('proxy-1', server.proxyUrl('proxy-1')), {
+      tempDir,
+    });
+
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+    expect(media.path.startsWith(tempDir)).toBe(true);
+    expect(media.extension).toBe('jpg');
+    expect(server.requests).toContainEqual({ method: 'POST', path: '/dmd/memories' });
+    expect(server.requests).toContainEqual({ method: 'GET', path: '/signed/proxy-1' });
+  });
+
+  it('should follow redirects from direct URLs', async () => {
+    server.addMedia({ mediaId: 'direct-1', data: image, contentType: 'image/jpeg' });
+
+    const media = await downloadMemory(memoryFor('direct-1', server.directUrl('direct-1')), {
+      tempDir,
+    });
+
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+  });
+
+  it('should unpack ZIP responses with an overlay', async () => {
+    server.addMedia({ mediaId: 'zip-1', data: image, contentType: 'image/jpeg', overlay });
+
+    const media = await downloadMemory(memoryFor('zip-1', server.directUrl('zip-1')), {
+      tempDir,
+    });
+
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+    expect(media.additionalFiles?.map((file) => file.type)).toEqual(['overlay']);
+    expect((await readFile(media.additionalFiles![0].path)).equals(overlay)).toBe(true);
+    // The downloaded ZIP itself is removed after extraction
+    expect((await readdir(tempDir)).filter((name) => name === 'zip-1.download')).toEqual([]);
+  });
+
+  it('should keep every segment of a split video in order, each with its overlay', async () => {
+    const part = (n: number): Buffer =>
+      Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftypisom part ${n}`)]);
+    server.addMedia({
+      mediaId: 'split-1',
+      data: part(1),
+      contentType: 'video/mp4',
+      overlay,
+      segments: [part(2), part(3)],
+    });
+    const memory: SnapchatMemory = {
+      ...memoryFor('split-1', server.proxyUrl('split-1'), server.directUrl('split-1')),
+      mediaType: 'Video',
+    };
+
+    const media = await downloadMemory(memory, { tempDir });
+    expect(await Promise.all(media.segments!.map((segment) => readFile(segment.path)))).toEqual([
+      part(1),
+      part(2),
+      part(3),
+    ]);
+    expect(media.path).toBe(media.segments![0].path);
+    expect(media.additionalFiles?.filter((file) => file.type === 'segment')).toHaveLength(2);
+
+    const extracted = await downloadMediaWithOverlay(memory, { tempDir });
+    // Each part has the overlay sharing its name
+    expect(
+      extracted.segments!.map((segment) => segment.overlayPath?.match(/split-1-\d-overlay/)?.[0])
+    ).toEqual(['split-1-1-overlay', 'split-1-2-overlay', 'split-1-3-overlay']);
+  });
+
+  it('should retry after a 429, honoring Retry-After', async () => {
+    server.addMedia({ mediaId: 'busy-1', data: image, contentType: 'image/jpeg', rateLimited: 1 });
+    const retries: { attempt: number; delay: number }[] = [];
+    const rateController = createRateController({ maxConcurrency: 4 });
+
+    const media = await downloadMemory(memoryFor('busy-1', server.proxyUrl('busy-1')), {
+      tempDir,
+      rateController,
+      onRetry: (attempt, delay) => retries.push({ attempt, delay }),
+    });
+
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+    expect(retries).toHaveLength(1);
+    // The mock server asks for 1 second
+    expect(retries[0].delay).toBeGreaterThanOrEqual(1000);
+    expect(rateController.limit).toBe(2);
+  });
+
+  it('should fail on expired links without retrying', async () => {
+    server.addMedia({ mediaId: 'old-1', data: image, contentType: 'image/jpeg', expired: true });
+    const retries: number[] = [];
+
+    const download = downloadMemory(memoryFor('old-1', server.directUrl('old-1')), {
+      tempDir,
+      onRetry: (attempt) => retries.push(attempt),
+    });
+
+    await expect(download).rejects.toThrow(DownloadError);
+    await expect(download).rejects.toMatchObject({ statusCode: 403 });
+    expect(retries).toEqual([]);
+  });
+
+  it('should reject an HTML error page served as the media', async () => {
+    server.addMedia({
+      mediaId: 'html-1',
+      data: Buffer.from('<!DOCTYPE html><html><body>Link expired</body></html>'),
+      contentType: 'image/jpeg',
+    });
+
+    const download = downloadMemory(memoryFor('html-1', server.proxyUrl('html-1')), {
+      tempDir,
+    });
+
+    await expect(download).rejects.toThrow(MediaMismatchError);
+    await expect(download).rejects.toThrow('Expected an image, received an HTML page');
+    expect((await readdir(tempDir)).filter((name) => name.startsWith('html-1.'))).toEqual([]);
+  });
+
+  it('should use the detected format over the Content-Type header', async () => {
+    const png = await sharp(overlay).png().toBuffer();
+    server.addMedia({ mediaId: 'png-1', data: png, contentType: 'application/octet-stream' });
+
+    const media = await downloadMemory(memoryFor('png-1', server.proxyUrl('png-1')), {
+      tempDir,
+    });
+
+    expect(media.extension).toBe('png');
+    expect(media.contentType).toBe('image/png');
+  });
+
+  it('should resume an interrupted download with a Range request', async () => {
+    server.addMedia({
+      mediaId: 'resume-1',
+      data: image,
+      contentType: 'image/jpeg',
+      interruptAt: 100,
+    });
+    const memory = memoryFor('resume-1', server.proxyUrl('resume-1'));
+
+    // The first run is cut off and keeps the partial file
+    await expect(downloadMemory(memory, { tempDir, maxRetries: 0 })).rejects.toThrow();
+    expect(await readdir(tempDir)).toContain('resume-1.download.part');
+
+    const media = await downloadMemory(memory, { tempDir, maxRetries: 0 });
+
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+    expect(server.requests).toContainEqual({
+      method: 'GET',
+      path: '/signed/resume-1',
+      range: 'bytes=100-',
+    });
+    expect((await readdir(tempDir)).filter((name) => name.startsWith('resume-1.'))).toEqual([
+      'resume-1.download',
+    ]);
+  });
+
+  it('should time out and resume a download that stops sending data', async () => {
+    server.addMedia({ mediaId: 'stall-1', data: image, contentType: 'image/jpeg', stallAt: 100 });
+    const errors: Error[] = [];
+
+    const media = await downloadMemory(memoryFor('stall-1', server.proxyUrl('stall-1')), {
+      tempDir,
+      maxRetries: 1,
+      timeouts: { connectMs: 1000, headersMs: 1000, idleMs: 200 },
+      onRetry: (_attempt, _delay, error) => errors.push(error),
+    });
+
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(TimeoutError);
+    expect(errors[0]).toMatchObject({ phase: 'idle', timeoutMs: 200 });
+    expect(server.requests).toContainEqual({
+      method: 'GET',
+      path: '/signed/stall-1',
+      range: 'bytes=100-',
+    });
+  });
+
+  it('should time out waiting for response headers', async () => {
+    server.addMedia({
+      mediaId: 'slow-1',
+      data: image,
+      contentType: 'image/jpeg',
+      headersDelayMs: 1000,
+    });
+
+    const download = downloadMemory(memoryFor('slow-1', server.proxyUrl('slow-1')), {
+      tempDir,
+      maxRetries: 0,
+      timeouts: { connectMs: 1000, headersMs: 100, idleMs: 1000 },
+    });
+
+    await expect(download).rejects.toThrow(TimeoutError);
+    await expect(download).rejects.toMatchObject({ phase: 'headers' });
+  });
+
+  it('should stop without retrying when the run is aborted', async () => {
+    server.addMedia({ mediaId: 'abort-1', data: image, contentType: 'image/jpeg', stallAt: 10 });
+    const controller = new AbortController();
+    const retries: number[] = [];
+
+    const download = downloadMemory(memoryFor('abort-1', server.proxyUrl('abort-1')), {
+      tempDir,
+      signal: controller.signal,
+      onRetry: (attempt) => retries.push(attempt),
+    });
+    setTimeout(() => controller.abort(new Error('Cancelled')), 100);
+
+    await expect(download).rejects.toThrow('Cancelled');
+    expect(retries).toEqual([]);
+  });
+
+  it('should pass the body through the shared bandwidth limiter', async () => {
+    server.addMedia({ mediaId: 'bandwidth-1', data: image, contentType: 'image/jpeg' });
+    const bandwidth = createBandwidthLimiter({ bytesPerSecond: 1024 * 1024 });
+
+    const media = await downloadMemory(memoryFor('bandwidth-1', server.proxyUrl('bandwidth-1')), {
+      tempDir,
+      bandwidth,
+    });
+
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+    expect(bandwidth.getRate()).toBe(image.length);
+  });
+
+  it('should send requests through the given transport', async () => {
+    server.addMedia({ mediaId: 'custom-1', data: image, contentType: 'image/jpeg' });
+    const fetchTransport = createFetchTransport({ proxyHosts: ['127.0.0.1'] });
+    const sent: TransportRequest[] = [];
+    const transport: Transport = {
+      ...fetchTransport,
+      request: (request) => {
+        sent.push(request);
+        return fetchTransport.request(request);
+      },
+    };
+    // Without proxy=true, only the transport's proxy hosts select the proxy flow
+    const url = server.proxyUrl('custom-1').replace('&proxy=true', '');
+
+    await downloadMemory(memoryFor('custom-1', url), { transport, tempDir });
+
+    expect(sent.map((request) => request.method)).toEqual(['POST', 'GET']);
+  });
+});
+
+describe('downloadMediaWithOverlay', () => {
+  it('should return the base media and overlay', async () => {
+    server.addMedia({ mediaId: 'overlay-1', data: image, contentType: 'image/jpeg', overlay });
+    const memory = memoryFor(
+      'overlay-1',
+      server.proxyUrl('overlay-1'),
+      server.directUrl('overlay-1')
+    );
+
+    const extracted = await downloadMediaWithOverlay(memory, { tempDir });
+
+    expect((await readFile(extracted.basePath)).equals(image)).toBe(true);
+    expect(extracted.baseFormat.extension).toBe('jpg');
+    expect((await readFile(extracted.overlayPath!)).equals(overlay)).toBe(true);
+  });
+
+  it('should keep the real format of PNG and MOV bases', async () => {
+    const png = await sharp({
+      create: { width: 8, height: 8, channels: 3, background: { r: 0, g: 255, b: 0 } },
+    })
+      .png()
+      .toBuffer();
+    const mov = Buffer.concat([Buffer.from([0, 0, 0, 0x14]), Buffer.from('ftypqt  ', 'latin1')]);
+    server.addMedia({ mediaId: 'png-1', data: png, contentType: 'image/png', overlay });
+    server.addMedia({ mediaId: 'mov-1', data: mov, contentType: 'video/quicktime', overlay });
+
+    const image = await downloadMediaWithOverlay(
+      memoryFor('png-1', server.proxyUrl('png-1'), server.directUrl('png-1')),
+      { tempDir }
+    );
+    const video = await downloadMediaWithOverlay(
+      {
+        ...memoryFor('mov-1', server.proxyUrl('mov-1'), server.directUrl('mov-1')),
+        mediaType: 'Video',
+      },
+      { tempDir }
+    );
+
+    // The -main PNG is the base, not taken for an overlay
+    expect((await readFile(image.basePath)).equals(png)).toBe(true);
+    expect(image.baseFormat).toMatchObject({ extension: 'png', contentType: 'image/png' });
+    expect((await readFile(image.overlayPath!)).equals(overlay)).toBe(true);
+    expect(video.baseFormat).toMatchObject({ extension: 'mov', contentType: 'video/quicktime' });
+  });
+});
+
+describe('signed URL prefetching', () => {
+  const countPosts = (): number =>
+    server.requests.filter((request) => request.method === 'POST').length;
+
+  it('should download with the prefetched signed URL without POSTing again', async () => {
+    server.addMedia({ mediaId: 'prefetch-1', data: image, contentType: 'image/jpeg' });
+    server.addMedia({ mediaId: 'prefetch-2', data: image, contentType: 'image/jpeg' });
+    const signedUrls = createSignedUrlCache();
+    const urls = [server.proxyUrl('prefetch-1'), server.proxyUrl('prefetch-2')];
+
+    // Direct URLs have nothing to resolve
+    const result = await resolveSignedUrls([...urls, server.directUrl('prefetch-1'), null], {
+      signedUrls,
+    });
+    const posts = countPosts();
+    const media = await downloadMemory(memoryFor('prefetch-1', urls[0]), { tempDir, signedUrls });
+
+    expect(result).toEqual({ resolved: 2, failed: 0 });
+    expect(signedUrls.size).toBe(2);
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+    expect(countPosts()).toBe(posts);
+  });
+
+  it('should resolve the signed URL again when the cached one is rejected', async () => {
+    server.addMedia({ mediaId: 'prefetch-3', data: image, contentType: 'image/jpeg' });
+    const url = server.proxyUrl('prefetch-3');
+    const signedUrls = createSignedUrlCache();
+    // Without an expiry the URL looks valid, but the server answers 403
+    signedUrls.set(url, `${server.url}/signed/prefetch-3`);
+    const posts = countPosts();
+
+    const media = await downloadMemory(memoryFor('prefetch-3', url), {
+      tempDir,
+      signedUrls,
+      maxRetries: 0,
+    });
+
+    expect((await readFile(media.path)).equals(image)).toBe(true);
+    expect(countPosts()).toBe(posts + 1);
+    expect(signedUrls.get(url)).toMatch(/\?expires=\d+$/);
+  });
+
+  it('should not use signed URLs close to their expiry', async () => {
+    const shortLived = await startMockSnapchatServer({ signedUrlTtlMs: 10_000 });
+    try {
+      shortLived.addMedia({ mediaId: 'prefetch-4', data: image, contentType: 'image/jpeg' });
+      const url = shortLived.proxyUrl('prefetch-4');
+      const signedUrls = createSignedUrlCache({ marginMs: 30_000 });
+
+      await resolveSignedUrls([url], { signedUrls });
+      await downloadMemory(memoryFor('prefetch-4', url), { tempDir, signedUrls });
+
+      // Resolved once ahead and once more for the download
+      expect(shortLived.requests.filter((request) => request.method === 'POST')).toHaveLength(2);
+    } finally {
+      await shortLived.close();
+    }
+  });
+
+  it('should resolve a rolling window ahead of the consumer, in order', async () => {
+    const ids = ['window-1', 'window-2', 'window-3'];
+    for (const mediaId of ids) {
+      server.addMedia({ mediaId, data: image, contentType: 'image/jpeg' });
+    }
+    const signedUrls = createSignedUrlCache();
+    const memories = ids.map((mediaId) => memoryFor(mediaId, server.proxyUrl(mediaId)));
+
+    const seen: { mediaId: string; cached: number }[] = [];
+    for await (const memory of prefetchSignedUrls(memories, (m) => m.downloadUrl, 1, {
+      signedUrls,
+    })) {
+      expect(signedUrls.get(memory.downloadUrl)).not.toBeNull();
+      seen.push({ mediaId: memory.mediaId, cached: signedUrls.size });
+    }
+
+    expect(seen.map((entry) => entry.mediaId)).toEqual(ids);
+    // The next memory is being resolved while the first one is handed out
+    expect(seen[0].cached).toBeGreaterThanOrEqual(1);
+    expect(signedUrls.size).toBe(3);
+  });
+});
+
+describe('runExport', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `snapchat-export-e2e-${Date.now()}`);
+    await mkdir(join(testDir, 'export', 'json'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    process.exitCode = undefined;
+  });
+
+  it('should export memories from the mock server', async () => {
+    server.addMedia({ mediaId: 'e2e-plain', data: image, contentType: 'image/jpeg' });
+    server.addMedia({ mediaId: 'e2e-overlay', data: image, contentType: 'image/jpeg', overlay });
+    const entries = [
+      {
+        Date: '2024-01-15 10:30:00 UTC',
+        'Media Type': 'Image',
+        Location: 'Latitude, Longitude: 40.7128, -74.006',
+        'Download Link': server.proxyUrl('e2e-plain'),
+      },
+      {
+        Date: '2024-02-20 08:00:00 UTC',
+        'Media Type': 'Image',
+        Location: 'Latitude, Longitude: 0.0, 0.0',
+        'Download Link': server.proxyUrl('e2e-overlay'),
+        'Media Download Url': server.directUrl('e2e-overlay'),
+      },
+    ];
+    await writeFile(
+      join(testDir, 'export', 'json', 'memories_history.json'),
+      JSON.stringify({ 'Saved Media': entries })
+    );
+    const outputDir = join(testDir, 'output');
+    const options: ExportOptions = {
+      outputDir,
+      format: 'flat',
+      dryRun: false,
+      skipExisting: false,
+      delay: 0,
+      concurrency: 1,
+      maxRetries: 0,
+      importToPhotos: false,
+      limit: null,
+      skipOverlay: false,
+      offline: false,
+      transport: createFetchTransport(),
+    };
+
+    await runExport(join(testDir, 'export'), options);
+
+    expect(process.exitCode).toBeUndefined();
+    const files = await readdir(outputDir);
+    expect(files.filter((name) => name.endsWith('.jpg'))).toHaveLength(2);
+    // Temporary download files are cleaned up
+    expect(files).not.toContain('.snapchat-export-tmp');
+    const manifest = JSON.parse(
+      await readFile(join(outputDir, '.snapchat-export-manifest.json'), 'utf-8')
+    ) as { entries: Record<string, unknown> };
+    expect(Object.keys(manifest.entries).sort()).toEqual(['e2e-overlay', 'e2e-plain']);
+  }, 30_000);
+
+  it('should download the soonest expiring memories first and skip expired overlays', async () => {
+    for (const mediaId of ['e2e-fresh', 'e2e-aging', 'e2e-overlaid']) {
+      server.addMedia({ mediaId, data: image, contentType: 'image/jpeg', overlay });
+    }
+    // Links generated 100 hours ago: the overlay link has expired, the download link has not
+    const aged = (url: string): string =>
+      url.replace(/ts=\d+/, `ts=${Date.now() - 100 * 3600_000}`);
+    const entries = [
+      {
+        // Download link valid for a week
+        Date: '2024-01-15 10:30:00 UTC',
+        'Media Type': 'Image',
+        Location: '',
+        'Download Link': server.proxyUrl('e2e-fresh'),
+      },
+      {
+        // Download link valid for another 68 hours, overlay link expired
+        Date: '2024-02-20 08:00:00 UTC',
+        'Media Type': 'Image',
+        Location: '',
+        'Download Link': aged(server.proxyUrl('e2e-aging')),
+        'Media Download Url': aged(server.directUrl('e2e-aging')),
+      },
+      {
+        // Overlay link valid for 6 hours
+        Date: '2024-03-01 12:00:00 UTC',
+        'Media Type': 'Image',
+        Location: '',
+        'Download Link': server.proxyUrl('e2e-overlaid'),
+        'Media Download Url': server.directUrl('e2e-overlaid'),
+      },
+    ];
+    await writeFile(
+      join(testDir, 'export', 'json', 'memories_history.json'),
+      JSON.stringify({ 'Saved Media': entries })
+    );
+    const outputDir = join(testDir, 'output');
+    const firstRequest = server.requests.length;
+
+    await runExport(join(testDir, 'export'), {
+      outputDir,
+      format: 'flat',
+      dryRun: false,
+      skipExisting: false,
+      delay: 0,
+      concurrency: 1,
+      maxRetries: 0,
+      importToPhotos: false,
+      limit: null,
+      skipOverlay: false,
+      offline: false,
+      transport: createFetchTransport(),
+    });
+
+    expect(process.exitCode).toBeUndefined();
+    expect((await readdir(outputDir)).filter((name) => name.endsWith('.jpg'))).toHaveLength(3);
+    const paths = server.requests.slice(firstRequest).map((request) => request.path);
+    expect(paths.filter((path) => path.startsWith('/signed/'))).toEqual([
+      '/signed/e2e-overlaid',
+      '/signed/e2e-aging',
+      '/signed/e2e-fresh',
+    ]);
+    // Only the overlay link that is still valid was used
+    expect(paths.filter((path) => path === '/dmd/mm')).toHaveLength(1);
+  }, 30_000);
+
+  it('should save the segments of a split video as numbered parts on request', async () => {
+    const part = (n: number): Buffer =>
+      Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftypisom part ${n}`)]);
+    server.addMedia({
+      mediaId: 'e2e-split',
+      data: part(1),
+      contentType: 'video/mp4',
+      segments: [part(2)],
+    });
+    const entries = [
+      {
+        Date: '2024-01-15 10:30:00 UTC',
+        'Media Type': 'Video',
+        Location: '',
+        'Download Link': server.proxyUrl('e2e-split'),
+      },
+    ];
+    await writeFile(
+      join(testDir, 'export', 'json', 'memories_history.json'),
+      JSON.stringify({ 'Saved Media': entries })
+    );
+    const outputDir = join(testDir, 'output');
+
+    await runExport(join(testDir, 'export'), {
+      outputDir,
+      format: 'flat',
+      dryRun: false,
+      skipExisting: false,
+      delay: 0,
+      concurrency: 1,
+      maxRetries: 0,
+      importToPhotos: false,
+      limit: null,
+      skipOverlay: false,
+      splitSegments: true,
+      offline: false,
+      transport: createFetchTransport(),
+    });
+
+    const files = (await readdir(outputDir)).filter((name) => name.endsWith('.mp4')).sort();
+    expect(files).toEqual([
+      expect.stringMatching(/_video_e2e-spli_part1\.mp4$/) as string,
+      expect.stringMatching(/_video_e2e-spli_part2\.mp4$/) as string,
+    ]);
+    expect(await readFile(join(outputDir, files[1]))).toEqual(part(2));
+    const manifest = JSON.parse(
+      await readFile(join(outputDir, '.snapchat-export-manifest.json'), 'utf-8')
+    ) as { entries: Record<string, { parts?: string[] }> };
+    expect(manifest.entries['e2e-split'].parts).toHaveLength(2);
+  }, 30_000);
+
+  it('should stop with the expired exit code when the links keep failing', async () => {
+    const ids = ['e2e-gone-1', 'e2e-gone-2', 'e2e-gone-3', 'e2e-gone-4'];
+    for (const mediaId of ids) {
+      server.addMedia({ mediaId, data: image, contentType: 'image/jpeg', expired: true });
+    }
+    const entries = ids.map((mediaId) => ({
+      Date: '2024-01-15 10:30:00 UTC',
+      'Media Type': 'Image',
+      Location: '',
+      'Download Link': server.proxyUrl(mediaId),
+    }));
+    await writeFile(
+      join(testDir, 'export', 'json', 'memories_history.json'),
+      JSON.stringify({ 'Saved Media': entries })
+    );
+    const firstRequest = server.requests.length;
+
+    await runExport(join(testDir, 'export'), {
+      outputDir: join(testDir, 'output'),
+      format: 'flat',
+      dryRun: false,
+      skipExisting: false,
+      delay: 0,
+      concurrency: 1,
+      maxRetries: 0,
+      maxConsecutiveFailures: 2,
+      importToPhotos: false,
+      limit: null,
+      skipOverlay: false,
+      offline: false,
+      transport: createFetchTransport(),
+    });
+
+    expect(process.exitCode).toBe(BREAKER_EXIT_CODES.expired);
+    // The last two memories were never tried
+    const paths = server.requests.slice(firstRequest).map((request) => request.path);
+    expect(paths.filter((path) => path.startsWith('/dmd/memories'))).toHaveLength(2);
+  }, 30_000);
+});
@@ -2,7 +2,29 @@
  * Downloader module for fetching Snapchat memories
  */
 
-import { DownloadError, SnapchatMemory } from './types.js';
+import { open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { extractZipEntries, ExtractedZipEntry } from './archive.js';
+import { BandwidthLimiter } from './bandwidth.js';
+import { createRateController, parseRetryAfter, RateController } from './ratecontrol.js';
+import {
+  createRequestTimer,
+  defaultTransport,
+  RequestTimer,
+  Transport,
+  TransportRequest,
+} from './transport.js';
+import { SignedUrlCache } from './signedurl.js';
+import { describeContent, detectFormat, readFileHeader, SniffedFormat } from './sniff.js';
+import {
+  DownloadError,
+  IncompleteDownloadError,
+  MediaMismatchError,
+  RequestTimeouts,
+  SnapchatMemory,
+  TimeoutError,
+} from './types.js';
 
 /**
  * Default delay between downloads in milliseconds
@@ -19,6 +41,26 @@ export const DEFAULT_CONCURRENCY = 5;
  */
 export const DEFAULT_MAX_RETRIES = 3;
 
+/**
+ * Network error codes that are worth retrying
+ */
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN', // Temporary DNS failure
+]);
+
+/**
+ * Default network timeouts for download requests
+ */
+export const DEFAULT_REQUEST_TIMEOUTS: RequestTimeouts = {
+  connectMs: 15_000,
+  headersMs: 30_000,
+  idleMs: 60_000,
+};
+
 /**
  * Base delay for exponential backoff in milliseconds
  */
@@ -29,12 +71,6 @@ export const BACKOFF_BASE_DELAY_MS = 1000;
  */
 export const BACKOFF_MAX_DELAY_MS = 30000;
 
-/**
- * URL expiration threshold in hours
- * Snapchat's overlay URLs typically expire within 6-12 hours
- */
-export const URL_EXPIRATION_HOURS = 6;
-
 /**
  * HTTP status codes that should trigger a retry
  */
@@ -48,80 +84,10 @@ const RETRYABLE_STATUS_CODES = new Set([
 ]);
 
 /**
- * Result of URL expiration check
- */
-export interface UrlExpirationInfo {
-  readonly isExpired: boolean;
-  readonly ageHours: number;
-  readonly timestamp: Date | null;
-}
-
-/**
- * Check if a Snapchat download URL is likely expired
- * URLs contain a 'ts' (timestamp) parameter that indicates when they were generated
- *
- * @param url - The download URL to check
- * @param thresholdHours - Hours after which URL is considered expired (default: 6)
- * @returns Expiration info including whether URL is expired and its age
- */
-export function checkUrlExpiration(
-  url: string,
-  thresholdHours: number = URL_EXPIRATION_HOURS
-): UrlExpirationInfo {
-  try {
-    // Extract 'ts' parameter from URL
-    const urlObj = new URL(url);
-    const tsParam = urlObj.searchParams.get('ts');
-
-    if (!tsParam) {
-      // No timestamp found, can't determine expiration
-      return { isExpired: false, ageHours: 0, timestamp: null };
-    }
-
-    const timestamp = parseInt(tsParam, 10);
-    if (isNaN(timestamp)) {
-      return { isExpired: false, ageHours: 0, timestamp: null };
-    }
-
-    const urlDate = new Date(timestamp);
-    const now = Date.now();
-    const ageMs = now - timestamp;
-    const ageHours = ageMs / (1000 * 60 * 60);
-
-    return {
-      isExpired: ageHours > thresholdHours,
-      ageHours: Math.round(ageHours * 10) / 10, // Round to 1 decimal
-      timestamp: urlDate,
-    };
-  } catch {
-    // URL parsing failed, assume not expired
-    return { isExpired: false, ageHours: 0, timestamp: null };
-  }
-}
-
-/**
- * Check if overlay URLs in a set of memories are likely expired
- * Checks the first memory with a mediaDownloadUrl
- *
- * @param memories - Array of memories to check
- * @returns Expiration info, or null if no mediaDownloadUrl found
- */
-export function checkOverlayUrlsExpired(
-  memories: readonly SnapchatMemory[]
-): UrlExpirationInfo | null {
-  const memoryWithOverlay = memories.find((m) => m.mediaDownloadUrl);
-  if (!memoryWithOverlay?.mediaDownloadUrl) {
-    return null;
-  }
-
-  return checkUrlExpiration(memoryWithOverlay.mediaDownloadUrl);
-}
-
-/**
- * Download result with binary data
+ * Download result, written to a temporary file
  */
 export interface DownloadedMedia {
-  readonly data: Buffer;
+  readonly path: string; // Temporary file, moved into place by saveMemory
   readonly contentType: string;
   readonly extension: string;
 }
@@ -130,9 +96,17 @@ export interface DownloadedMedia {
  * Additional file extracted from a ZIP (e.g., overlay)
  */
 export interface AdditionalFile {
-  readonly data: Buffer;
+  readonly path: string; // Temporary file
   readonly filename: string; // Original filename from ZIP
-  readonly type: 'overlay' | 'other';
+  readonly type: 'overlay' | 'segment' | 'other';
+}
+
+/**
+ * One part of a video that Snapchat split into several files
+ */
+export interface MediaSegment {
+  readonly path: string; // Temporary file
+  readonly overlayPath: string | null; // Overlay of this part, temporary file
 }
 
 /**
@@ -140,6 +114,7 @@ export interface AdditionalFile {
  */
 export interface DownloadedMediaWithExtras extends DownloadedMedia {
   readonly additionalFiles?: readonly AdditionalFile[];
+  readonly segments?: readonly MediaSegment[]; // All parts in order, for multi-segment videos
 }
 
 /**
@@ -184,21 +159,66 @@ export function calculateBackoffDelay(
   return Math.min(exponentialDelay + jitter, BACKOFF_MAX_DELAY_MS);
 }
 
+/**
+ * Longest delay honored from a Retry-After header (5 minutes)
+ */
+export const RETRY_AFTER_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Get the delay before retrying after an error
+ * Uses exponential backoff, or the server's Retry-After if that is longer.
+ */
+export function getRetryDelay(error: Error, attempt: number): number {
+  const backoff = calculateBackoffDelay(attempt);
+  if (error instanceof DownloadError && error.retryAfterMs !== null) {
+    return Math.max(backoff, Math.min(error.retryAfterMs, RETRY_AFTER_MAX_DELAY_MS));
+  }
+  return backoff;
+}
+
+/**
+ * Build the error for a failed response, keeping the server's Retry-After
+ * Rate limited responses are reported to the rate controller.
+ */
+function createResponseError(
+  url: string,
+  response: Response,
+  rateController: RateController | undefined
+): DownloadError {
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+  if (response.status === 429) {
+    rateController?.onRateLimited(retryAfterMs);
+  }
+  return new DownloadError(url, response.status, response.statusText, retryAfterMs);
+}
+
 /**
  * Check if an error is retryable
  */
 export function isRetryableError(error: unknown): boolean {
+  // The next attempt resumes the partial file
+  if (error instanceof IncompleteDownloadError || error instanceof TimeoutError) {
+    return true;
+  }
+
   if (error instanceof DownloadError) {
     return RETRYABLE_STATUS_CODES.has(error.statusCode);
   }
 
   // Network errors are generally retryable
   if (error instanceof Error) {
+    // node:http reports a dropped connection as "aborted" with an error code
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code && RETRYABLE_ERROR_CODES.has(code)) {
+      return true;
+    }
+
     const message = error.message.toLowerCase();
     return (
       message.includes('network') ||
       message.includes('timeout') ||
       message.includes('econnreset') ||
+      message.includes('terminated') || // Connection dropped while reading the body
       message.includes('econnrefused') ||
       message.includes('socket')
     );
@@ -208,169 +228,60 @@ export function isRetryableError(error: unknown): boolean {
 }
 
 /**
- * Determine if a URL requires POST method (JSON export) or GET with redirects (HTML export)
- *
- * JSON export URLs: https://app.snapchat.com/dmd/memories?...&proxy=true&...
- * HTML export URLs: https://us-east1-aws.api.snapchat.com/dmd/mm?...
+ * Options of downloadMemory and downloadMediaWithOverlay
  */
-function isProxyUrl(url: string): boolean {
-  // JSON export URLs contain 'proxy=true' or go through app.snapchat.com
-  return url.includes('proxy=true') || url.includes('app.snapchat.com');
+export interface DownloadOptions {
+  maxRetries?: number;
+  onRetry?: (attempt: number, delay: number, error: Error) => void;
+  transport?: Transport;
+  tempDir?: string;
+  rateController?: RateController;
+  timeouts?: RequestTimeouts;
+  signal?: AbortSignal; // Aborts the requests of the run
+  signedUrls?: SignedUrlCache; // Signed URLs resolved ahead of time, reused while valid
+  bandwidth?: BandwidthLimiter; // Throughput limit shared with other downloads
 }
 
 /**
- * Download a single memory with retry logic
- *
- * Supports two download mechanisms:
- * 1. Proxy URLs (JSON export): POST to proxy URL with query params as body, get signed URL, then GET file
- * 2. Direct URLs (HTML export): GET request that follows redirects to signed S3 URL
- *
- * Also handles cases where the response is a ZIP file containing the media.
- * When a ZIP is encountered, additional files (like overlays) are included in the result.
+ * A partial file that no longer fits the file on the server (416 to its Range request)
+ * The attempt is repeated at once, starting over.
  */
-export async function downloadMemory(
-  memory: SnapchatMemory,
-  options: {
-    maxRetries?: number;
-    onRetry?: (attempt: number, delay: number, error: Error) => void;
-  } = {}
-): Promise<DownloadedMediaWithExtras> {
-  const { maxRetries = DEFAULT_MAX_RETRIES, onRetry } = options;
-  const url = memory.downloadUrl;
-
-  // Determine which download method to use
-  const useProxyMethod = isProxyUrl(url);
+class StalePartialError extends DownloadError {}
 
+/**
+ * Run attempts at a download until one succeeds or fails with an error that is not retried
+ * Each attempt is handed the list it adds the timers of its requests to.
+ */
+async function withRetries<T>(
+  options: DownloadOptions,
+  attempt: (timers: RequestTimer[]) => Promise<T>
+): Promise<T> {
+  const { maxRetries = DEFAULT_MAX_RETRIES, onRetry, signal } = options;
   let lastError: Error | null = null;
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      let fileResponse: Response;
-
-      if (useProxyMethod) {
-        // Proxy method: POST to get signed URL, then GET the file
-        const [baseUrl, queryString] = url.split('?');
-
-        if (!queryString) {
-          throw new DownloadError(url, 0, 'Invalid download URL format - missing query parameters');
-        }
-
-        // Step 1: POST to get the signed S3 URL
-        const proxyResponse = await fetch(baseUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: queryString,
-        });
-
-        if (!proxyResponse.ok) {
-          const error = new DownloadError(url, proxyResponse.status, proxyResponse.statusText);
-
-          if (attempt < maxRetries && isRetryableError(error)) {
-            lastError = error;
-            const delay = calculateBackoffDelay(attempt);
-
-            if (onRetry) {
-              onRetry(attempt + 1, delay, error);
-            }
-
-            await sleep(delay);
-            continue;
-          }
-
-          throw error;
-        }
-
-        // The response body is the signed S3 URL
-        const signedUrl = await proxyResponse.text();
-
-        if (!signedUrl || !signedUrl.startsWith('http')) {
-          throw new DownloadError(
-            url,
-            0,
-            `Invalid signed URL response: ${signedUrl.substring(0, 100)}`
-          );
-        }
-
-        // Step 2: GET the actual file from the signed S3 URL
-        fileResponse = await fetch(signedUrl.trim());
-      } else {
-        // Direct method: GET with redirect following (for HTML export URLs)
-        // Node's fetch automatically follows redirects
-        fileResponse = await fetch(url, {
-          method: 'GET',
-          redirect: 'follow',
-        });
-      }
-
-      if (!fileResponse.ok) {
-        const error = new DownloadError(url, fileResponse.status, fileResponse.statusText);
-
-        if (attempt < maxRetries && isRetryableError(error)) {
-          lastError = error;
-          const delay = calculateBackoffDelay(attempt);
-
-          if (onRetry) {
-            onRetry(attempt + 1, delay, error);
-          }
-
-          await sleep(delay);
-          continue;
-        }
+  for (let attemptIndex = 0; attemptIndex <= maxRetries; attemptIndex++) {
+    const timers: RequestTimer[] = [];
 
+    try {
+      return await attempt(timers);
+    } catch (caught) {
+      // A request aborted by its timer fails with the TimeoutError
+      const error = timers.length > 0 ? timers[timers.length - 1].toError(caught) : caught;
+      if (signal?.aborted) {
         throw error;
       }
 
-      const contentType = fileResponse.headers.get('content-type') || 'application/octet-stream';
-      const arrayBuffer = await fileResponse.arrayBuffer();
-      const data = Buffer.from(arrayBuffer);
-
-      if (data.length === 0) {
-        throw new DownloadError(url, fileResponse.status, 'Empty response body');
-      }
-
-      // Check if the response is a ZIP file (some HTML export URLs return ZIPs)
-      if (contentType.includes('zip') || isZipBuffer(data)) {
-        // Extract the base media and additional files from the ZIP
-        const extracted = await extractMediaFromZipWithExtras(data, memory.mediaType);
-        return {
-          data: extracted.baseMedia,
-          contentType: extracted.baseMediaType === 'jpg' ? 'image/jpeg' : 'video/mp4',
-          extension: extracted.baseMediaType,
-          additionalFiles: extracted.additionalFiles,
-        };
-      }
-
-      return {
-        data,
-        contentType,
-        extension: getExtensionFromContentType(contentType, memory.mediaType),
-      };
-    } catch (error) {
-      // If it's already a DownloadError we threw, check if we should retry
-      if (error instanceof DownloadError) {
-        if (attempt < maxRetries && isRetryableError(error)) {
-          lastError = error;
-          const delay = calculateBackoffDelay(attempt);
-
-          if (onRetry) {
-            onRetry(attempt + 1, delay, error);
-          }
-
-          await sleep(delay);
-          continue;
-        }
-        throw error;
+      if (error instanceof StalePartialError) {
+        lastError = error;
+        continue;
       }
 
-      // For network errors, check if retryable
-      if (error instanceof Error && attempt < maxRetries && isRetryableError(error)) {
+      if (error instanceof Error && attemptIndex < maxRetries && isRetryableError(error)) {
         lastError = error;
-        const delay = calculateBackoffDelay(attempt);
+        const delay = getRetryDelay(error, attemptIndex);
 
         if (onRetry) {
-          onRetry(attempt + 1, delay, error);
+          onRetry(attemptIndex + 1, delay, error);
         }
 
         await sleep(delay);
@@ -378,6 +289,10 @@ export async function downloadMemory(
       }
 
       throw error;
+    } finally {
+      for (const timer of timers) {
+        timer.finish();
+      }
     }
   }
 
@@ -386,193 +301,381 @@ export async function downloadMemory(
 }
 
 /**
- * Sleep for specified milliseconds
+ * Download a URL to a file, resuming a partial file left by an earlier attempt or run
+ *
+ * Supports two download mechanisms:
+ * 1. Proxy URLs (JSON export): POST to proxy URL with query params as body, get signed URL, then GET file
+ * 2. Direct URLs (HTML export): GET request that follows redirects to signed S3 URL
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+async function fetchToFile(
+  url: string,
+  filePath: string,
+  options: DownloadOptions,
+  timers: RequestTimer[]
+): Promise<void> {
+  const {
+    transport = defaultTransport,
+    rateController,
+    timeouts = DEFAULT_REQUEST_TIMEOUTS,
+    signal,
+    signedUrls,
+    bandwidth,
+  } = options;
+  const send = (request: TransportRequest): Promise<Response> =>
+    sendRequest(transport, request, timeouts, signal, timers);
+
+  let fileResponse: Response;
+
+  // Pick up a partial file left by an earlier attempt or run
+  const partial = await readPartialDownload(filePath);
+
+  if (transport.isProxyUrl(url)) {
+    // Proxy method: POST to get signed URL, then GET the file
+    fileResponse = await requestProxyFile(url, send, getResumeHeaders(partial), {
+      signedUrls,
+      rateController,
+    });
+  } else {
+    // Direct method: GET with redirect following (for HTML export URLs)
+    // The transport follows redirects
+    fileResponse = await send({
+      url,
+      method: 'GET',
+      headers: getResumeHeaders(partial),
+    });
+  }
+
+  if (fileResponse.status === 416 && partial) {
+    // The partial file no longer fits the file on the server, start over
+    await discardPartialDownload(filePath);
+    throw new StalePartialError(url, fileResponse.status, fileResponse.statusText);
+  }
+
+  if (!fileResponse.ok) {
+    throw createResponseError(url, fileResponse, rateController);
+  }
+
+  const { size } = await saveResponseToFile(url, fileResponse, filePath, partial, {
+    timer: timers[timers.length - 1],
+    bandwidth,
+  });
+  rateController?.onSuccess();
+
+  if (size === 0) {
+    await rm(filePath, { force: true });
+    throw new DownloadError(url, fileResponse.status, 'Empty response body');
+  }
 }
 
 /**
- * Progress callback type
+ * Download a single memory with retry logic
+ *
+ * Also handles cases where the response is a ZIP file containing the media.
+ * When a ZIP is encountered, additional files (like overlays) are included in the result.
+ * Interrupted downloads are resumed with Range requests when the server supports them.
  */
-export type ProgressCallback = (completed: number, total: number, memory: SnapchatMemory) => void;
+export async function downloadMemory(
+  memory: SnapchatMemory,
+  options: DownloadOptions = {}
+): Promise<DownloadedMediaWithExtras> {
+  const { tempDir = tmpdir() } = options;
+  const url = memory.downloadUrl;
+  const filePath = join(tempDir, `${memory.mediaId}.download`);
+
+  return withRetries(options, async (timers) => {
+    await fetchToFile(url, filePath, options, timers);
+
+    // Check if the response is a ZIP file (some HTML export URLs return ZIPs)
+    if (detectFormat(await readFileHeader(filePath))?.kind === 'Archive') {
+      // Extract the base media and additional files from the ZIP
+      const extracted = await extractMediaFromZipWithExtras(filePath, memory.mediaType, tempDir);
+      const format = await verifyMedia(
+        url,
+        extracted.basePath,
+        memory.mediaType,
+        extracted.additionalFiles.map((file) => file.path)
+      );
+      return {
+        path: extracted.basePath,
+        contentType: format.contentType,
+        extension: format.extension,
+        additionalFiles: extracted.additionalFiles,
+        ...(extracted.segments && { segments: extracted.segments }),
+      };
+    }
+
+    // The detected format wins over the Content-Type header
+    const format = await verifyMedia(url, filePath, memory.mediaType);
+    return {
+      path: filePath,
+      contentType: format.contentType,
+      extension: format.extension,
+    };
+  });
+}
 
 /**
- * Retry callback type
+ * Send a request with its own request timer, added to the attempt's timers
+ * The earlier requests of the attempt have been read by then, so their timers are stopped.
  */
-export type RetryCallback = (
-  memory: SnapchatMemory,
-  attempt: number,
-  delay: number,
-  error: Error
-) => void;
+async function sendRequest(
+  transport: Transport,
+  request: TransportRequest,
+  timeouts: RequestTimeouts,
+  signal: AbortSignal | undefined,
+  timers: RequestTimer[]
+): Promise<Response> {
+  for (const previous of timers) {
+    previous.finish();
+  }
+  const timer = createRequestTimer(request.url, timeouts, signal);
+  timers.push(timer);
+  const response = await transport.request({
+    ...request,
+    signal: timer.signal,
+    connectTimeoutMs: timeouts.connectMs,
+  });
+  timer.responseStarted();
+  return response;
+}
 
 /**
- * Download result for batch operations
+ * POST a proxy URL's query string to the proxy to get the signed URL of the file
  */
-export interface BatchDownloadResult {
-  readonly memory: SnapchatMemory;
-  readonly success: boolean;
-  readonly media?: DownloadedMedia;
-  readonly error?: string;
-  readonly retries?: number;
+async function requestSignedUrl(
+  url: string,
+  send: (request: TransportRequest) => Promise<Response>,
+  rateController: RateController | undefined
+): Promise<string> {
+  const [baseUrl, queryString] = url.split('?');
+
+  if (!queryString) {
+    throw new DownloadError(url, 0, 'Invalid download URL format - missing query parameters');
+  }
+
+  const proxyResponse = await send({
+    url: baseUrl,
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: queryString,
+  });
+
+  if (!proxyResponse.ok) {
+    throw createResponseError(url, proxyResponse, rateController);
+  }
+
+  // The response body is the signed URL
+  const signedUrl = await proxyResponse.text();
+
+  if (!signedUrl || !signedUrl.startsWith('http')) {
+    throw new DownloadError(url, 0, `Invalid signed URL response: ${signedUrl.substring(0, 100)}`);
+  }
+
+  return signedUrl.trim();
 }
 
 /**
- * Download options
+ * Request the file behind a proxy URL
+ * Uses the cached signed URL while it is valid, and asks the proxy for a new one
+ * if there is none or the server rejects the cached one.
  */
-export interface DownloadOptions {
-  delay?: number;
-  concurrency?: number;
-  maxRetries?: number;
-  onProgress?: ProgressCallback;
-  onRetry?: RetryCallback;
-  signal?: AbortSignal;
+async function requestProxyFile(
+  url: string,
+  send: (request: TransportRequest) => Promise<Response>,
+  headers: Record<string, string> | undefined,
+  options: { signedUrls?: SignedUrlCache; rateController?: RateController }
+): Promise<Response> {
+  const { signedUrls, rateController } = options;
+
+  const cached = signedUrls?.get(url);
+  if (cached) {
+    const response = await send({ url: cached, method: 'GET', headers });
+    if (response.status !== 403) {
+      return response;
+    }
+    // Expired before the time it announced, resolve it again
+    signedUrls?.delete(url);
+    await response.body?.cancel();
+  }
+
+  const signedUrl = await requestSignedUrl(url, send, rateController);
+  signedUrls?.set(url, signedUrl);
+  return send({ url: signedUrl, method: 'GET', headers });
 }
 
 /**
- * Worker function that processes items from a shared queue
+ * Resolve the signed URL of a proxy URL (JSON export) without downloading the file
+ * @throws DownloadError if the proxy doesn't answer with a signed URL
  */
-async function downloadWorker(
-  queue: SnapchatMemory[],
-  results: Map<string, BatchDownloadResult>,
+export async function resolveSignedUrl(
+  url: string,
   options: {
-    delay: number;
-    maxRetries: number;
-    onComplete: () => void;
-    onRetry?: RetryCallback;
+    transport?: Transport;
+    rateController?: RateController;
+    timeouts?: RequestTimeouts;
     signal?: AbortSignal;
-  }
-): Promise<void> {
-  const { delay, maxRetries, onComplete, onRetry, signal } = options;
+  } = {}
+): Promise<string> {
+  const {
+    transport = defaultTransport,
+    rateController,
+    timeouts = DEFAULT_REQUEST_TIMEOUTS,
+    signal,
+  } = options;
+  const timers: RequestTimer[] = [];
 
-  while (queue.length > 0) {
-    if (signal?.aborted) {
-      break;
+  try {
+    return await requestSignedUrl(
+      url,
+      (request) => sendRequest(transport, request, timeouts, signal, timers),
+      rateController
+    );
+  } catch (caught) {
+    throw timers.length > 0 ? timers[timers.length - 1].toError(caught) : caught;
+  } finally {
+    for (const timer of timers) {
+      timer.finish();
     }
+  }
+}
 
-    const memory = queue.shift();
-    if (!memory) break;
+/**
+ * Sleep for specified milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-    let retryCount = 0;
+/**
+ * Options for resolving signed URLs ahead of the downloads
+ */
+export interface PrefetchOptions {
+  signedUrls: SignedUrlCache; // Receives the resolved URLs
+  concurrency?: number; // Resolved at once, defaults to DEFAULT_CONCURRENCY
+  signal?: AbortSignal;
+  transport?: Transport;
+  timeouts?: RequestTimeouts;
+}
 
-    try {
-      const media = await downloadMemory(memory, {
-        maxRetries,
-        onRetry: (attempt, retryDelay, error) => {
-          retryCount = attempt;
-          if (onRetry) {
-            onRetry(memory, attempt, retryDelay, error);
-          }
-        },
-      });
-      results.set(memory.mediaId, { memory, success: true, media, retries: retryCount });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      results.set(memory.mediaId, {
-        memory,
-        success: false,
-        error: errorMessage,
-        retries: retryCount,
-      });
-    }
+/**
+ * Outcome of resolving signed URLs ahead of the downloads
+ */
+export interface PrefetchResult {
+  resolved: number;
+  failed: number; // Left to the download, which asks again with retries
+}
 
-    onComplete();
+/**
+ * Resolve and cache the signed URL of one download URL, if it is a proxy URL without one
+ * @returns Whether a URL was resolved, or null if there was nothing to resolve
+ */
+async function prefetchSignedUrl(
+  url: string | null,
+  options: PrefetchOptions,
+  rateController: RateController
+): Promise<boolean | null> {
+  const { signedUrls, signal, transport = defaultTransport, timeouts } = options;
+  if (!url || !transport.isProxyUrl(url) || signedUrls.get(url)) {
+    return null;
+  }
 
-    // Rate limiting delay between downloads
-    if (queue.length > 0 && delay > 0) {
-      await sleep(delay);
+  await rateController.acquire();
+  try {
+    if (signal?.aborted) {
+      return null;
     }
+    signedUrls.set(
+      url,
+      await resolveSignedUrl(url, { transport, rateController, timeouts, signal })
+    );
+    rateController.onSuccess();
+    return true;
+  } catch {
+    return signal?.aborted ? null : false;
+  } finally {
+    rateController.release();
   }
 }
 
 /**
- * Download multiple memories with concurrency, rate limiting, and retry
+ * Resolve the signed URLs of all the given download URLs before downloading (first phase)
+ * URLs that aren't proxy URLs, or that already have a valid signed URL, are skipped.
  */
-export async function downloadMemoriesConcurrent(
-  memories: readonly SnapchatMemory[],
-  options: DownloadOptions = {}
-): Promise<BatchDownloadResult[]> {
-  const {
-    delay = DEFAULT_DOWNLOAD_DELAY_MS,
-    concurrency = DEFAULT_CONCURRENCY,
-    maxRetries = DEFAULT_MAX_RETRIES,
-    onProgress,
-    onRetry,
-    signal,
-  } = options;
-
-  // Create a mutable queue from the memories
-  const queue = [...memories];
-  const results = new Map<string, BatchDownloadResult>();
-  let completed = 0;
-
-  const onComplete = (): void => {
-    completed++;
-    if (onProgress && results.size > 0) {
-      // Get the most recently completed memory for progress reporting
-      const lastResult = Array.from(results.values()).pop();
-      if (lastResult) {
-        onProgress(completed, memories.length, lastResult.memory);
+export async function resolveSignedUrls(
+  urls: AsyncIterable<string | null> | Iterable<string | null>,
+  options: PrefetchOptions & { onProgress?: (result: PrefetchResult) => void }
+): Promise<PrefetchResult> {
+  const { concurrency = DEFAULT_CONCURRENCY, onProgress } = options;
+  const rateController = createRateController({ maxConcurrency: concurrency });
+  const result: PrefetchResult = { resolved: 0, failed: 0 };
+
+  // Workers pull from a shared iterator
+  const queue = (async function* (): AsyncGenerator<string | null> {
+    yield* urls;
+  })();
+
+  const worker = async (): Promise<void> => {
+    for (let next = await queue.next(); !next.done; next = await queue.next()) {
+      const resolved = await prefetchSignedUrl(next.value, options, rateController);
+      if (resolved === null) {
+        continue;
       }
+      if (resolved) {
+        result.resolved++;
+      } else {
+        result.failed++;
+      }
+      onProgress?.(result);
     }
   };
 
-  // Start concurrent workers
-  const workers: Promise<void>[] = [];
-  const actualConcurrency = Math.min(concurrency, memories.length);
-
-  for (let i = 0; i < actualConcurrency; i++) {
-    // Stagger worker start times to avoid burst requests
-    await sleep(delay * (i / actualConcurrency));
-    workers.push(
-      downloadWorker(queue, results, {
-        delay,
-        maxRetries,
-        onComplete,
-        onRetry,
-        signal,
-      })
-    );
-  }
-
-  // Wait for all workers to complete
-  await Promise.all(workers);
-
-  // Return results in original order
-  return memories.map(
-    (memory) =>
-      results.get(memory.mediaId) || {
-        memory,
-        success: false,
-        error: 'Download was cancelled',
-      }
-  );
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  return result;
 }
 
 /**
- * Download multiple memories sequentially (legacy function)
+ * Pass items through while resolving the signed URLs of the next ones (rolling window)
+ * Reads up to `window` items ahead of the consumer and yields each once its signed
+ * URL has been resolved or failed to, so the downloads find it in the cache.
+ *
+ * @param getUrl - The download URL an item will be downloaded from, or null if none
  */
-export async function downloadMemories(
-  memories: readonly SnapchatMemory[],
-  options: {
-    delay?: number;
-    maxRetries?: number;
-    onProgress?: ProgressCallback;
-    onRetry?: RetryCallback;
-    signal?: AbortSignal;
-  } = {}
-): Promise<BatchDownloadResult[]> {
-  return downloadMemoriesConcurrent(memories, { ...options, concurrency: 1 });
+export async function* prefetchSignedUrls<T>(
+  items: AsyncIterable<T> | Iterable<T>,
+  getUrl: (item: T) => string | null,
+  window: number,
+  options: PrefetchOptions
+): AsyncGenerator<T> {
+  const rateController = createRateController({
+    maxConcurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+  });
+  const ahead: { item: T; prefetched: Promise<unknown> }[] = [];
+
+  for await (const item of items) {
+    ahead.push({ item, prefetched: prefetchSignedUrl(getUrl(item), options, rateController) });
+    if (ahead.length > window) {
+      const next = ahead.shift()!;
+      await next.prefetched;
+      yield next.item;
+    }
+  }
+
+  for (const next of ahead) {
+    await next.prefetched;
+    yield next.item;
+  }
 }
 
 /**
- * Contents extracted from a media ZIP file
+ * Media files extracted from a media ZIP file
  */
 export interface ExtractedMediaContents {
-  readonly baseMedia: Buffer;
-  readonly baseMediaType: 'jpg' | 'mp4';
-  readonly overlay: Buffer | null;
+  readonly basePath: string; // Temporary file
+  readonly baseFormat: SniffedFormat; // Detected from the base file's first bytes
+  readonly overlayPath: string | null; // Temporary file
+  readonly segments?: readonly MediaSegment[]; // All parts in order, for multi-segment videos
 }
 
 /**
@@ -581,292 +684,427 @@ export interface ExtractedMediaContents {
  * The ZIP typically contains:
  * - main.jpg or main.mp4 (the base media)
  * - overlay.png (optional overlay with transparency)
+ * Interrupted downloads are resumed like in downloadMemory.
  */
 export async function downloadMediaWithOverlay(
   memory: SnapchatMemory,
-  options: {
-    maxRetries?: number;
-    onRetry?: (attempt: number, delay: number, error: Error) => void;
-  } = {}
+  options: DownloadOptions = {}
 ): Promise<ExtractedMediaContents> {
-  const { maxRetries = DEFAULT_MAX_RETRIES, onRetry } = options;
+  const { tempDir = tmpdir() } = options;
 
   // Use mediaDownloadUrl if available, otherwise fall back to downloadUrl
   const url = memory.mediaDownloadUrl || memory.downloadUrl;
   const isMediaUrl = !!memory.mediaDownloadUrl;
+  const filePath = join(tempDir, `${memory.mediaId}.media`);
+
+  return withRetries(options, async (timers) => {
+    await fetchToFile(url, filePath, options, timers);
+
+    // Check if this is a ZIP file (mediaDownloadUrl returns ZIP)
+    if (isMediaUrl && detectFormat(await readFileHeader(filePath))?.kind === 'Archive') {
+      const extracted = await extractMediaFromZip(filePath, memory.mediaType, tempDir);
+      const related = [
+        ...(extracted.segments ?? []).map((segment) => segment.path),
+        ...(extracted.segments ?? []).map((segment) => segment.overlayPath),
+        extracted.overlayPath,
+      ].filter((path): path is string => path !== null && path !== extracted.basePath);
+      const baseFormat = await verifyMedia(url, extracted.basePath, memory.mediaType, [
+        ...new Set(related),
+      ]);
+      return { ...extracted, baseFormat };
+    }
 
-  // Determine which download method to use
-  const useProxyMethod = isProxyUrl(url);
-
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      let fileResponse: Response;
-
-      if (useProxyMethod) {
-        // Proxy method: POST to get signed URL, then GET the file
-        const [baseUrl, queryString] = url.split('?');
-
-        if (!queryString) {
-          throw new DownloadError(url, 0, 'Invalid download URL format - missing query parameters');
-        }
-
-        // POST to get the signed URL
-        const proxyResponse = await fetch(baseUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: queryString,
-        });
-
-        if (!proxyResponse.ok) {
-          const error = new DownloadError(url, proxyResponse.status, proxyResponse.statusText);
-
-          if (attempt < maxRetries && isRetryableError(error)) {
-            lastError = error;
-            const delay = calculateBackoffDelay(attempt);
-
-            if (onRetry) {
-              onRetry(attempt + 1, delay, error);
-            }
-
-            await sleep(delay);
-            continue;
-          }
-
-          throw error;
-        }
-
-        // The response body is the signed URL
-        const signedUrl = await proxyResponse.text();
+    // Not a ZIP, return as single media without overlay
+    const baseFormat = await verifyMedia(url, filePath, memory.mediaType);
+    return {
+      basePath: filePath,
+      baseFormat,
+      overlayPath: null,
+    };
+  });
+}
 
-        if (!signedUrl || !signedUrl.startsWith('http')) {
-          throw new DownloadError(
-            url,
-            0,
-            `Invalid signed URL response: ${signedUrl.substring(0, 100)}`
-          );
-        }
+/**
+ * Resume record stored next to a partial download (<file>.part.json)
+ */
+interface PartialDownloadState {
+  readonly totalSize: number | null; // Full size announced by the server
+  readonly validator: string | null; // ETag or Last-Modified, sent as If-Range
+  readonly contentType: string;
+}
 
-        // GET the actual file from the signed URL
-        fileResponse = await fetch(signedUrl.trim());
-      } else {
-        // Direct method: GET with redirect following (for HTML export URLs)
-        fileResponse = await fetch(url, {
-          method: 'GET',
-          redirect: 'follow',
-        });
-      }
+/**
+ * A partial download that can be resumed
+ */
+interface PartialDownload {
+  readonly size: number; // Bytes already on disk
+  readonly state: PartialDownloadState;
+}
 
-      if (!fileResponse.ok) {
-        const error = new DownloadError(url, fileResponse.status, fileResponse.statusText);
+/**
+ * Get the partial file and resume record paths of a download
+ */
+function getPartialPaths(path: string): { partPath: string; statePath: string } {
+  return { partPath: `${path}.part`, statePath: `${path}.part.json` };
+}
 
-        if (attempt < maxRetries && isRetryableError(error)) {
-          lastError = error;
-          const delay = calculateBackoffDelay(attempt);
+/**
+ * Read the partial download of a file, if there is one that can be resumed
+ */
+async function readPartialDownload(path: string): Promise<PartialDownload | null> {
+  const { partPath, statePath } = getPartialPaths(path);
 
-          if (onRetry) {
-            onRetry(attempt + 1, delay, error);
-          }
+  try {
+    const state = JSON.parse(await readFile(statePath, 'utf-8')) as PartialDownloadState;
+    const { size } = await stat(partPath);
+    return size > 0 ? { size, state } : null;
+  } catch {
+    return null;
+  }
+}
 
-          await sleep(delay);
-          continue;
-        }
+/**
+ * Remove the partial file and resume record of a download
+ */
+async function discardPartialDownload(path: string): Promise<void> {
+  const { partPath, statePath } = getPartialPaths(path);
+  await Promise.all([rm(partPath, { force: true }), rm(statePath, { force: true })]);
+}
 
-        throw error;
-      }
+/**
+ * Build the headers asking the server for the rest of a partial download
+ */
+function getResumeHeaders(partial: PartialDownload | null): Record<string, string> | undefined {
+  if (!partial) {
+    return undefined;
+  }
 
-      const contentType = fileResponse.headers.get('content-type') || 'application/octet-stream';
-      const arrayBuffer = await fileResponse.arrayBuffer();
-      const data = Buffer.from(arrayBuffer);
+  const headers: Record<string, string> = { Range: `bytes=${partial.size}-` };
+  if (partial.state.validator) {
+    // The server sends the whole file instead if it changed in the meantime
+    headers['If-Range'] = partial.state.validator;
+  }
+  return headers;
+}
 
-      if (data.length === 0) {
-        throw new DownloadError(url, fileResponse.status, 'Empty response body');
-      }
+/**
+ * Read the start offset and total size from a Content-Range header
+ * Example: "bytes 1000-4999/5000"
+ */
+function parseContentRange(header: string | null): { start: number; total: number | null } | null {
+  const match = header?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+  if (!match) {
+    return null;
+  }
+  return { start: Number(match[1]), total: match[2] === '*' ? null : Number(match[2]) };
+}
 
-      // Check if this is a ZIP file (mediaDownloadUrl returns ZIP)
-      if (isMediaUrl && (contentType.includes('zip') || isZipBuffer(data))) {
-        return extractMediaFromZip(data, memory.mediaType);
-      }
+/**
+ * Stream a response body into a file, resuming a partial download when the server sent a range
+ *
+ * The body is written to <file>.part and only renamed to the file once its size
+ * matches what the server announced. If the server accepts range requests, a
+ * resume record is kept next to the partial file so an interrupted download can
+ * continue where it stopped, in a later attempt or a later run.
+ *
+ * @returns The size of the complete file and its content type
+ * @throws IncompleteDownloadError if the body ended early (the partial file is kept)
+ */
+async function saveResponseToFile(
+  url: string,
+  response: Response,
+  path: string,
+  partial: PartialDownload | null,
+  options: { timer?: RequestTimer; bandwidth?: BandwidthLimiter } = {}
+): Promise<{ size: number; contentType: string }> {
+  const { timer, bandwidth } = options;
+  const { partPath, statePath } = getPartialPaths(path);
+  const range =
+    response.status === 206 ? parseContentRange(response.headers.get('content-range')) : null;
+  const resuming =
+    partial !== null &&
+    range !== null &&
+    range.start === partial.size &&
+    range.total === partial.state.totalSize;
+
+  if (response.status === 206 && !resuming) {
+    // A range we can't append to the partial file: start over on the next attempt
+    await discardPartialDownload(path);
+    throw new DownloadError(url, response.status, 'Unexpected partial content');
+  }
 
-      // Not a ZIP, return as single media without overlay
-      const baseMediaType = memory.mediaType === 'Image' ? 'jpg' : 'mp4';
-      return {
-        baseMedia: data,
-        baseMediaType: baseMediaType,
-        overlay: null,
-      };
-    } catch (error) {
-      if (error instanceof DownloadError) {
-        if (attempt < maxRetries && isRetryableError(error)) {
-          lastError = error;
-          const delay = calculateBackoffDelay(attempt);
-
-          if (onRetry) {
-            onRetry(attempt + 1, delay, error);
-          }
-
-          await sleep(delay);
-          continue;
-        }
-        throw error;
-      }
+  let state: PartialDownloadState;
+  if (resuming) {
+    state = partial.state;
+  } else {
+    // Content-Length is the encoded size if the body is compressed
+    const contentLength = response.headers.get('content-encoding')
+      ? null
+      : response.headers.get('content-length');
+    state = {
+      totalSize: contentLength ? Number(contentLength) : null,
+      validator: response.headers.get('etag') ?? response.headers.get('last-modified'),
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+    };
 
-      if (error instanceof Error && attempt < maxRetries && isRetryableError(error)) {
-        lastError = error;
-        const delay = calculateBackoffDelay(attempt);
+    await discardPartialDownload(path);
+    if (response.headers.get('accept-ranges')?.toLowerCase() === 'bytes') {
+      await writeFile(statePath, JSON.stringify(state));
+    }
+  }
 
-        if (onRetry) {
-          onRetry(attempt + 1, delay, error);
+  // Chunks are written one by one so everything received is on disk if the connection drops
+  const file = await open(partPath, resuming ? 'a' : 'w');
+  try {
+    if (response.body) {
+      for await (const chunk of response.body) {
+        timer?.progress();
+        if (bandwidth) {
+          // Waiting for the limit isn't idling
+          await bandwidth.consume((chunk as Uint8Array).byteLength);
+          timer?.progress();
         }
-
-        await sleep(delay);
-        continue;
+        await file.write(chunk);
       }
+    }
+  } catch (error) {
+    // Keep what arrived if the download can be resumed, otherwise don't leave a truncated file
+    if (!(await readPartialDownload(path))) {
+      await discardPartialDownload(path);
+    }
+    throw error;
+  } finally {
+    await file.close();
+  }
 
-      throw error;
+  const { size } = await stat(partPath);
+  if (state.totalSize !== null && size !== state.totalSize) {
+    if (size > state.totalSize || !(await readPartialDownload(path))) {
+      await discardPartialDownload(path);
     }
+    throw new IncompleteDownloadError(url, size, state.totalSize);
   }
 
-  throw lastError || new Error('Download failed after retries');
+  await rename(partPath, path);
+  await rm(statePath, { force: true });
+  return { size, contentType: state.contentType };
 }
 
 /**
- * Check if a buffer starts with ZIP magic bytes
+ * Check that a downloaded file is the memory's kind of media, going by its magic bytes
+ * If it isn't, the file and the given related files are deleted.
+ * @returns The detected format
  */
-function isZipBuffer(buffer: Buffer): boolean {
-  // ZIP files start with PK (0x50 0x4B)
-  return buffer.length >= 2 && buffer[0] === 0x50 && buffer[1] === 0x4b;
+async function verifyMedia(
+  url: string,
+  path: string,
+  mediaType: 'Image' | 'Video',
+  relatedPaths: readonly string[] = []
+): Promise<SniffedFormat> {
+  const header = await readFileHeader(path);
+  const format = detectFormat(header);
+  if (format?.kind === mediaType) {
+    return format;
+  }
+
+  await Promise.all([path, ...relatedPaths].map((file) => rm(file, { force: true })));
+  throw new MediaMismatchError(url, mediaType, describeContent(header));
 }
 
 /**
  * Result of extracting media from a ZIP file
  */
 interface ExtractedZipContents {
-  readonly baseMedia: Buffer;
-  readonly baseMediaType: 'jpg' | 'mp4';
+  readonly basePath: string;
   readonly additionalFiles: AdditionalFile[];
+  readonly segments: MediaSegment[] | null; // Parts of a multi-segment video, in order
+}
+
+/**
+ * Names of the image and video files a media ZIP can hold
+ */
+const ZIP_MEDIA_PATTERN = /\.(jpe?g|png|heic|heif|avif|webp|mp4|mov|webm)$/i;
+
+/**
+ * Get the name a ZIP entry shares with the other files of its segment,
+ * e.g. "abc" for abc-main.mp4 and abc-overlay.png
+ */
+function getSegmentKey(name: string): string {
+  return basename(name)
+    .toLowerCase()
+    .replace(/\.[^.]+$/, '')
+    .replace(/[-_ ]?(main|overlay)$/, '');
+}
+
+/**
+ * Compare ZIP entry names so that "part2" sorts before "part10"
+ */
+function compareEntryNames(a: ExtractedZipEntry, b: ExtractedZipEntry): number {
+  return a.name.localeCompare(b.name, undefined, { numeric: true });
+}
+
+/**
+ * Find the segments of a video split into several files
+ * Long videos come as several -main videos in one ZIP, or as several videos none
+ * of which is named main. Each part gets the overlay sharing its name, or the
+ * only overlay of the ZIP, or the overlay at the same position.
+ *
+ * @returns The parts in order, or null if the ZIP holds a single video
+ */
+function findVideoSegments(entries: readonly ExtractedZipEntry[]): MediaSegment[] | null {
+  const videos = entries.filter((entry) => /\.(mp4|mov|webm)$/i.test(entry.name));
+  const mains = videos.filter((entry) => entry.name.toLowerCase().includes('main'));
+  const parts = (mains.length > 1 ? mains : mains.length === 0 ? videos : []).sort(
+    compareEntryNames
+  );
+  if (parts.length < 2) {
+    return null;
+  }
+
+  const overlays = entries
+    .filter((entry) => entry.name.toLowerCase().endsWith('.png'))
+    .sort(compareEntryNames);
+  return parts.map((part, index) => {
+    const overlay =
+      overlays.find((entry) => getSegmentKey(entry.name) === getSegmentKey(part.name)) ??
+      (overlays.length === 1 ? overlays[0] : null) ??
+      (overlays.length === parts.length ? overlays[index] : null);
+    return { path: part.path, overlayPath: overlay?.path ?? null };
+  });
 }
 
 /**
- * Extract base media and additional files from a ZIP buffer
- * Keeps all files from the ZIP (overlay, etc.) as additional files
+ * Extract base media and additional files from a downloaded ZIP file
+ * Keeps all files from the ZIP (overlay, etc.) as additional files. The entries
+ * are written next to the ZIP, which is removed afterwards.
  */
 async function extractMediaFromZipWithExtras(
-  zipBuffer: Buffer,
-  mediaType: 'Image' | 'Video'
+  zipPath: string,
+  mediaType: 'Image' | 'Video',
+  tempDir: string
 ): Promise<ExtractedZipContents> {
-  // Dynamic import to avoid loading adm-zip until needed
-  const AdmZip = (await import('adm-zip')).default;
+  let entries: ExtractedZipEntry[];
+  try {
+    entries = await extractZipEntries(zipPath, tempDir, `${basename(zipPath)}-`);
+  } finally {
+    await rm(zipPath, { force: true });
+  }
 
-  const zip = new AdmZip(zipBuffer);
-  const entries = zip.getEntries();
+  const segments = mediaType === 'Video' ? findVideoSegments(entries) : null;
+  if (segments) {
+    // Every file is kept, the later parts as additional files
+    const [first] = segments;
+    const segmentPaths = new Set(segments.map((segment) => segment.path));
+    const overlayPaths = new Set(segments.map((segment) => segment.overlayPath));
+    return {
+      basePath: first.path,
+      additionalFiles: entries
+        .filter((entry) => entry.path !== first.path)
+        .map((entry) => ({
+          path: entry.path,
+          filename: entry.name,
+          type: segmentPaths.has(entry.path)
+            ? 'segment'
+            : overlayPaths.has(entry.path)
+              ? 'overlay'
+              : 'other',
+        })),
+      segments,
+    };
+  }
 
-  let baseMedia: Buffer | null = null;
-  let baseMediaType: 'jpg' | 'mp4' = mediaType === 'Image' ? 'jpg' : 'mp4';
+  let base: ExtractedZipEntry | null = null;
   const additionalFiles: AdditionalFile[] = [];
+  const unused: string[] = [];
 
   for (const entry of entries) {
-    const name = entry.entryName.toLowerCase();
-    const originalName = entry.entryName;
-
-    // Skip directories
-    if (entry.isDirectory) continue;
-
-    // Look for overlay PNG
-    if (name.endsWith('.png') && (name.includes('overlay') || name === 'overlay.png')) {
-      additionalFiles.push({
-        data: entry.getData(),
-        filename: originalName,
-        type: 'overlay',
-      });
-      continue;
-    }
+    const name = entry.name.toLowerCase();
 
-    // Look for base image (JPG/JPEG) - identified by 'main' in name or just .jpg
-    if (name.endsWith('.jpg') || name.endsWith('.jpeg')) {
-      if (name.includes('main') || !baseMedia) {
-        baseMedia = entry.getData();
-        baseMediaType = 'jpg';
-      }
+    // Look for overlay PNG/WebP
+    if (/\.(png|webp)$/.test(name) && name.includes('overlay')) {
+      additionalFiles.push({ path: entry.path, filename: entry.name, type: 'overlay' });
       continue;
     }
 
-    // Look for base video (MP4)
-    if (name.endsWith('.mp4')) {
-      if (name.includes('main') || !baseMedia) {
-        baseMedia = entry.getData();
-        baseMediaType = 'mp4';
+    // Look for base media - identified by 'main' in name, or the first image or video.
+    // A PNG is only the base when named 'main', others are usually overlays.
+    if (ZIP_MEDIA_PATTERN.test(name) && (!name.endsWith('.png') || name.includes('main'))) {
+      if (name.includes('main') || !base) {
+        if (base) unused.push(base.path);
+        base = entry;
+      } else {
+        unused.push(entry.path);
       }
       continue;
     }
 
     // Any other PNG file - treat as potential overlay
     if (name.endsWith('.png')) {
-      additionalFiles.push({
-        data: entry.getData(),
-        filename: originalName,
-        type: 'overlay',
-      });
+      additionalFiles.push({ path: entry.path, filename: entry.name, type: 'overlay' });
       continue;
     }
 
     // Any other file - keep as 'other'
-    additionalFiles.push({
-      data: entry.getData(),
-      filename: originalName,
-      type: 'other',
-    });
+    additionalFiles.push({ path: entry.path, filename: entry.name, type: 'other' });
   }
 
-  // If we still don't have base media, try to find any image/video file
-  if (!baseMedia) {
-    for (const entry of entries) {
-      if (entry.isDirectory) continue;
-      const name = entry.entryName.toLowerCase();
-
-      // Take first media file we find
-      if (name.endsWith('.jpg') || name.endsWith('.jpeg') || name.endsWith('.png')) {
-        baseMedia = entry.getData();
-        baseMediaType = 'jpg';
-        break;
-      }
-      if (name.endsWith('.mp4') || name.endsWith('.mov')) {
-        baseMedia = entry.getData();
-        baseMediaType = 'mp4';
-        break;
-      }
+  // If we still don't have base media, take the first image we found
+  if (!base) {
+    const index = additionalFiles.findIndex((file) => /\.(png|webp)$/i.test(file.filename));
+    if (index !== -1) {
+      const [file] = additionalFiles.splice(index, 1);
+      base = { name: file.filename, path: file.path };
     }
   }
 
-  if (!baseMedia) {
+  await Promise.all(unused.map((path) => rm(path, { force: true })));
+
+  if (!base) {
+    await Promise.all(additionalFiles.map((file) => rm(file.path, { force: true })));
     throw new DownloadError('zip', 0, 'No media file found in ZIP archive');
   }
 
   return {
-    baseMedia,
-    baseMediaType,
+    basePath: base.path,
     additionalFiles,
+    segments: null,
   };
 }
 
 /**
- * Extract base media and overlay from a ZIP buffer (legacy function for overlay compositing)
+ * Extract base media and overlay from a downloaded ZIP file (for overlay compositing)
  */
 async function extractMediaFromZip(
-  zipBuffer: Buffer,
-  mediaType: 'Image' | 'Video'
-): Promise<ExtractedMediaContents> {
-  const result = await extractMediaFromZipWithExtras(zipBuffer, mediaType);
+  zipPath: string,
+  mediaType: 'Image' | 'Video',
+  tempDir: string
+): Promise<Omit<ExtractedMediaContents, 'baseFormat'>> {
+  const result = await extractMediaFromZipWithExtras(zipPath, mediaType, tempDir);
+
+  if (result.segments) {
+    // Keep the parts and their overlays, the rest are not needed
+    await Promise.all(
+      result.additionalFiles
+        .filter((file) => file.type === 'other')
+        .map((file) => rm(file.path, { force: true }))
+    );
+    return {
+      basePath: result.basePath,
+      overlayPath: result.segments[0].overlayPath,
+      segments: result.segments,
+    };
+  }
 
-  // Find overlay from additional files
+  // Find overlay from additional files, the rest are not needed
   const overlayFile = result.additionalFiles.find((f) => f.type === 'overlay');
+  await Promise.all(
+    result.additionalFiles
+      .filter((file) => file !== overlayFile)
+      .map((file) => rm(file.path, { force: true }))
+  );
 
   return {
-    baseMedia: result.baseMedia,
-    baseMediaType: result.baseMediaType,
-    overlay: overlayFile?.data ?? null,
+    basePath: result.basePath,
+    overlayPath: overlayFile?.path ?? null,
   };
 }
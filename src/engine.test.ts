@@ -0,0 +1,205 @@
+/**
+ * Tests for the export engine against the mock Snapchat server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync } from 'node:fs';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import sharp from 'sharp';
+import { createExportEngine, ExportEventName } from './engine.js';
+import { createManifest, getJournalPath, loadManifest } from './manifest.js';
+import { MockSnapchatServer, startMockSnapchatServer } from './mockserver.js';
+import { createFetchTransport } from './transport.js';
+import { ExportOptions, ManifestWriteError, SnapchatMemory } from './types.js';
+
+let server: MockSnapchatServer;
+let image: Buffer;
+
+beforeAll(async () => {
+  server = await startMockSnapchatServer();
+  image = await sharp({
+    create: { width: 8, height: 8, channels: 3, background: { r: 0, g: 0, b: 255 } },
+  })
+    .jpeg()
+    .toBuffer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+const memoryFor = (mediaId: string, downloadUrl: string): SnapchatMemory => ({
+  date: new Date('2024-01-15T10:30:00Z'),
+  mediaType: 'Image',
+  location: null,
+  downloadUrl,
+  mediaDownloadUrl: null,
+  mediaId,
+});
+
+describe('createExportEngine', () => {
+  let outputDir: string;
+  let options: ExportOptions;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), 'snapchat-engine-'));
+    options = {
+      outputDir,
+      format: 'flat',
+      dryRun: false,
+      skipExisting: false,
+      delay: 0,
+      concurrency: 1,
+      maxRetries: 0,
+      importToPhotos: false,
+      limit: null,
+      skipOverlay: false,
+      offline: false,
+      transport: createFetchTransport(),
+    };
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should report each memory through its events', async () => {
+    server.addMedia({ mediaId: 'engine-ok', data: image, contentType: 'image/jpeg' });
+    server.addMedia({
+      mediaId: 'engine-gone',
+      data: image,
+      contentType: 'image/jpeg',
+      expired: true,
+    });
+    const engine = createExportEngine(options);
+    const events: string[] = [];
+    for (const name of ['queued', 'downloading', 'saved', 'failed'] as ExportEventName[]) {
+      engine.on(name, ({ memory }) => events.push(`${name}:${memory.mediaId}`));
+    }
+
+    const result = await engine.run(
+      [
+        memoryFor('engine-ok', server.proxyUrl('engine-ok')),
+        memoryFor('engine-gone', server.proxyUrl('engine-gone')),
+      ],
+      2
+    );
+
+    expect(events).toEqual([
+      'queued:engine-ok',
+      'downloading:engine-ok',
+      'saved:engine-ok',
+      'queued:engine-gone',
+      'downloading:engine-gone',
+      'failed:engine-gone',
+    ]);
+    expect(result.stats).toMatchObject({ total: 2, downloaded: 1, failed: 1, images: 1 });
+    expect(result.savedPaths).toHaveLength(1);
+    expect(result.trip).toBeNull();
+    // Only the saved file is left, the temporary directory is removed
+    expect(await readdir(outputDir)).toEqual([basename(result.savedPaths[0])]);
+  }, 30_000);
+
+  it('should report files that already exist as skipped and stop after unsubscribing', async () => {
+    server.addMedia({ mediaId: 'engine-again', data: image, contentType: 'image/jpeg' });
+    const memory = memoryFor('engine-again', server.proxyUrl('engine-again'));
+    const engine = createExportEngine({ ...options, skipExisting: true });
+    await engine.run([memory], 1);
+
+    const skipped: string[] = [];
+    const unsubscribe = engine.on('skipped', ({ reason }) => skipped.push(reason));
+    const result = await engine.run([memory], 1);
+    unsubscribe();
+    await engine.run([memory], 1);
+
+    expect(skipped).toEqual(['File already exists']);
+    expect(result.stats).toMatchObject({ downloaded: 0, skipped: 1 });
+  }, 30_000);
+
+  it('should report a manifest that cannot be written apart from download failures', async () => {
+    server.addMedia({ mediaId: 'engine-unrecorded', data: image, contentType: 'image/jpeg' });
+    // The journal goes to a directory that doesn't exist yet
+    const manifestDir = join(outputDir, 'missing');
+    const manifest = createManifest(manifestDir);
+    const engine = createExportEngine({ ...options, maxConsecutiveFailures: 1 }, { manifest });
+    const errors: Error[] = [];
+    engine.on('failed', ({ error }) => {
+      errors.push(error);
+      // Lets the compaction at the end of the run through
+      mkdirSync(manifestDir);
+    });
+
+    const result = await engine.run(
+      [memoryFor('engine-unrecorded', server.proxyUrl('engine-unrecorded'))],
+      1
+    );
+
+    expect(errors[0]).toBeInstanceOf(ManifestWriteError);
+    expect(result.stats).toMatchObject({ total: 1, downloaded: 0, failed: 1 });
+    expect(result.trip).toBeNull();
+  }, 30_000);
+
+  it('should record saved memories and free the slot when reading the source fails', async () => {
+    server.addMedia({ mediaId: 'engine-read', data: image, contentType: 'image/jpeg' });
+    server.addMedia({ mediaId: 'engine-after', data: image, contentType: 'image/jpeg' });
+    const engine = createExportEngine(options, { manifest: createManifest(outputDir) });
+    const source = async function* (): AsyncGenerator<SnapchatMemory> {
+      yield memoryFor('engine-read', server.proxyUrl('engine-read'));
+      throw new Error('Unexpected end of the export');
+    };
+
+    await expect(engine.run(source())).rejects.toThrow('Unexpected end of the export');
+
+    // Compacted into the snapshot all the same
+    expect(existsSync(getJournalPath(outputDir))).toBe(false);
+    expect(Object.keys((await loadManifest(outputDir)).entries)).toEqual(['engine-read']);
+    // The rate controller slot was given back, or this run would never start
+    const result = await engine.run([memoryFor('engine-after', server.proxyUrl('engine-after'))]);
+    expect(result.stats.downloaded).toBe(1);
+  }, 30_000);
+
+  it('should hold new memories while paused and finish the ones in progress on stop', async () => {
+    const memories = ['engine-a', 'engine-b', 'engine-c'].map((mediaId) => {
+      server.addMedia({ mediaId, data: image, contentType: 'image/jpeg' });
+      return memoryFor(mediaId, server.proxyUrl(mediaId));
+    });
+    const engine = createExportEngine(options);
+    const queued: string[] = [];
+    engine.on('queued', ({ memory }) => queued.push(memory.mediaId));
+    engine.on('saved', () => {
+      // Pause after the first memory, then stop while paused
+      engine.pause();
+      setTimeout(() => engine.stop(), 400);
+    });
+
+    const result = await engine.run(memories, memories.length);
+
+    expect(result.stopped).toBe(true);
+    expect(result.stats).toMatchObject({ total: 3, downloaded: 1, failed: 0 });
+    expect(queued).toEqual(['engine-a']);
+  }, 30_000);
+
+  it('should start more workers when the concurrency is raised during a run', async () => {
+    const memories = ['engine-d', 'engine-e', 'engine-f'].map((mediaId) => {
+      server.addMedia({ mediaId, data: image, contentType: 'image/jpeg' });
+      return memoryFor(mediaId, server.proxyUrl(mediaId));
+    });
+    const engine = createExportEngine(options);
+    let active = 0;
+    let mostActive = 0;
+    engine.on('queued', () => {
+      active++;
+      mostActive = Math.max(mostActive, active);
+      if (engine.concurrency === 1) engine.setConcurrency(3);
+    });
+    engine.on('saved', () => active--);
+
+    const result = await engine.run(memories, memories.length);
+
+    expect(engine.concurrency).toBe(3);
+    expect(mostActive).toBeGreaterThan(1);
+    expect(result.stats.downloaded).toBe(3);
+  }, 30_000);
+});
@@ -0,0 +1,665 @@
+/**
+ * Engine module that runs an export: download, composite and save in one pipeline
+ *
+ * Workers pull memories from a shared queue, download them (or copy the media
+ * included in the export), composite their overlays and save them with
+ * metadata. Everything that happens to a memory is reported as a typed event,
+ * which the progress bar, the interactive mode and library users subscribe to.
+ */
+
+import { rm, rmdir, stat } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { BandwidthLimiter, createBandwidthLimiter } from './bandwidth.js';
+import { BreakerTrip, CircuitBreaker, createCircuitBreaker } from './breaker.js';
+import {
+  compositeMedia,
+  compositeSegments,
+  concatVideos,
+  CompositeError,
+  CompositeResult,
+} from './compositor.js';
+import {
+  downloadMediaWithOverlay,
+  downloadMemory,
+  DownloadedMedia,
+  MediaSegment,
+  sleep,
+} from './downloader.js';
+import { isOverlayExpired } from './expiry.js';
+import { ensureDir, getTempDir, saveMemory } from './exporter.js';
+import { copyLocalMedia } from './localmedia.js';
+import { addManifestEntry, createManifestJournal } from './manifest.js';
+import { getProxySettings } from './proxy.js';
+import { createRateController, RateController } from './ratecontrol.js';
+import { SignedUrlCache } from './signedurl.js';
+import { detectMediaFormat } from './sniff.js';
+import { createHttpTransport } from './transport.js';
+import {
+  ExportManifest,
+  ExportOptions,
+  ExportStats,
+  ManifestWriteError,
+  SnapchatMemory,
+} from './types.js';
+
+/**
+ * Events of an export, with what each one reports
+ */
+export interface ExportEvents {
+  queued: { memory: SnapchatMemory }; // Taken into the pipeline
+  downloading: { memory: SnapchatMemory; local: boolean }; // local: copied from the export
+  retry: { memory: SnapchatMemory; attempt: number; delay: number; error: Error };
+  composited: { memory: SnapchatMemory; paths: readonly string[] }; // Overlays applied or parts joined
+  saved: { memory: SnapchatMemory; paths: readonly string[] };
+  skipped: { memory: SnapchatMemory; reason: string }; // e.g. the file already exists
+  failed: { memory: SnapchatMemory; error: Error };
+  warning: { memory: SnapchatMemory; type: WarningType; message: string }; // Saved anyway
+}
+
+/**
+ * What went wrong for a memory that is still saved
+ * - composite: the overlay couldn't be applied, the base media is saved
+ * - join: the parts of a video couldn't be joined, they are saved as numbered parts
+ * - overlay-download: the overlay ZIP couldn't be downloaded, the media is downloaded without
+ */
+export type WarningType = 'composite' | 'join' | 'overlay-download';
+
+/**
+ * Name of an export event
+ */
+export type ExportEventName = keyof ExportEvents;
+
+/**
+ * Listener for an export event
+ */
+export type ExportEventListener<E extends ExportEventName> = (event: ExportEvents[E]) => void;
+
+/**
+ * Outcome of an export run
+ */
+export interface ExportResult {
+  readonly stats: ExportStats;
+  readonly savedPaths: string[]; // Every file saved, in the order they were saved
+  readonly trip: BreakerTrip | null; // Set if the circuit breaker stopped the run
+  readonly stopped: boolean; // Whether stop() ended the run before all memories were taken
+}
+
+/**
+ * Shared state and hooks for an export engine, beyond the export options
+ */
+export interface ExportEngineOptions {
+  readonly manifest?: ExportManifest; // Saved memories are recorded here and in its journal
+  readonly signedUrls?: SignedUrlCache; // Signed URLs resolved ahead of time
+  readonly signal?: AbortSignal; // Stops taking new memories and aborts the requests
+}
+
+/**
+ * How often paused workers check whether to go on
+ */
+const PAUSE_POLL_MS = 250;
+
+/**
+ * Runs exports and reports their progress as events
+ */
+export interface ExportEngine {
+  /**
+   * Shared by the workers: backs off on rate limiting and ramps back up
+   */
+  readonly rateController: RateController;
+
+  /**
+   * Also shared by the workers: measures the throughput and enforces maxBandwidth
+   */
+  readonly bandwidth: BandwidthLimiter;
+
+  /**
+   * Stops the workers when downloads keep failing, e.g. because the links expired
+   */
+  readonly breaker: CircuitBreaker;
+
+  /**
+   * Number of memories processed at once, changed with setConcurrency
+   */
+  readonly concurrency: number;
+
+  /**
+   * Whether the workers are paused
+   */
+  readonly paused: boolean;
+
+  /**
+   * Stop taking new memories until resume; the ones in progress are finished
+   */
+  pause(): void;
+
+  /**
+   * Take new memories again after pause
+   */
+  resume(): void;
+
+  /**
+   * Change the number of memories processed at once, also while running
+   */
+  setConcurrency(concurrency: number): void;
+
+  /**
+   * Whether stop() was called during the current run
+   */
+  readonly stopping: boolean;
+
+  /**
+   * Stop taking new memories and let the run end once the ones in progress are saved
+   * Unlike the signal, this doesn't abort the downloads in progress.
+   */
+  stop(): void;
+
+  /**
+   * Subscribe to an event
+   * @returns A function that unsubscribes
+   */
+  on<E extends ExportEventName>(event: E, listener: ExportEventListener<E>): () => void;
+
+  /**
+   * Export memories, reading them from the iterable as workers become free
+   * @param total - Number of memories, if known, for the stats and the number of workers
+   */
+  run(
+    memories: AsyncIterable<SnapchatMemory> | Iterable<SnapchatMemory>,
+    total?: number
+  ): Promise<ExportResult>;
+}
+
+/**
+ * Media of a memory before compositing, in temporary files
+ */
+interface SourceMedia {
+  readonly base: DownloadedMedia;
+  readonly overlayPath: string | null; // Not applied when null
+  readonly segments?: readonly MediaSegment[];
+}
+
+/**
+ * Create an export engine
+ * @param options - The export options: where and how to save, concurrency, delay, retries...
+ */
+export function createExportEngine(
+  options: ExportOptions,
+  engineOptions: ExportEngineOptions = {}
+): ExportEngine {
+  const { manifest, signedUrls, signal } = engineOptions;
+  const journal = manifest ? createManifestJournal(manifest) : null;
+  const rateController = createRateController({ maxConcurrency: options.concurrency });
+  const bandwidth = createBandwidthLimiter({ bytesPerSecond: options.maxBandwidth });
+  const breaker = createCircuitBreaker(options.maxConsecutiveFailures);
+  // Requests go through the proxy option or the proxy from the environment
+  const transport =
+    options.transport ?? createHttpTransport({ proxy: getProxySettings(options.proxy) });
+  const tempDir = getTempDir(options.outputDir);
+  let paused = false;
+  let stopped = false;
+  // Starts more workers when the concurrency is raised during a run
+  let addWorkers: (() => void) | null = null;
+
+  /**
+   * Wait while the workers are paused, until resumed, stopped or aborted
+   */
+  const waitWhilePaused = async (): Promise<void> => {
+    while (paused && !stopped && !signal?.aborted) {
+      await sleep(PAUSE_POLL_MS);
+    }
+  };
+
+  const listeners = new Map<ExportEventName, Set<(event: never) => void>>();
+  const emit = <E extends ExportEventName>(event: E, payload: ExportEvents[E]): void => {
+    for (const listener of listeners.get(event) ?? []) {
+      (listener as ExportEventListener<E>)(payload);
+    }
+  };
+
+  /**
+   * Turn the parts of a multi-segment video into the files to save
+   * Each part is composited with its overlay, then the parts are joined into one
+   * video, or kept as numbered parts with splitSegments. If compositing fails the
+   * plain parts are used, and if joining fails they are saved as numbered parts.
+   *
+   * @param tempFiles - Collects the temporary files written
+   */
+  const finishSegments = async (
+    memory: SnapchatMemory,
+    segments: readonly MediaSegment[],
+    skipOverlay: boolean,
+    tempFiles: string[]
+  ): Promise<DownloadedMedia[]> => {
+    tempFiles.push(
+      ...segments.flatMap((segment) => [
+        segment.path,
+        ...(segment.overlayPath ? [segment.overlayPath] : []),
+      ])
+    );
+
+    let parts: CompositeResult[] = await Promise.all(
+      segments.map(async (segment) => {
+        const format = await detectMediaFormat(segment.path, 'Video');
+        return { path: segment.path, contentType: format.contentType, extension: format.extension };
+      })
+    );
+    if (!skipOverlay && segments.some((segment) => segment.overlayPath)) {
+      try {
+        parts = await compositeSegments(segments);
+        tempFiles.push(...parts.map((part) => part.path));
+      } catch (error) {
+        // If compositing fails, use the base parts
+        if (error instanceof CompositeError) {
+          emit('warning', {
+            memory,
+            type: 'composite',
+            message: `Compositing failed: ${error.message}. Using base media.`,
+          });
+        }
+      }
+    }
+
+    if (options.splitSegments) {
+      return parts;
+    }
+    const joinedPath = join(
+      dirname(segments[0].path),
+      `${memory.mediaId}-joined.${parts[0].extension}`
+    );
+    tempFiles.push(joinedPath);
+    try {
+      return [
+        await concatVideos(
+          parts.map((part) => part.path),
+          joinedPath
+        ),
+      ];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      emit('warning', {
+        memory,
+        type: 'join',
+        message: `Joining the ${parts.length} parts failed: ${message}. Saving them as numbered parts.`,
+      });
+      return parts;
+    }
+  };
+
+  /**
+   * Composite a memory's media, falling back to the base media if that fails
+   * @returns The files to save: one, or the numbered parts of a multi-segment video
+   */
+  const finishMedia = async (
+    memory: SnapchatMemory,
+    source: SourceMedia,
+    skipOverlay: boolean,
+    tempFiles: string[]
+  ): Promise<DownloadedMedia[]> => {
+    if (source.segments) {
+      const files = await finishSegments(memory, source.segments, skipOverlay, tempFiles);
+      if (files[0].path !== source.segments[0].path) {
+        emit('composited', { memory, paths: files.map((file) => file.path) });
+      }
+      return files;
+    }
+    if (!source.overlayPath || skipOverlay) {
+      return [source.base];
+    }
+
+    try {
+      const composited = await compositeMedia(
+        source.base.path,
+        source.overlayPath,
+        memory.mediaType
+      );
+      tempFiles.push(composited.path);
+      emit('composited', { memory, paths: [composited.path] });
+      return [composited];
+    } catch (error) {
+      // If compositing fails, use base media
+      if (error instanceof CompositeError) {
+        emit('warning', {
+          memory,
+          type: 'composite',
+          message: `Compositing failed: ${error.message}. Using base media.`,
+        });
+      }
+      return [source.base];
+    }
+  };
+
+  /**
+   * Get the media of a memory: copied from the export or downloaded, with its overlay
+   * @returns The media, and whether overlays should be left off
+   */
+  const fetchMedia = async (
+    memory: SnapchatMemory,
+    tempFiles: string[]
+  ): Promise<{ source: SourceMedia; skipOverlay: boolean }> => {
+    const onRetry = (attempt: number, delay: number, error: Error): void => {
+      emit('retry', { memory, attempt, delay, error });
+    };
+    const downloadOptions = {
+      maxRetries: options.maxRetries,
+      transport,
+      tempDir,
+      rateController,
+      timeouts: options.timeouts,
+      signal,
+      signedUrls,
+      bandwidth,
+      onRetry,
+    };
+
+    if (memory.localMedia) {
+      // Media files included in the export, no download needed
+      const local = await copyLocalMedia(memory.localMedia, memory.mediaType, tempDir);
+      tempFiles.push(local.basePath, ...(local.overlayPath ? [local.overlayPath] : []));
+      return {
+        source: {
+          base: {
+            path: local.basePath,
+            contentType: local.baseFormat.contentType,
+            extension: local.baseFormat.extension,
+          },
+          overlayPath: local.overlayPath,
+        },
+        skipOverlay: options.skipOverlay,
+      };
+    }
+
+    // Try to download with overlay support if mediaDownloadUrl is available and not expired
+    if (memory.mediaDownloadUrl && !options.skipOverlay && !isOverlayExpired(memory)) {
+      try {
+        const extracted = await downloadMediaWithOverlay(memory, downloadOptions);
+        tempFiles.push(
+          extracted.basePath,
+          ...(extracted.overlayPath ? [extracted.overlayPath] : [])
+        );
+        return {
+          source: {
+            base: {
+              path: extracted.basePath,
+              contentType: extracted.baseFormat.contentType,
+              extension: extracted.baseFormat.extension,
+            },
+            overlayPath: extracted.overlayPath,
+            segments: extracted.segments,
+          },
+          skipOverlay: false,
+        };
+      } catch (error) {
+        // If overlay download fails, fall back to regular download
+        // This commonly happens when mediaDownloadUrl has expired
+        if (signal?.aborted) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        emit('warning', {
+          memory,
+          type: 'overlay-download',
+          message:
+            `Overlay download failed (${message.substring(0, 60)}). ` +
+            'Falling back to regular download (overlays will not be applied).',
+        });
+        const downloaded = await downloadMemory(memory, downloadOptions);
+        tempFiles.push(
+          downloaded.path,
+          ...(downloaded.additionalFiles ?? []).map((file) => file.path)
+        );
+        return {
+          source: { base: downloaded, overlayPath: null, segments: downloaded.segments },
+          skipOverlay: true,
+        };
+      }
+    }
+
+    // No usable mediaDownloadUrl, use regular download
+    const downloaded = await downloadMemory(memory, downloadOptions);
+    tempFiles.push(downloaded.path, ...(downloaded.additionalFiles ?? []).map((f) => f.path));
+    // A ZIP download can include the overlay
+    const overlayFile = downloaded.additionalFiles?.find((f) => f.type === 'overlay');
+    return {
+      source: {
+        base: downloaded,
+        overlayPath: overlayFile?.path ?? null,
+        segments: downloaded.segments,
+      },
+      skipOverlay: options.skipOverlay,
+    };
+  };
+
+  const on = <E extends ExportEventName>(
+    event: E,
+    listener: ExportEventListener<E>
+  ): (() => void) => {
+    const set = listeners.get(event) ?? new Set();
+    set.add(listener as (event: never) => void);
+    listeners.set(event, set);
+    return () => set.delete(listener as (event: never) => void);
+  };
+
+  return {
+    rateController,
+    bandwidth,
+    breaker,
+    on,
+
+    get concurrency(): number {
+      return rateController.maxConcurrency;
+    },
+
+    get paused(): boolean {
+      return paused;
+    },
+
+    get stopping(): boolean {
+      return stopped;
+    },
+
+    pause(): void {
+      paused = true;
+    },
+
+    resume(): void {
+      paused = false;
+    },
+
+    setConcurrency(concurrency: number): void {
+      rateController.setMaxConcurrency(concurrency);
+      addWorkers?.();
+    },
+
+    stop(): void {
+      stopped = true;
+    },
+
+    async run(
+      memories: AsyncIterable<SnapchatMemory> | Iterable<SnapchatMemory>,
+      total?: number
+    ): Promise<ExportResult> {
+      const stats: ExportStats = {
+        total: total ?? 0,
+        downloaded: 0,
+        skipped: 0,
+        failed: 0,
+        images: 0,
+        videos: 0,
+        retries: 0,
+      };
+      const savedPaths: string[] = [];
+      stopped = false;
+      const stopCountingRetries = on('retry', () => stats.retries++);
+
+      // Downloads are streamed to temporary files in the output directory
+      await ensureDir(tempDir);
+
+      /**
+       * Process a single memory: download, composite overlay if present, save, update stats
+       */
+      const processMemory = async (memory: SnapchatMemory): Promise<void> => {
+        // Temporary files of this memory, removed once it has been saved or has failed
+        const tempFiles: string[] = [];
+
+        try {
+          emit('downloading', { memory, local: !!memory.localMedia });
+          const { source, skipOverlay } = await fetchMedia(memory, tempFiles);
+          if (!memory.localMedia) breaker.recordSuccess();
+          const files = await finishMedia(memory, source, skipOverlay, tempFiles);
+
+          let filePaths: string[];
+          try {
+            // Numbered parts are saved as part 1, 2, ...
+            filePaths = [];
+            for (const [index, file] of files.entries()) {
+              const part = files.length > 1 ? index + 1 : undefined;
+              filePaths.push(await saveMemory(memory, file, options, part));
+            }
+          } catch (error) {
+            if (error instanceof Error && error.message === 'File already exists') {
+              stats.skipped++;
+              emit('skipped', { memory, reason: error.message });
+            } else {
+              stats.failed++;
+              emit('failed', { memory, error: toError(error) });
+            }
+            return;
+          }
+
+          if (manifest && journal) {
+            try {
+              // Add to manifest and its journal (ensures resume capability)
+              const sizes = await Promise.all(
+                filePaths.map(async (path) => (await stat(path)).size)
+              );
+              const entry = addManifestEntry(
+                manifest,
+                memory,
+                filePaths[0],
+                sizes.reduce((sum, size) => sum + size, 0),
+                filePaths.length > 1 ? filePaths : undefined
+              );
+              await journal.append(entry);
+            } catch (error) {
+              // Not a download failure, so not for the circuit breaker
+              stats.failed++;
+              const message = error instanceof Error ? error.message : String(error);
+              emit('failed', { memory, error: new ManifestWriteError(filePaths[0], message) });
+              return;
+            }
+          }
+
+          stats.downloaded++;
+          savedPaths.push(...filePaths);
+          if (memory.mediaType === 'Image') {
+            stats.images++;
+          } else {
+            stats.videos++;
+          }
+          emit('saved', { memory, paths: filePaths });
+        } catch (error) {
+          stats.failed++;
+          // Downloads cut off by the signal say nothing about the links
+          if (!memory.localMedia && !signal?.aborted) breaker.recordFailure(error);
+          emit('failed', { memory, error: toError(error) });
+        } finally {
+          // The saved file has been moved out already
+          await Promise.all(tempFiles.map((path) => rm(path, { force: true })));
+        }
+      };
+
+      // Workers pull from a shared iterator, so memories are read as they are needed
+      const queue = (async function* (): AsyncGenerator<SnapchatMemory> {
+        yield* memories;
+      })();
+      let started = 0;
+
+      /**
+       * Worker that pulls from queue and processes with delay
+       */
+      const worker = async (): Promise<void> => {
+        for (;;) {
+          await waitWhilePaused();
+          // Wait until the rate controller lets this worker download
+          await rateController.acquire();
+          let memory: SnapchatMemory;
+          try {
+            // Paused while waiting for the slot
+            if (paused && !stopped && !signal?.aborted) continue;
+            // No new downloads once stopped, the breaker has opened or the run was aborted
+            const next = stopped || breaker.trip || signal?.aborted ? null : await queue.next();
+            if (!next || next.done) break;
+            memory = next.value;
+            started++;
+            if (total === undefined) stats.total++;
+            emit('queued', { memory });
+
+            await processMemory(memory);
+          } finally {
+            // Also when reading the next memory from the source fails
+            rateController.release();
+          }
+
+          // Rate limiting delay (included media files are not downloaded)
+          if ((total === undefined || started < total) && !memory.localMedia) {
+            await sleep(options.delay);
+          }
+        }
+      };
+
+      // Start concurrent workers with staggered starts
+      const concurrency = Math.max(1, Math.min(rateController.maxConcurrency, total ?? Infinity));
+      const workers: Promise<void>[] = [];
+      for (let i = 0; i < concurrency; i++) {
+        // Stagger worker starts to avoid burst of requests
+        if (i > 0) {
+          await sleep(options.delay / concurrency);
+        }
+        workers.push(worker());
+      }
+      addWorkers = (): void => {
+        const wanted = Math.min(rateController.maxConcurrency, total ?? Infinity);
+        while (workers.length < wanted) {
+          workers.push(worker());
+        }
+      };
+      // The concurrency may have been raised during the staggered start
+      addWorkers();
+
+      try {
+        // Workers can be added while waiting. When one fails (e.g. reading the
+        // source), the others finish their memories before the error is thrown.
+        let failure: PromiseRejectedResult | undefined;
+        for (let waited = 0; waited < workers.length; ) {
+          const pending = workers.slice(waited);
+          waited = workers.length;
+          for (const result of await Promise.allSettled(pending)) {
+            if (result.status === 'rejected') failure ??= result;
+          }
+        }
+        if (failure) throw failure.reason;
+      } finally {
+        addWorkers = null;
+        stopCountingRetries();
+        // Compact the journal into the manifest, so a stopped or failed run resumes from a snapshot
+        await journal?.compact();
+      }
+
+      // Partial downloads of failed memories are kept so the next run can resume them
+      try {
+        await rmdir(tempDir);
+      } catch {
+        // Not empty
+      }
+
+      return { stats, savedPaths, trip: breaker.trip, stopped };
+    },
+  };
+}
+
+/**
+ * Turn a thrown value into an Error for the failed event
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
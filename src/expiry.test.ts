@@ -0,0 +1,113 @@
+/**
+ * Tests for the expiry module
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createExpiryTriage,
+  formatExpiryReport,
+  getMemoryExpiry,
+  isOverlayExpired,
+  sortByExpiry,
+} from './expiry.js';
+import { SnapchatMemory } from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.parse('2024-01-15T12:00:00Z');
+
+/**
+ * Memory whose links were generated the given number of hours before now
+ */
+const memoryFor = (
+  mediaId: string,
+  downloadAgeHours: number | null,
+  overlayAgeHours: number | null = null
+): SnapchatMemory => {
+  const url = (path: string, ageHours: number | null): string =>
+    `https://app.snapchat.com/${path}?mid=${mediaId}` +
+    (ageHours === null ? '' : `&ts=${now - ageHours * HOUR_MS}`);
+  return {
+    date: new Date('2024-01-01T10:00:00Z'),
+    mediaType: 'Image',
+    location: null,
+    downloadUrl: url('dmd/memories', downloadAgeHours),
+    mediaDownloadUrl: overlayAgeHours === null ? null : url('dmd/mm', overlayAgeHours),
+    mediaId,
+  };
+};
+
+describe('getMemoryExpiry', () => {
+  it('should give download links days and overlay links hours', () => {
+    const expiry = getMemoryExpiry(memoryFor('a', 0, 0));
+
+    expect(expiry.downloadExpiresAt).toBe(now + 7 * 24 * HOUR_MS);
+    expect(expiry.overlayExpiresAt).toBe(now + 6 * HOUR_MS);
+    expect(getMemoryExpiry(memoryFor('b', null))).toEqual({
+      downloadExpiresAt: null,
+      overlayExpiresAt: null,
+    });
+  });
+
+  it('should check overlay links one memory at a time', () => {
+    expect(isOverlayExpired(memoryFor('fresh', 1, 1), now)).toBe(false);
+    expect(isOverlayExpired(memoryFor('stale', 1, 7), now)).toBe(true);
+    expect(isOverlayExpired(memoryFor('none', 1), now)).toBe(false);
+  });
+});
+
+describe('sortByExpiry', () => {
+  it('should put the earliest expiring links first and expired ones last', () => {
+    const memories = [
+      memoryFor('expired', 200),
+      memoryFor('unknown', null),
+      memoryFor('late', 1),
+      memoryFor('early', 100),
+      memoryFor('overlay-soon', 1, 5),
+      memoryFor('overlay-gone', 1, 10),
+    ];
+
+    const order = sortByExpiry(memories, { now }).map((memory) => memory.mediaId);
+
+    // An expired overlay link no longer counts, the download link does
+    expect(order).toEqual(['overlay-soon', 'early', 'late', 'overlay-gone', 'unknown', 'expired']);
+    expect(sortByExpiry(memories, { now, skipOverlay: true })[0].mediaId).toBe('early');
+  });
+});
+
+describe('createExpiryTriage', () => {
+  it('should report which memories are likely to make it in time', () => {
+    const triage = createExpiryTriage({ now });
+    triage.add(memoryFor('a', 1));
+    triage.add(memoryFor('b', 167.5)); // Expires in 30 minutes
+    triage.add(memoryFor('c', 167.5));
+    triage.add(memoryFor('d', 200));
+    triage.add(memoryFor('e', null, 8));
+
+    // A download starts every 35 minutes: c's turn comes after its links expire
+    const report = triage.report(35 * 60 * 1000);
+
+    expect(triage.isScheduleOrdered).toBe(false);
+    expect(report).toMatchObject({
+      total: 5,
+      likelyToSucceed: 3,
+      expiringBeforeTurn: 1,
+      expired: 1,
+      unknown: 1,
+      overlaysExpired: 1,
+      firstExpiry: now + 30 * 60 * 1000,
+      lastExpiry: now + 167 * HOUR_MS,
+      firstMissedExpiry: now + 30 * 60 * 1000,
+    });
+    expect(formatExpiryReport(report)).toContain('3 of 5 likely to succeed');
+    expect(formatExpiryReport(report)).toContain('Already expired: 1');
+  });
+
+  it('should notice when the memories are already in download order', () => {
+    const triage = createExpiryTriage({ now });
+    triage.add(memoryFor('a', 100));
+    triage.add(memoryFor('b', 1));
+    triage.add(memoryFor('c', null));
+
+    expect(triage.isScheduleOrdered).toBe(true);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Expiry module for triaging memories by when their download links expire
+ *
+ * Snapchat's download URLs carry a 'ts' parameter with the time they were
+ * generated. Export links (downloadUrl) stay valid for days, overlay links
+ * (mediaDownloadUrl) only for hours, so every memory is checked on its own:
+ * the ones closest to expiring are downloaded first, and overlays are only
+ * skipped where their link has actually expired.
+ */
+
+import { getUrlTimestamp } from './parser.js';
+import { SnapchatMemory } from './types.js';
+
+/**
+ * Hours overlay links (mediaDownloadUrl) are assumed to stay valid
+ * Snapchat's overlay URLs typically expire within 6-12 hours
+ */
+export const URL_EXPIRATION_HOURS = 6;
+
+/**
+ * Hours an export's download links (downloadUrl) are assumed to stay valid
+ */
+export const DOWNLOAD_URL_EXPIRATION_HOURS = 7 * 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * When the download links of a memory are likely to expire
+ */
+export interface MemoryExpiry {
+  readonly downloadExpiresAt: number | null; // null when the URL has no timestamp
+  readonly overlayExpiresAt: number | null; // null without a mediaDownloadUrl or timestamp
+}
+
+/**
+ * Estimate when the download links of a memory expire
+ */
+export function getMemoryExpiry(memory: SnapchatMemory): MemoryExpiry {
+  const downloadTs = getUrlTimestamp(memory.downloadUrl);
+  const overlayTs = memory.mediaDownloadUrl ? getUrlTimestamp(memory.mediaDownloadUrl) : null;
+
+  return {
+    downloadExpiresAt:
+      downloadTs === null ? null : downloadTs + DOWNLOAD_URL_EXPIRATION_HOURS * HOUR_MS,
+    overlayExpiresAt: overlayTs === null ? null : overlayTs + URL_EXPIRATION_HOURS * HOUR_MS,
+  };
+}
+
+/**
+ * Check if the overlay link (mediaDownloadUrl) of a memory has likely expired
+ * Memories without an overlay link, or without a timestamp in it, are not expired.
+ */
+export function isOverlayExpired(memory: SnapchatMemory, now: number = Date.now()): boolean {
+  const { overlayExpiresAt } = getMemoryExpiry(memory);
+  return overlayExpiresAt !== null && overlayExpiresAt <= now;
+}
+
+/**
+ * Where a memory goes in the download order
+ */
+interface ScheduleKey {
+  readonly rank: number; // 0: expiry known, 1: unknown, 2: download link already expired
+  readonly expiresAt: number; // Earliest expiry of the links still to be used
+}
+
+/**
+ * Get the scheduling key of a memory
+ * @param skipOverlay - Whether overlays are skipped for the whole run
+ */
+function getScheduleKey(memory: SnapchatMemory, now: number, skipOverlay: boolean): ScheduleKey {
+  const { downloadExpiresAt, overlayExpiresAt } = getMemoryExpiry(memory);
+  if (downloadExpiresAt !== null && downloadExpiresAt <= now) {
+    // Tried last, so they don't hold up memories that can still make it
+    return { rank: 2, expiresAt: downloadExpiresAt };
+  }
+
+  const expiries = [downloadExpiresAt];
+  if (!skipOverlay && overlayExpiresAt !== null && overlayExpiresAt > now) {
+    expiries.push(overlayExpiresAt);
+  }
+  const known = expiries.filter((expiresAt): expiresAt is number => expiresAt !== null);
+  return known.length > 0
+    ? { rank: 0, expiresAt: Math.min(...known) }
+    : { rank: 1, expiresAt: Infinity };
+}
+
+/**
+ * Compare two scheduling keys, the one to download first sorts first
+ */
+function compareScheduleKeys(a: ScheduleKey, b: ScheduleKey): number {
+  return a.rank - b.rank || (a.expiresAt === b.expiresAt ? 0 : a.expiresAt < b.expiresAt ? -1 : 1);
+}
+
+/**
+ * Sort memories so the ones whose links expire first are downloaded first
+ * Memories with unknown expiry follow, and ones whose download link has already
+ * expired come last. The sort is stable, so export order breaks ties.
+ */
+export function sortByExpiry<T extends SnapchatMemory>(
+  memories: readonly T[],
+  options: { skipOverlay?: boolean; now?: number } = {}
+): T[] {
+  const { skipOverlay = false, now = Date.now() } = options;
+  const keys = new Map(
+    memories.map((memory) => [memory, getScheduleKey(memory, now, skipOverlay)])
+  );
+  return [...memories].sort((a, b) => compareScheduleKeys(keys.get(a)!, keys.get(b)!));
+}
+
+/**
+ * Pre-run report on the link expiry of the memories to download
+ */
+export interface ExpiryReport {
+  readonly total: number;
+  readonly likelyToSucceed: number; // Links still valid at their estimated turn, or no expiry known
+  readonly expiringBeforeTurn: number; // Valid now, but likely expired before their turn comes
+  readonly expired: number; // Download links already expired
+  readonly unknown: number; // Links without a timestamp
+  readonly overlaysExpired: number; // Overlay links already expired, downloaded without overlay
+  readonly firstExpiry: number | null; // Earliest expiry of the download links still valid
+  readonly lastExpiry: number | null; // Latest expiry of the download links still valid
+  readonly firstMissedExpiry: number | null; // Earliest expiry among expiringBeforeTurn
+}
+
+/**
+ * Collects the expiry of memories one at a time, e.g. while streaming an export
+ */
+export interface ExpiryTriage {
+  /**
+   * Whether the memories added so far are already in download order
+   */
+  readonly isScheduleOrdered: boolean;
+
+  /**
+   * Add a memory that is going to be downloaded
+   */
+  add(memory: SnapchatMemory): void;
+
+  /**
+   * Build the report, estimating when each memory's turn comes
+   * @param msPerMemory - Estimated time between the starts of two downloads
+   */
+  report(msPerMemory: number): ExpiryReport;
+}
+
+/**
+ * Create an empty expiry triage
+ * @param options.skipOverlay - Whether overlays are skipped for the whole run
+ * @param options.now - Start of the run
+ */
+export function createExpiryTriage(
+  options: { skipOverlay?: boolean; now?: number } = {}
+): ExpiryTriage {
+  const { skipOverlay = false, now = Date.now() } = options;
+  // Scheduling key and download link expiry of each memory, kept without the memory itself
+  const entries: { key: ScheduleKey; downloadExpiresAt: number | null }[] = [];
+  let overlaysExpired = 0;
+  let ordered = true;
+
+  return {
+    get isScheduleOrdered(): boolean {
+      return ordered;
+    },
+
+    add(memory: SnapchatMemory): void {
+      const key = getScheduleKey(memory, now, skipOverlay);
+      const previous = entries[entries.length - 1];
+      if (previous && compareScheduleKeys(previous.key, key) > 0) {
+        ordered = false;
+      }
+      entries.push({ key, downloadExpiresAt: getMemoryExpiry(memory).downloadExpiresAt });
+      if (!skipOverlay && isOverlayExpired(memory, now)) {
+        overlaysExpired++;
+      }
+    },
+
+    report(msPerMemory: number): ExpiryReport {
+      const scheduled = [...entries].sort((a, b) => compareScheduleKeys(a.key, b.key));
+      let likelyToSucceed = 0;
+      let expiringBeforeTurn = 0;
+      let expired = 0;
+      let unknown = 0;
+      let firstExpiry: number | null = null;
+      let lastExpiry: number | null = null;
+      let firstMissedExpiry: number | null = null;
+
+      for (const [index, { downloadExpiresAt }] of scheduled.entries()) {
+        if (downloadExpiresAt === null) {
+          unknown++;
+          likelyToSucceed++;
+          continue;
+        }
+        if (downloadExpiresAt <= now) {
+          expired++;
+          continue;
+        }
+
+        firstExpiry = Math.min(firstExpiry ?? Infinity, downloadExpiresAt);
+        lastExpiry = Math.max(lastExpiry ?? 0, downloadExpiresAt);
+        if (downloadExpiresAt > now + index * msPerMemory) {
+          likelyToSucceed++;
+        } else {
+          expiringBeforeTurn++;
+          firstMissedExpiry = Math.min(firstMissedExpiry ?? Infinity, downloadExpiresAt);
+        }
+      }
+
+      return {
+        total: entries.length,
+        likelyToSucceed,
+        expiringBeforeTurn,
+        expired,
+        unknown,
+        overlaysExpired,
+        firstExpiry,
+        lastExpiry,
+        firstMissedExpiry,
+      };
+    },
+  };
+}
+
+/**
+ * Format a time for the expiry report, e.g. "Jan 15, 10:30 AM"
+ */
+function formatExpiryTime(time: number): string {
+  return new Date(time).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Format an expiry report for display
+ */
+export function formatExpiryReport(report: ExpiryReport): string {
+  const lines = [`Link expiry: ${report.likelyToSucceed} of ${report.total} likely to succeed`];
+
+  if (report.firstExpiry !== null && report.lastExpiry !== null) {
+    lines.push(
+      report.firstExpiry === report.lastExpiry
+        ? `  Links expire: ${formatExpiryTime(report.firstExpiry)}`
+        : `  Links expire: ${formatExpiryTime(report.firstExpiry)} - ${formatExpiryTime(report.lastExpiry)}`
+    );
+  }
+  if (report.expiringBeforeTurn > 0 && report.firstMissedExpiry !== null) {
+    lines.push(
+      `  Likely to expire before their turn: ${report.expiringBeforeTurn} (from ${formatExpiryTime(report.firstMissedExpiry)})`
+    );
+  }
+  if (report.expired > 0) {
+    lines.push(`  Already expired: ${report.expired} (tried last)`);
+  }
+  if (report.unknown > 0) {
+    lines.push(`  Without an expiry time: ${report.unknown}`);
+  }
+  if (report.overlaysExpired > 0) {
+    lines.push(`  Overlay links expired: ${report.overlaysExpired} (saved without overlay)`);
+  }
+
+  return lines.join('\n');
+}
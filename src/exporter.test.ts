@@ -0,0 +1,84 @@
+/**
+ * Tests for the exporter module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { generateOutputPath, getTempDir, saveMemory } from './exporter.js';
+import { createFetchTransport } from './transport.js';
+import { ExportOptions, SnapchatMemory } from './types.js';
+
+const memoryFor = (mediaId: string): SnapchatMemory => ({
+  date: new Date('2024-01-15T10:30:00Z'),
+  mediaType: 'Image',
+  location: null,
+  downloadUrl: `https://app.snapchat.com/dmd/memories?mid=${mediaId}`,
+  mediaDownloadUrl: null,
+  mediaId,
+});
+
+describe('saveMemory', () => {
+  let outputDir: string;
+  let options: ExportOptions;
+
+  beforeEach(async () => {
+    outputDir = await mkdtemp(join(tmpdir(), 'snapchat-exporter-'));
+    options = {
+      outputDir,
+      format: 'date',
+      dryRun: false,
+      skipExisting: true,
+      delay: 0,
+      concurrency: 1,
+      maxRetries: 0,
+      importToPhotos: false,
+      limit: null,
+      skipOverlay: false,
+      offline: false,
+      transport: createFetchTransport(),
+    };
+  });
+
+  afterEach(async () => {
+    await rm(outputDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a downloaded file to the temporary folder
+   */
+  const download = async (name: string): Promise<string> => {
+    const path = join(getTempDir(outputDir), name);
+    await mkdir(getTempDir(outputDir), { recursive: true });
+    await writeFile(path, 'gif');
+    return path;
+  };
+
+  it('should move the downloaded file into place', async () => {
+    const memory = memoryFor('exporter-1');
+    const path = await download('exporter-1.download');
+
+    const saved = await saveMemory(
+      memory,
+      { path, contentType: 'image/gif', extension: 'gif' },
+      options
+    );
+
+    expect(saved).toBe(generateOutputPath(memory, 'gif', options));
+    expect(await readFile(saved, 'utf-8')).toBe('gif');
+    expect(await readdir(getTempDir(outputDir))).toEqual([]);
+  });
+
+  it('should leave the download in place when the file already exists', async () => {
+    const memory = memoryFor('exporter-2');
+    const media = { contentType: 'image/gif', extension: 'gif' };
+    await saveMemory(memory, { ...media, path: await download('first.download') }, options);
+    const path = await download('second.download');
+
+    await expect(saveMemory(memory, { ...media, path }, options)).rejects.toThrow(
+      'File already exists'
+    );
+    expect(await readdir(getTempDir(outputDir))).toEqual(['second.download']);
+  });
+});
@@ -2,16 +2,19 @@
  * Exporter module for organizing and writing downloaded media
  */
 
-import { mkdir, writeFile, access } from 'node:fs/promises';
+import { mkdir, access, copyFile, rename, rm } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import { ExportOptions, ExportStats, SnapchatMemory } from './types.js';
-import { BatchDownloadResult, DownloadedMedia } from './downloader.js';
-import { embedMetadata, supportsExif } from './metadata.js';
+import { DownloadedMedia } from './downloader.js';
+import { embedMetadata, supportsMetadata } from './metadata.js';
+
+const TEMP_DIRNAME = '.snapchat-export-tmp';
 
 /**
  * Generate filename for a memory
+ * @param part - Number of the part, for videos saved as numbered parts
  */
-export function generateFilename(memory: SnapchatMemory, extension: string): string {
+export function generateFilename(memory: SnapchatMemory, extension: string, part?: number): string {
   const date = memory.date;
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -23,7 +26,9 @@ export function generateFilename(memory: SnapchatMemory, extension: string): str
   const mediaPrefix = memory.mediaType === 'Image' ? 'photo' : 'video';
   const shortId = memory.mediaId.substring(0, 8);
 
-  return `${year}-${month}-${day}_${hours}${minutes}${seconds}_${mediaPrefix}_${shortId}.${extension}`;
+  const partSuffix = part === undefined ? '' : `_part${part}`;
+
+  return `${year}-${month}-${day}_${hours}${minutes}${seconds}_${mediaPrefix}_${shortId}${partSuffix}.${extension}`;
 }
 
 /**
@@ -32,9 +37,10 @@ export function generateFilename(memory: SnapchatMemory, extension: string): str
 export function generateOutputPath(
   memory: SnapchatMemory,
   extension: string,
-  options: ExportOptions
+  options: ExportOptions,
+  part?: number
 ): string {
-  const filename = generateFilename(memory, extension);
+  const filename = generateFilename(memory, extension, part);
 
   if (options.format === 'flat') {
     return join(options.outputDir, filename);
@@ -47,6 +53,14 @@ export function generateOutputPath(
   return join(options.outputDir, year, month, filename);
 }
 
+/**
+ * Get the folder downloads are written to before they are moved into place
+ * Keeping it in the output directory lets saveMemory move files instead of copying them.
+ */
+export function getTempDir(outputDir: string): string {
+  return join(outputDir, TEMP_DIRNAME);
+}
+
 /**
  * Check if a file exists
  */
@@ -66,15 +80,34 @@ export async function ensureDir(path: string): Promise<void> {
   await mkdir(path, { recursive: true });
 }
 
+/**
+ * Move a file, copying it when the destination is on another file system
+ */
+async function moveFile(source: string, destination: string): Promise<void> {
+  try {
+    await rename(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await copyFile(source, destination);
+    await rm(source, { force: true });
+  }
+}
+
 /**
  * Save a downloaded memory to disk with metadata
+ * The downloaded file is moved into place, not copied through memory.
+ *
+ * @param part - Number of the part, for videos saved as numbered parts
  */
 export async function saveMemory(
   memory: SnapchatMemory,
   media: DownloadedMedia,
-  options: ExportOptions
+  options: ExportOptions,
+  part?: number
 ): Promise<string> {
-  const outputPath = generateOutputPath(memory, media.extension, options);
+  const outputPath = generateOutputPath(memory, media.extension, options, part);
 
   // Skip if file exists and skipExisting is true
   if (options.skipExisting && (await fileExists(outputPath))) {
@@ -84,11 +117,11 @@ export async function saveMemory(
   // Ensure output directory exists
   await ensureDir(dirname(outputPath));
 
-  // Write main file
-  await writeFile(outputPath, media.data);
+  // Move main file into place
+  await moveFile(media.path, outputPath);
 
   // Embed metadata if supported
-  if (supportsExif(media.extension)) {
+  if (supportsMetadata(media.extension)) {
     try {
       await embedMetadata(outputPath, memory);
     } catch (error) {
@@ -102,53 +135,6 @@ export async function saveMemory(
   return outputPath;
 }
 
-/**
- * Process batch download results and save to disk
- */
-export async function processDownloadResults(
-  results: readonly BatchDownloadResult[],
-  options: ExportOptions
-): Promise<ExportStats> {
-  const stats: ExportStats = {
-    total: results.length,
-    downloaded: 0,
-    skipped: 0,
-    failed: 0,
-    images: 0,
-    videos: 0,
-    retries: 0,
-  };
-
-  for (const result of results) {
-    if (!result.success || !result.media) {
-      stats.failed++;
-      continue;
-    }
-
-    try {
-      await saveMemory(result.memory, result.media, options);
-      stats.downloaded++;
-
-      if (result.memory.mediaType === 'Image') {
-        stats.images++;
-      } else {
-        stats.videos++;
-      }
-    } catch (error) {
-      if (error instanceof Error && error.message === 'File already exists') {
-        stats.skipped++;
-      } else {
-        stats.failed++;
-        console.error(
-          `Error saving ${result.memory.mediaId}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-    }
-  }
-
-  return stats;
-}
-
 /**
  * Format export stats for display
  */
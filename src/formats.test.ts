@@ -0,0 +1,97 @@
+/**
+ * Tests for the format adapter registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  ExportFormatAdapter,
+  getFormatAdapters,
+  registerFormatAdapter,
+  unregisterFormatAdapter,
+} from './formats.js';
+import { detectExportFormats, loadMemories } from './parser.js';
+
+describe('format adapters', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `formats-test-${Date.now()}`);
+    await mkdir(join(testDir, 'json'), { recursive: true });
+    await writeFile(
+      join(testDir, 'json', 'memories_history.json'),
+      JSON.stringify({
+        'Saved Media': [
+          {
+            Date: '2025-12-30 16:47:52 UTC',
+            'Media Type': 'Image',
+            Location: '',
+            'Download Link': 'https://app.snapchat.com/dmd/memories?mid=from-json',
+          },
+        ],
+      })
+    );
+  });
+
+  afterEach(async () => {
+    unregisterFormatAdapter('csv');
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should register the JSON adapter before the HTML adapter', () => {
+    expect(getFormatAdapters().map((adapter) => adapter.name)).toEqual(['json', 'html']);
+  });
+
+  it('should explain which adapter matched', async () => {
+    const [match] = await detectExportFormats(testDir);
+
+    expect(match.adapter?.name).toBe('json');
+    expect(match.detection?.reason).toContain('"Saved Media" key (English)');
+  });
+
+  it('should detect localized keys written with escapes', async () => {
+    await writeFile(
+      join(testDir, 'json', 'memories_history.json'),
+      '{"M\\u00e9dias enregistr\\u00e9s": []}'
+    );
+
+    const [match] = await detectExportFormats(testDir);
+
+    expect(match.adapter?.name).toBe('json');
+    expect(match.detection?.reason).toContain('"Médias enregistrés" key (Français)');
+  });
+
+  it('should use a registered adapter without changes to the parser', async () => {
+    const csvAdapter: ExportFormatAdapter = {
+      name: 'csv',
+      description: 'Test CSV export',
+      detect: (path) =>
+        Promise.resolve({
+          file: { path: join(path, 'memories.csv'), type: 'csv', source: path },
+          reason: 'always matches',
+        }),
+      async *parse() {
+        yield {
+          date: new Date('2024-01-01T00:00:00Z'),
+          mediaType: 'Video',
+          location: null,
+          downloadUrl: 'https://example.com/csv',
+          mediaDownloadUrl: null,
+          mediaId: 'from-csv',
+        };
+      },
+    };
+
+    registerFormatAdapter(csvAdapter, { before: 'json' });
+    expect(() => registerFormatAdapter(csvAdapter)).toThrow('already registered');
+
+    const memories = await loadMemories(testDir);
+    expect(memories.map((m) => m.mediaId)).toEqual(['from-csv']);
+    expect(memories[0].source).toBe(testDir);
+
+    expect(unregisterFormatAdapter('csv')).toBe(true);
+    expect((await loadMemories(testDir)).map((m) => m.mediaId)).toEqual(['from-json']);
+  });
+});
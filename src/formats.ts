@@ -0,0 +1,122 @@
+/**
+ * Format adapter registry for Snapchat export files
+ *
+ * Each adapter knows how to recognize one memories file format in an export
+ * part (folder or ZIP archive) and how to parse it. Adapters are tried in
+ * registration order and the first one that detects its format wins, so new
+ * or third-party formats can be added with registerFormatAdapter without
+ * changes to the parser. The built-in JSON and HTML adapters are registered by
+ * the parser module.
+ */
+
+import { MemoriesFileResult, ParseError, ParseReport, SnapchatMemory } from './types.js';
+
+/**
+ * A memories file recognized by an adapter, with the reason it matched
+ */
+export interface FormatDetection {
+  readonly file: MemoriesFileResult;
+  readonly reason: string; // Shown by --format-info
+}
+
+/**
+ * Adapter for one memories file format
+ */
+export interface ExportFormatAdapter {
+  readonly name: string; // Unique name, stored as MemoriesFileResult.type
+  readonly description: string;
+
+  /**
+   * Look for this format in an export part
+   * @param path - Export folder or ZIP archive
+   * @returns The memories file found, or null if the format is not present
+   */
+  detect(path: string): Promise<FormatDetection | null>;
+
+  /**
+   * Parse a memories file found by detect
+   * Entries that cannot be parsed are skipped and recorded in the report.
+   */
+  parse(file: MemoriesFileResult, report: ParseReport): AsyncIterable<SnapchatMemory>;
+}
+
+/**
+ * Outcome of running the adapters over one export part
+ */
+export interface FormatMatch {
+  readonly part: string; // Export folder or ZIP archive
+  readonly adapter: ExportFormatAdapter | null; // null if no adapter recognized the part
+  readonly detection: FormatDetection | null;
+}
+
+const adapters: ExportFormatAdapter[] = [];
+
+/**
+ * Register a format adapter
+ *
+ * @param adapter - Adapter to add
+ * @param options.before - Name of an adapter this one should be tried before
+ * @throws Error if an adapter with the same name is already registered
+ */
+export function registerFormatAdapter(
+  adapter: ExportFormatAdapter,
+  options: { before?: string } = {}
+): void {
+  if (adapters.some((existing) => existing.name === adapter.name)) {
+    throw new Error(`Format adapter "${adapter.name}" is already registered`);
+  }
+
+  const index = options.before
+    ? adapters.findIndex((existing) => existing.name === options.before)
+    : -1;
+  if (index === -1) {
+    adapters.push(adapter);
+  } else {
+    adapters.splice(index, 0, adapter);
+  }
+}
+
+/**
+ * Remove a format adapter
+ * @returns true if the adapter was registered
+ */
+export function unregisterFormatAdapter(name: string): boolean {
+  const index = adapters.findIndex((adapter) => adapter.name === name);
+  if (index === -1) {
+    return false;
+  }
+  adapters.splice(index, 1);
+  return true;
+}
+
+/**
+ * Get the registered format adapters, in the order they are tried
+ */
+export function getFormatAdapters(): readonly ExportFormatAdapter[] {
+  return [...adapters];
+}
+
+/**
+ * Find the first registered adapter that recognizes an export part
+ */
+export async function detectExportFormat(part: string): Promise<FormatMatch> {
+  for (const adapter of adapters) {
+    const detection = await adapter.detect(part);
+    if (detection) {
+      return { part, adapter, detection };
+    }
+  }
+  return { part, adapter: null, detection: null };
+}
+
+/**
+ * Get a registered format adapter by name
+ * @throws ParseError if no adapter has that name
+ */
+export function getFormatAdapter(name: string): ExportFormatAdapter {
+  const adapter = adapters.find((candidate) => candidate.name === name);
+  if (!adapter) {
+    throw new ParseError(`No format adapter registered for "${name}"`);
+  }
+  return adapter;
+}
@@ -0,0 +1,133 @@
+/**
+ * HTML table reader for memories_history.html
+ *
+ * Reads tables through a DOM instead of matching exact markup, so attributes,
+ * extra wrappers and reordered or additional columns don't break parsing.
+ */
+
+import { HTMLElement, parse } from 'node-html-parser';
+import { normalizeName } from './locale.js';
+
+/**
+ * A single table cell with its text and any URLs it links to
+ */
+export interface HtmlTableCell {
+  readonly text: string;
+  readonly urls: readonly string[]; // From href, onclick handlers, data attributes or text
+}
+
+/**
+ * A data row of an HTML table
+ */
+export interface HtmlTableRow {
+  readonly headers: readonly string[]; // Normalized header names, one per column ('' if unnamed)
+  readonly cells: readonly HtmlTableCell[];
+}
+
+/**
+ * Attributes that may carry a download URL
+ */
+const URL_ATTRIBUTES = ['href', 'data-url', 'data-href', 'data-download-url'];
+
+/**
+ * Matches quoted http(s) URLs inside event handler code
+ * Example: onclick="downloadMemories('https://...', this, true); return false;"
+ */
+const QUOTED_URL_PATTERN = /['"](https?:\/\/[^'"]+)['"]/g;
+
+/**
+ * Matches bare http(s) URLs in cell text
+ */
+const TEXT_URL_PATTERN = /https?:\/\/\S+/g;
+
+/**
+ * Collect every URL referenced by an element and its descendants, in document order
+ */
+function extractUrls(cell: HTMLElement): string[] {
+  const urls: string[] = [];
+  const add = (url: string): void => {
+    const trimmed = url.trim();
+    if (/^https?:\/\//i.test(trimmed) && !urls.includes(trimmed)) {
+      urls.push(trimmed);
+    }
+  };
+
+  for (const element of [cell, ...cell.querySelectorAll('*')]) {
+    for (const attribute of URL_ATTRIBUTES) {
+      const value = element.getAttribute(attribute);
+      if (value) add(value);
+    }
+
+    const onclick = element.getAttribute('onclick');
+    if (onclick) {
+      for (const match of onclick.matchAll(QUOTED_URL_PATTERN)) {
+        add(match[1]);
+      }
+    }
+  }
+
+  for (const match of cell.text.matchAll(TEXT_URL_PATTERN)) {
+    add(match[0]);
+  }
+
+  return urls;
+}
+
+/**
+ * Get the cells of a row, ignoring cells of nested tables
+ */
+function getRowCells(row: HTMLElement): HTMLElement[] {
+  return row.childNodes.filter(
+    (node): node is HTMLElement =>
+      node instanceof HTMLElement && (node.tagName === 'TD' || node.tagName === 'TH')
+  );
+}
+
+/**
+ * Get the rows of a table, ignoring rows of nested tables
+ */
+function getTableRows(table: HTMLElement): HTMLElement[] {
+  return table.querySelectorAll('tr').filter((row) => row.closest('table') === table);
+}
+
+/**
+ * Read the data rows of every table in an HTML document
+ *
+ * A row made only of <th> cells is used as the header row for the rows that
+ * follow it. When a table has no such row, `isHeaderRow` can promote a plain
+ * <td> row to header. Rows without any <td> cells are skipped.
+ */
+export function readHtmlTableRows(
+  html: string,
+  isHeaderRow: (texts: readonly string[]) => boolean = () => false
+): HtmlTableRow[] {
+  const root = parse(html);
+  const rows: HtmlTableRow[] = [];
+
+  for (const table of root.querySelectorAll('table')) {
+    let headers: string[] = [];
+
+    for (const row of getTableRows(table)) {
+      const cells = getRowCells(row);
+      if (cells.length === 0) continue;
+
+      const texts = cells.map((cell) => normalizeName(cell.text));
+      const allHeaderCells = cells.every((cell) => cell.tagName === 'TH');
+
+      if (allHeaderCells || (headers.length === 0 && isHeaderRow(texts))) {
+        headers = texts;
+        continue;
+      }
+
+      rows.push({
+        headers,
+        cells: cells.map((cell) => ({
+          text: cell.text.trim(),
+          urls: extractUrls(cell),
+        })),
+      });
+    }
+  }
+
+  return rows;
+}
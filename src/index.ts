@@ -22,7 +22,7 @@ async function main(): Promise<void> {
       }
 
       // Run the export with interactive config
-      await runExport(config.exportPath, {
+      await runExport(config.exportPaths, {
         outputDir: config.outputDir,
         format: config.format,
         dryRun: false,
@@ -32,7 +32,9 @@ async function main(): Promise<void> {
         maxRetries: DEFAULT_MAX_RETRIES,
         importToPhotos: config.importToPhotos,
         limit: null,
-        skipOverlay: config.skipOverlay,
+        skipOverlay: false, // Overlays are still skipped where their links expired
+        offline: config.offline,
+        timeouts: config.timeouts,
         // Pass pre-loaded memories to avoid re-loading
         preloadedMemories: config.filteredMemories,
       });
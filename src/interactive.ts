@@ -6,12 +6,20 @@ import { input, confirm, select } from '@inquirer/prompts';
 import { stat, readdir } from 'node:fs/promises';
 import { resolve, join } from 'node:path';
 import { homedir } from 'node:os';
-import { loadMemories } from './parser.js';
-import { checkOverlayUrlsExpired } from './downloader.js';
-import { SnapchatMemory } from './types.js';
+import { isZipPath } from './archive.js';
+import { loadMemoriesWithReport } from './parser.js';
+import {
+  createParseReport,
+  formatParseReport,
+  formatRejectedEntry,
+  hasParseIssues,
+} from './report.js';
+import { DEFAULT_REQUEST_TIMEOUTS } from './downloader.js';
+import { createExpiryTriage, ExpiryReport, formatExpiryReport } from './expiry.js';
+import { ParseReport, RequestTimeouts, SnapchatMemory } from './types.js';
 
 /**
- * Represents a found Snapchat export folder
+ * Represents a found Snapchat export folder or ZIP archive
  */
 interface FoundExport {
   readonly path: string;
@@ -34,7 +42,7 @@ function getSearchLocations(): string[] {
 }
 
 /**
- * Search a directory for Snapchat export folders (mydata~*)
+ * Search a directory for Snapchat export folders (mydata~*) and ZIPs (mydata~*.zip)
  * Searches the directory itself and one level of subdirectories
  */
 async function searchDirectoryForExports(dir: string, depth = 0): Promise<FoundExport[]> {
@@ -45,7 +53,15 @@ async function searchDirectoryForExports(dir: string, depth = 0): Promise<FoundE
     const entries = await readdir(dir, { withFileTypes: true });
 
     for (const entry of entries) {
-      if (entry.isDirectory()) {
+      if (entry.isFile() && entry.name.startsWith('mydata~') && isZipPath(entry.name)) {
+        // Found an export ZIP that has not been extracted
+        const timestamp = entry.name.replace('mydata~', '').replace(/\.zip$/i, '');
+        exports.push({
+          path: join(dir, entry.name),
+          name: entry.name,
+          timestamp,
+        });
+      } else if (entry.isDirectory()) {
         const fullPath = join(dir, entry.name);
 
         if (entry.name.startsWith('mydata~')) {
@@ -147,17 +163,56 @@ export const SPEED_PRESETS: Record<string, SpeedPreset> = {
   },
 };
 
+/**
+ * Network timeout preset
+ */
+export interface TimeoutPreset {
+  readonly name: string;
+  readonly timeouts: RequestTimeouts;
+  readonly description: string;
+}
+
+export const TIMEOUT_PRESETS: Record<string, TimeoutPreset> = {
+  normal: {
+    name: 'Normal',
+    timeouts: DEFAULT_REQUEST_TIMEOUTS,
+    description: 'Recommended',
+  },
+  patient: {
+    name: 'Patient',
+    timeouts: { connectMs: 30_000, headersMs: 120_000, idleMs: 300_000 },
+    description: 'For slow or unreliable connections',
+  },
+  strict: {
+    name: 'Strict',
+    timeouts: { connectMs: 5_000, headersMs: 15_000, idleMs: 20_000 },
+    description: 'Retry stalled downloads sooner',
+  },
+};
+
+/**
+ * Describe timeouts in seconds, e.g. "connect 15s, response 30s, idle 60s"
+ */
+function formatTimeouts(timeouts: RequestTimeouts): string {
+  const seconds = (ms: number): string => (ms > 0 ? `${ms / 1000}s` : 'off');
+  return (
+    `connect ${seconds(timeouts.connectMs)}, response ${seconds(timeouts.headersMs)}, ` +
+    `idle ${seconds(timeouts.idleMs)}`
+  );
+}
+
 /**
  * Interactive session configuration result
  */
 export interface InteractiveConfig {
-  readonly exportPath: string;
+  readonly exportPaths: readonly string[];
   readonly outputDir: string;
   readonly format: 'date' | 'flat';
   readonly importToPhotos: boolean;
   readonly concurrency: number;
   readonly delay: number;
-  readonly skipOverlay: boolean;
+  readonly offline: boolean;
+  readonly timeouts: RequestTimeouts;
   readonly dateFilter: {
     enabled: boolean;
     startDate?: Date;
@@ -179,13 +234,13 @@ function printBanner(): void {
 }
 
 /**
- * Validate that a path exists and is a directory
+ * Validate that a path exists and is a directory or ZIP archive
  */
 async function validateExportPath(path: string): Promise<boolean> {
   try {
     const resolved = resolve(path.trim());
     const stats = await stat(resolved);
-    return stats.isDirectory();
+    return stats.isDirectory() || (stats.isFile() && isZipPath(resolved));
   } catch {
     return false;
   }
@@ -250,6 +305,25 @@ function filterByDateRange(
   });
 }
 
+/**
+ * Maximum number of skipped entries listed in the terminal
+ */
+const MAX_REJECTED_SHOWN = 20;
+
+/**
+ * Print entries that were skipped while parsing
+ */
+function printRejectedEntries(report: ParseReport): void {
+  console.log();
+  for (const rejected of report.rejected.slice(0, MAX_REJECTED_SHOWN)) {
+    console.log(`  ${formatRejectedEntry(rejected)}`);
+  }
+  if (report.rejected.length > MAX_REJECTED_SHOWN) {
+    console.log(`  ... and ${report.rejected.length - MAX_REJECTED_SHOWN} more`);
+  }
+  console.log();
+}
+
 /**
  * Estimate download time
  */
@@ -278,8 +352,9 @@ export async function runInteractivePrompts(): Promise<InteractiveConfig | null>
   printBanner();
 
   // Step 1: Get export path
-  let exportPath = '';
+  let exportPaths: string[] = [];
   let memories: SnapchatMemory[] = [];
+  let report: ParseReport = createParseReport();
   let pathValid = false;
 
   // Search for existing Snapchat exports
@@ -299,19 +374,28 @@ export async function runInteractivePrompts(): Promise<InteractiveConfig | null>
       { name: 'Enter a different path...', value: '__manual__' },
     ];
 
+    // Multi-part and repeated exports can be merged into one run
+    if (foundExports.length > 1) {
+      choices.splice(foundExports.length, 0, {
+        name: `All ${foundExports.length} exports (merged, duplicates removed)`,
+        value: '__all__',
+      });
+    }
+
     const selectedPath = await select({
       message: 'Select a Snapchat export:',
       choices,
     });
 
     if (selectedPath !== '__manual__') {
-      exportPath = selectedPath;
+      exportPaths =
+        selectedPath === '__all__' ? foundExports.map((exp) => exp.path) : [selectedPath];
 
       // Try to load memories from selected path
       try {
         console.log();
         console.log('  Loading memories...');
-        memories = await loadMemories(exportPath);
+        ({ memories, report } = await loadMemoriesWithReport(exportPaths));
 
         if (memories.length > 0) {
           pathValid = true;
@@ -329,8 +413,8 @@ export async function runInteractivePrompts(): Promise<InteractiveConfig | null>
 
   // Manual path entry (if no exports found or user chose manual entry)
   while (!pathValid) {
-    exportPath = await input({
-      message: 'Path to your Snapchat export folder:',
+    const enteredPath = await input({
+      message: 'Path to your Snapchat export folder or ZIP:',
       validate: async (value) => {
         const trimmed = value.trim();
         if (!trimmed) {
@@ -338,19 +422,19 @@ export async function runInteractivePrompts(): Promise<InteractiveConfig | null>
         }
         const isValid = await validateExportPath(trimmed);
         if (!isValid) {
-          return 'Path does not exist or is not a directory';
+          return 'Path does not exist or is not a directory or ZIP file';
         }
         return true;
       },
     });
 
-    exportPath = resolve(exportPath.trim());
+    exportPaths = [resolve(enteredPath.trim())];
 
     // Try to load memories
     try {
       console.log();
       console.log('  Loading memories...');
-      memories = await loadMemories(exportPath);
+      ({ memories, report } = await loadMemoriesWithReport(exportPaths));
 
       if (memories.length === 0) {
         console.log('  No memories found in this export.');
@@ -389,8 +473,27 @@ export async function runInteractivePrompts(): Promise<InteractiveConfig | null>
   console.log(`  - ${videos} videos`);
   console.log(`  - ${withLocation} with GPS location`);
   console.log(`  - Date range: ${formatDate(earliest)} - ${formatDate(latest)}`);
+  const sourceCount = new Set(memories.map((m) => m.source)).size;
+  if (sourceCount > 1) {
+    console.log(`  - Merged from ${sourceCount} exports`);
+  }
   console.log();
 
+  // Show entries that could not be parsed before going any further
+  if (hasParseIssues(report)) {
+    console.log(formatParseReport(report).replace(/^/gm, '  '));
+    console.log();
+  }
+  if (report.rejected.length > 0) {
+    const showRejected = await confirm({
+      message: 'Show skipped entries?',
+      default: false,
+    });
+    if (showRejected) {
+      printRejectedEntries(report);
+    }
+  }
+
   // Step 2: Output directory
   const outputDir = await input({
     message: 'Output directory:',
@@ -461,65 +564,102 @@ export async function runInteractivePrompts(): Promise<InteractiveConfig | null>
     default: true,
   });
 
-  // Step 6: Download speed
-  const speedChoice = await select({
-    message: 'Download speed:',
-    choices: [
-      {
-        name: `Normal - ${SPEED_PRESETS.normal.concurrency} parallel (${SPEED_PRESETS.normal.description})`,
-        value: 'normal',
-      },
-      {
-        name: `Fast - ${SPEED_PRESETS.fast.concurrency} parallel (${SPEED_PRESETS.fast.description})`,
-        value: 'fast',
-      },
-      {
-        name: `Slow - ${SPEED_PRESETS.slow.concurrency} parallel (${SPEED_PRESETS.slow.description})`,
-        value: 'slow',
-      },
-    ],
-    default: 'normal',
-  });
-
-  const speedPreset = SPEED_PRESETS[speedChoice];
-
-  // Check overlay URL expiration
-  let skipOverlay = false;
-  const expirationInfo = checkOverlayUrlsExpired(filteredMemories);
-  if (expirationInfo?.isExpired) {
-    console.log();
-    console.log(`  Note: Overlay URLs appear expired (${expirationInfo.ageHours} hours old).`);
-    console.log('  Overlays will not be applied to photos/videos.');
-    console.log('  For overlays, request a fresh Snapchat export and run immediately.');
-    skipOverlay = true;
-  } else if (expirationInfo && expirationInfo.ageHours > 3) {
+  // Step 6: Media files shipped with the export
+  let offline = false;
+  const localCount = filteredMemories.filter((m) => m.localMedia).length;
+  if (localCount > 0) {
     console.log();
     console.log(
-      `  Note: Export is ${expirationInfo.ageHours} hours old. Overlay URLs may expire soon.`
+      `  ${localCount} of ${filteredMemories.length} memories have media files included in the export.`
     );
+    offline = await confirm({
+      message: 'Use only the included media files (no downloads)?',
+      default: localCount === filteredMemories.length,
+    });
   }
 
-  // Step 7: Confirmation
+  // Step 7: Download speed
+  const speedChoice = offline
+    ? 'normal'
+    : await select({
+        message: 'Download speed:',
+        choices: [
+          {
+            name: `Normal - ${SPEED_PRESETS.normal.concurrency} parallel (${SPEED_PRESETS.normal.description})`,
+            value: 'normal',
+          },
+          {
+            name: `Fast - ${SPEED_PRESETS.fast.concurrency} parallel (${SPEED_PRESETS.fast.description})`,
+            value: 'fast',
+          },
+          {
+            name: `Slow - ${SPEED_PRESETS.slow.concurrency} parallel (${SPEED_PRESETS.slow.description})`,
+            value: 'slow',
+          },
+        ],
+        default: 'normal',
+      });
+
+  const speedPreset = SPEED_PRESETS[speedChoice];
+
+  // Step 8: Network timeouts
+  const timeoutChoice = offline
+    ? 'normal'
+    : await select({
+        message: 'Network timeouts:',
+        choices: ['normal', 'patient', 'strict'].map((value) => ({
+          name: `${TIMEOUT_PRESETS[value].name} - ${formatTimeouts(TIMEOUT_PRESETS[value].timeouts)} (${TIMEOUT_PRESETS[value].description})`,
+          value,
+        })),
+        default: 'normal',
+      });
+
+  const timeoutPreset = TIMEOUT_PRESETS[timeoutChoice];
+
+  // Check when the download links expire (local files carry their own overlays)
+  let expiryReport: ExpiryReport | null = null;
+  if (!offline) {
+    const expiry = createExpiryTriage();
+    for (const memory of filteredMemories) {
+      if (!memory.localMedia) expiry.add(memory);
+    }
+    expiryReport = expiry.report(speedPreset.delay / speedPreset.concurrency);
+    if (expiryReport.total > 0) {
+      console.log();
+      console.log(formatExpiryReport(expiryReport).replace(/^/gm, '  '));
+    }
+  }
+
+  // Step 9: Confirmation
   console.log();
   console.log('-------------------------------------------');
   console.log('  Summary');
   console.log('-------------------------------------------');
-  console.log(`  Memories to download: ${filteredMemories.length}`);
+  if (offline) {
+    console.log(`  Memories to export: ${localCount} (from included media files)`);
+  } else {
+    console.log(`  Memories to download: ${filteredMemories.length}`);
+  }
   console.log(`  Output: ${resolve(outputDir)}`);
   console.log(`  Organization: ${format === 'date' ? 'By date' : 'Flat'}`);
   console.log(`  Apple Photos: ${importToPhotos ? 'Yes' : 'No'}`);
-  console.log(`  Speed: ${speedPreset.name} (${speedPreset.concurrency} parallel)`);
-  if (skipOverlay) {
-    console.log('  Overlays: Disabled (URLs expired)');
+  if (!offline) {
+    console.log(`  Speed: ${speedPreset.name} (${speedPreset.concurrency} parallel)`);
+    console.log(`  Timeouts: ${timeoutPreset.name} (${formatTimeouts(timeoutPreset.timeouts)})`);
+  }
+  if (expiryReport && expiryReport.overlaysExpired > 0) {
+    console.log(`  Overlays: Skipped for ${expiryReport.overlaysExpired} memories (URLs expired)`);
+  }
+  if (!offline) {
+    console.log(
+      `  Estimated time: ${estimateTime(filteredMemories.length, speedPreset.delay, speedPreset.concurrency)}`
+    );
   }
-  console.log(
-    `  Estimated time: ${estimateTime(filteredMemories.length, speedPreset.delay, speedPreset.concurrency)}`
-  );
   console.log('-------------------------------------------');
   console.log();
 
   const proceed = await confirm({
-    message: 'Start download?',
+    message: offline ? 'Start export?' : 'Start download?',
     default: true,
   });
 
@@ -529,13 +669,14 @@ export async function runInteractivePrompts(): Promise<InteractiveConfig | null>
   }
 
   return {
-    exportPath,
+    exportPaths,
     outputDir: resolve(outputDir),
     format,
     importToPhotos,
     concurrency: speedPreset.concurrency,
-    delay: speedPreset.delay,
-    skipOverlay,
+    delay: offline ? 0 : speedPreset.delay,
+    offline,
+    timeouts: timeoutPreset.timeouts,
     dateFilter,
     memories,
     filteredMemories,
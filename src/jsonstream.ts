@@ -0,0 +1,196 @@
+/**
+ * Incremental JSON scanner for large Snapchat export files
+ *
+ * memories_history.json is a single object whose "Saved Media" array can hold
+ * tens of thousands of entries. Instead of parsing the whole document at once,
+ * this scanner walks the text chunk by chunk and hands back one array element
+ * at a time, so only a single entry is ever held as a string.
+ */
+
+/**
+ * Error thrown when the streamed document does not have the expected shape
+ */
+export class JsonStreamError extends Error {
+  constructor(
+    public readonly kind: 'structure' | 'syntax',
+    message: string
+  ) {
+    super(message);
+    this.name = 'JsonStreamError';
+  }
+}
+
+/**
+ * Check if a character is JSON whitespace
+ */
+function isWhitespace(ch: string): boolean {
+  return ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+}
+
+/**
+ * Parse the text of one array element
+ */
+function parseElement(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new JsonStreamError('syntax', `Invalid JSON array element: ${text.substring(0, 100)}`);
+  }
+}
+
+/**
+ * Decode the raw text between the quotes of a string, escapes included
+ */
+function decodeString(raw: string): string {
+  try {
+    return JSON.parse(`"${raw}"`) as string;
+  } catch {
+    throw new JsonStreamError('syntax', `Invalid JSON string: ${raw.substring(0, 100)}`);
+  }
+}
+
+/**
+ * Stream the elements of an array stored under `key` in a top-level JSON object
+ *
+ * @param source - Text chunks of the JSON document, in order
+ * @param key - Name of the top-level property holding the array, or several
+ *   alternative names (the first one present is used)
+ * @returns Async iterator over the parsed array elements
+ * @throws JsonStreamError if the document is not an object with an array under `key`
+ */
+export async function* streamJsonArray(
+  source: AsyncIterable<string>,
+  key: string | readonly string[]
+): AsyncGenerator<unknown> {
+  const keys: readonly string[] = typeof key === 'string' ? [key] : key;
+
+  let started = false; // Seen the opening '{' of the top-level object
+  let depth = 0; // Current nesting depth ({ and [)
+  let inString = false;
+  let escaped = false;
+
+  // Tracking of top-level property names, as raw text with escapes
+  let stringText = '';
+  let lastString: string | null = null;
+  let currentKey: string | null = null;
+
+  // Tracking of the target array and the element being collected
+  let inTarget = false;
+  let found = false;
+  let elementActive = false;
+  let elementParts: string[] = [];
+
+  for await (const chunk of source) {
+    let elementStart = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+          if (depth === 1) stringText += ch;
+        } else if (ch === '\\') {
+          escaped = true;
+          if (depth === 1) stringText += ch;
+        } else if (ch === '"') {
+          inString = false;
+          if (depth === 1) lastString = decodeString(stringText);
+        } else if (depth === 1) {
+          stringText += ch;
+        }
+        continue;
+      }
+
+      if (!started) {
+        if (isWhitespace(ch)) continue;
+        if (ch !== '{') {
+          throw new JsonStreamError('structure', 'Expected a JSON object at the top level');
+        }
+        started = true;
+        depth = 1;
+        continue;
+      }
+
+      // Between elements of the target array
+      if (inTarget && depth === 2 && !elementActive) {
+        if (isWhitespace(ch) || ch === ',') continue;
+        if (ch === ']') {
+          inTarget = false;
+          found = true;
+          depth = 1;
+          continue;
+        }
+        elementActive = true;
+        elementStart = i;
+      }
+
+      switch (ch) {
+        case '"':
+          inString = true;
+          if (depth === 1) stringText = '';
+          break;
+        case '{':
+        case '[':
+          if (
+            ch === '[' &&
+            depth === 1 &&
+            currentKey !== null &&
+            keys.includes(currentKey) &&
+            !found
+          ) {
+            inTarget = true;
+          }
+          depth++;
+          break;
+        case '}':
+        case ']':
+          depth--;
+          if (inTarget && elementActive && depth === 2) {
+            // Closing brace/bracket of an object or array element
+            elementParts.push(chunk.slice(elementStart, i + 1));
+            yield parseElement(elementParts.join(''));
+            elementParts = [];
+            elementActive = false;
+          } else if (inTarget && depth === 1) {
+            // Array closed right after a primitive element
+            if (elementActive) {
+              elementParts.push(chunk.slice(elementStart, i));
+              yield parseElement(elementParts.join(''));
+              elementParts = [];
+              elementActive = false;
+            }
+            inTarget = false;
+            found = true;
+          }
+          break;
+        case ':':
+          if (depth === 1) currentKey = lastString;
+          break;
+        case ',':
+          if (depth === 1) {
+            currentKey = null;
+          } else if (inTarget && elementActive && depth === 2) {
+            // End of a primitive element
+            elementParts.push(chunk.slice(elementStart, i));
+            yield parseElement(elementParts.join(''));
+            elementParts = [];
+            elementActive = false;
+          }
+          break;
+      }
+    }
+
+    if (elementActive) {
+      elementParts.push(chunk.slice(elementStart));
+    }
+  }
+
+  if (!started || inTarget) {
+    throw new JsonStreamError('syntax', 'Unexpected end of JSON input');
+  }
+
+  if (!found) {
+    throw new JsonStreamError('structure', `Expected "${keys.join('" or "')}" array`);
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Locale module for reading Snapchat exports downloaded in other languages
+ *
+ * Localized exports keep the same structure as English ones but translate key
+ * names, media type labels and the location prefix, and may write coordinates
+ * with a decimal comma. Each supported language has a mapping table below;
+ * add a table to EXPORT_LOCALES to support another language.
+ */
+
+import { MediaType } from './types.js';
+
+/**
+ * Fields of a "Saved Media" entry, named after the English export keys
+ */
+export type ExportField = 'date' | 'mediaType' | 'location' | 'downloadLink' | 'mediaDownloadUrl';
+
+/**
+ * Mapping table for one export language
+ */
+export interface ExportLocale {
+  readonly code: string; // ISO 639-1 language code
+  readonly name: string;
+  readonly savedMediaKeys: readonly string[]; // Top-level key holding the entries
+  readonly fields: Readonly<Record<ExportField, readonly string[]>>; // Entry keys / HTML headers
+  readonly mediaTypes: Readonly<Record<string, MediaType>>; // Media type label -> media type
+  readonly locationPrefixes: readonly string[]; // Text before the coordinates
+  readonly utcSuffixes: readonly string[]; // Time zone suffix after the date
+  readonly decimalComma: boolean; // Coordinates may use ',' as decimal separator
+}
+
+/**
+ * English export (the original format)
+ */
+export const ENGLISH_LOCALE: ExportLocale = {
+  code: 'en',
+  name: 'English',
+  savedMediaKeys: ['Saved Media'],
+  fields: {
+    date: ['Date'],
+    mediaType: ['Media Type'],
+    location: ['Location'],
+    downloadLink: ['Download Link'],
+    mediaDownloadUrl: ['Media Download Url'],
+  },
+  mediaTypes: { Image: 'Image', Video: 'Video' },
+  locationPrefixes: ['Latitude, Longitude:'],
+  utcSuffixes: ['UTC'],
+  decimalComma: false,
+};
+
+/**
+ * German export
+ */
+export const GERMAN_LOCALE: ExportLocale = {
+  code: 'de',
+  name: 'Deutsch',
+  savedMediaKeys: ['Gespeicherte Medien'],
+  fields: {
+    date: ['Datum'],
+    mediaType: ['Medientyp', 'Medienart'],
+    location: ['Standort', 'Ort'],
+    downloadLink: ['Download-Link', 'Downloadlink'],
+    mediaDownloadUrl: ['Medien-Download-URL', 'Medien-Download-Url'],
+  },
+  mediaTypes: { Bild: 'Image', Foto: 'Image', Video: 'Video' },
+  locationPrefixes: ['Breitengrad, Längengrad:'],
+  utcSuffixes: ['UTC', 'KWZ'],
+  decimalComma: true,
+};
+
+/**
+ * French export
+ */
+export const FRENCH_LOCALE: ExportLocale = {
+  code: 'fr',
+  name: 'Français',
+  savedMediaKeys: ['Médias enregistrés', 'Médias sauvegardés'],
+  fields: {
+    date: ['Date'],
+    mediaType: ['Type de média', 'Type de contenu'],
+    location: ['Lieu', 'Localisation', 'Emplacement'],
+    downloadLink: ['Lien de téléchargement'],
+    mediaDownloadUrl: ['URL de téléchargement du média'],
+  },
+  mediaTypes: { Image: 'Image', Photo: 'Image', Vidéo: 'Video', Video: 'Video' },
+  locationPrefixes: ['Latitude, Longitude :'],
+  utcSuffixes: ['UTC', 'TUC'],
+  decimalComma: true,
+};
+
+/**
+ * Spanish export
+ */
+export const SPANISH_LOCALE: ExportLocale = {
+  code: 'es',
+  name: 'Español',
+  savedMediaKeys: ['Medios guardados', 'Contenido guardado'],
+  fields: {
+    date: ['Fecha'],
+    mediaType: ['Tipo de medio', 'Tipo de contenido'],
+    location: ['Ubicación', 'Ubicacion'],
+    downloadLink: ['Enlace de descarga'],
+    mediaDownloadUrl: ['URL de descarga de medios', 'URL de descarga del medio'],
+  },
+  mediaTypes: { Imagen: 'Image', Foto: 'Image', Vídeo: 'Video', Video: 'Video' },
+  locationPrefixes: ['Latitud, Longitud:'],
+  utcSuffixes: ['UTC', 'TUC'],
+  decimalComma: true,
+};
+
+/**
+ * All supported export locales, English first
+ */
+export const EXPORT_LOCALES: readonly ExportLocale[] = [
+  ENGLISH_LOCALE,
+  GERMAN_LOCALE,
+  FRENCH_LOCALE,
+  SPANISH_LOCALE,
+];
+
+/**
+ * Normalize a key or header name for comparison
+ */
+export function normalizeName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Detect the locale of an export from key or header names
+ *
+ * Scores each locale by how many of the names it knows and returns the best
+ * match, preferring English on ties. Returns English when nothing matches.
+ */
+export function detectExportLocale(names: Iterable<string>): ExportLocale {
+  const normalized = new Set(Array.from(names, normalizeName));
+  let best = ENGLISH_LOCALE;
+  let bestScore = 0;
+
+  for (const locale of EXPORT_LOCALES) {
+    const known = [...locale.savedMediaKeys, ...Object.values(locale.fields).flat()];
+    const score = known.filter((name) => normalized.has(normalizeName(name))).length;
+    if (score > bestScore) {
+      best = locale;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Get every top-level "Saved Media" key known in any locale
+ */
+export function getSavedMediaKeys(): string[] {
+  return EXPORT_LOCALES.flatMap((locale) => locale.savedMediaKeys);
+}
+
+/**
+ * Check if a key or header name is one of a locale's names for a field
+ */
+export function isFieldName(name: string, field: ExportField, locale: ExportLocale): boolean {
+  const normalized = normalizeName(name);
+  return locale.fields[field].some((candidate) => normalizeName(candidate) === normalized);
+}
+
+/**
+ * Read a field from a raw entry using the locale's key names
+ * Falls back to the English key so mixed exports still parse.
+ */
+export function getEntryField(
+  entry: Readonly<Record<string, unknown>>,
+  field: ExportField,
+  locale: ExportLocale
+): unknown {
+  for (const key of [...locale.fields[field], ...ENGLISH_LOCALE.fields[field]]) {
+    if (key in entry) {
+      return entry[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map a localized media type label to a media type
+ * Checks the locale's table first, then every other table, ignoring case.
+ */
+export function lookupMediaType(label: string, locale: ExportLocale): MediaType | null {
+  const normalized = normalizeName(label);
+
+  for (const table of [locale, ...EXPORT_LOCALES]) {
+    for (const [candidate, mediaType] of Object.entries(table.mediaTypes)) {
+      if (normalizeName(candidate) === normalized) {
+        return mediaType;
+      }
+    }
+  }
+
+  return null;
+}
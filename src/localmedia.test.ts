@@ -0,0 +1,100 @@
+/**
+ * Tests for the local media module
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import AdmZip from 'adm-zip';
+import {
+  copyLocalMedia,
+  indexLocalMedia,
+  matchLocalMedia,
+  parseLocalMediaName,
+} from './localmedia.js';
+import { SnapchatMemory } from './types.js';
+
+const memoryFor = (mediaId: string, date: string): SnapchatMemory => ({
+  date: new Date(date),
+  mediaType: 'Image',
+  location: null,
+  downloadUrl: `https://app.snapchat.com/dmd/memories?mid=${mediaId}`,
+  mediaDownloadUrl: null,
+  mediaId,
+});
+
+describe('parseLocalMediaName', () => {
+  it('should read date, ID and role', () => {
+    expect(parseLocalMediaName('2024-01-15_7100ED9D-1D95-4723-97AB-5CA9B22FC4A1-main.jpg')).toEqual(
+      { date: '2024-01-15', id: '7100ED9D-1D95-4723-97AB-5CA9B22FC4A1', role: 'main' }
+    );
+    expect(parseLocalMediaName('2024-01-15_ABC-overlay.png')).toEqual({
+      date: '2024-01-15',
+      id: 'ABC',
+      role: 'overlay',
+    });
+  });
+
+  it('should treat files without a role or date as main media', () => {
+    expect(parseLocalMediaName('2024-01-15_ABC.mp4')).toEqual({
+      date: '2024-01-15',
+      id: 'ABC',
+      role: 'main',
+    });
+    expect(parseLocalMediaName('ABC.mp4')).toEqual({ date: null, id: 'ABC', role: 'main' });
+    expect(parseLocalMediaName('README')).toBeNull();
+  });
+});
+
+describe('local media index', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `localmedia-test-${Date.now()}`);
+    await mkdir(join(testDir, 'memories'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should match main and overlay files by ID and date', async () => {
+    await writeFile(join(testDir, 'memories', '2024-01-15_ABC-main.jpg'), 'main');
+    await writeFile(join(testDir, 'memories', '2024-01-15_ABC-overlay.png'), 'overlay');
+    await writeFile(join(testDir, 'memories', '2023-03-01_ABC-main.jpg'), 'older');
+
+    const index = await indexLocalMedia([testDir]);
+    const match = matchLocalMedia(index, memoryFor('abc', '2024-01-15T10:00:00Z'));
+
+    expect(match?.main.path).toBe(join(testDir, 'memories', '2024-01-15_ABC-main.jpg'));
+    expect(match?.overlay?.path).toBe(join(testDir, 'memories', '2024-01-15_ABC-overlay.png'));
+
+    await mkdir(join(testDir, 'tmp'));
+    const media = await copyLocalMedia(match!, 'Image', join(testDir, 'tmp'));
+    expect(await readFile(media.basePath, 'utf-8')).toBe('main');
+    expect(await readFile(media.overlayPath!, 'utf-8')).toBe('overlay');
+
+    // Several dates, none of them the memory's: ambiguous
+    expect(matchLocalMedia(index, memoryFor('ABC', '2022-01-01T00:00:00Z'))).toBeNull();
+    expect(matchLocalMedia(index, memoryFor('OTHER', '2024-01-15T00:00:00Z'))).toBeNull();
+  });
+
+  it('should index media files inside ZIP archives', async () => {
+    const zip = new AdmZip();
+    zip.addFile('mydata~1/memories/2024-02-01_ZIPPED-main.mp4', Buffer.from('video'));
+    zip.addFile('mydata~1/json/memories_history.json', Buffer.from('{}'));
+    const zipPath = join(testDir, 'mydata~1.zip');
+    zip.writeZip(zipPath);
+
+    const index = await indexLocalMedia([zipPath]);
+    const match = matchLocalMedia(index, memoryFor('ZIPPED', '2024-02-01T23:00:00Z'));
+
+    expect(match).toEqual({
+      main: { path: 'mydata~1/memories/2024-02-01_ZIPPED-main.mp4', zipPath },
+      overlay: null,
+    });
+    const media = await copyLocalMedia(match!, 'Video', testDir);
+    expect(await readFile(media.basePath, 'utf-8')).toBe('video');
+  });
+});
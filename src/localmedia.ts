@@ -0,0 +1,166 @@
+/**
+ * Local media module for exports that already contain the media files
+ *
+ * Newer exports can ship a memories/ folder next to json/ and html/, with files
+ * named after the memory date and media ID, often as a pair:
+ *   2024-01-15_7100ED9D-1D95-4723-97AB-5CA9B22FC4A1-main.jpg
+ *   2024-01-15_7100ED9D-1D95-4723-97AB-5CA9B22FC4A1-overlay.png
+ * Matching these files to memories lets an export run without the network.
+ */
+
+import { copyFile, readdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { extractZipEntry, isZipPath, listZipEntries } from './archive.js';
+import { ExtractedMediaContents } from './downloader.js';
+import { detectMediaFormat } from './sniff.js';
+import { LocalMedia, LocalMediaFile, MediaType, SnapchatMemory } from './types.js';
+
+/**
+ * A local media file with the details read from its name
+ */
+interface IndexedMediaFile {
+  readonly file: LocalMediaFile;
+  readonly date: string | null; // YYYY-MM-DD
+  readonly role: 'main' | 'overlay';
+}
+
+/**
+ * Local media files of an export, keyed by lowercase media ID
+ */
+export type LocalMediaIndex = ReadonlyMap<string, readonly IndexedMediaFile[]>;
+
+/**
+ * File names of local media
+ * Example: "2024-01-15_<media id>-main.jpg", "2024-01-15_<media id>.mp4"
+ */
+const LOCAL_MEDIA_NAME = /^(?:(\d{4}-\d{2}-\d{2})_)?(.+?)(?:-(main|overlay))?\.[a-z0-9]+$/i;
+
+/**
+ * Entry names of local media inside a Snapchat export ZIP
+ */
+const ZIP_MEDIA_ENTRY = /(^|\/)memories\/[^/]+$/;
+
+/**
+ * Read the date, media ID and role from a local media file name
+ */
+export function parseLocalMediaName(
+  name: string
+): { date: string | null; id: string; role: 'main' | 'overlay' } | null {
+  const match = name.match(LOCAL_MEDIA_NAME);
+  if (!match) {
+    return null;
+  }
+
+  const role = match[3]?.toLowerCase() === 'overlay' ? 'overlay' : 'main';
+  return { date: match[1] ?? null, id: match[2], role };
+}
+
+/**
+ * List the media files in a folder's memories/ directory, or a ZIP's memories/ entries
+ */
+async function listLocalMediaFiles(source: string): Promise<LocalMediaFile[]> {
+  try {
+    if (isZipPath(source)) {
+      const entries = await listZipEntries(source);
+      return entries
+        .filter((name) => ZIP_MEDIA_ENTRY.test(name))
+        .map((name) => ({ path: name, zipPath: source }));
+    }
+
+    const folder = join(source, 'memories');
+    const entries = await readdir(folder, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => ({ path: join(folder, entry.name) }));
+  } catch {
+    // No memories folder, or not a readable ZIP archive
+    return [];
+  }
+}
+
+/**
+ * Index the media files shipped with one or more export parts
+ *
+ * @param sources - Export folders or ZIP archives to scan
+ */
+export async function indexLocalMedia(sources: readonly string[]): Promise<LocalMediaIndex> {
+  const index = new Map<string, IndexedMediaFile[]>();
+
+  for (const source of sources) {
+    for (const file of await listLocalMediaFiles(source)) {
+      const parsed = parseLocalMediaName(basename(file.path));
+      if (!parsed) continue;
+
+      const key = parsed.id.toLowerCase();
+      const files = index.get(key) ?? [];
+      files.push({ file, date: parsed.date, role: parsed.role });
+      index.set(key, files);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Find the local media files of a memory by media ID and date
+ *
+ * Files with the memory's (UTC) date are preferred. When none has that date,
+ * the files are only used if they all share one date, so two memories with the
+ * same ID are never mixed up.
+ */
+export function matchLocalMedia(index: LocalMediaIndex, memory: SnapchatMemory): LocalMedia | null {
+  const candidates = index.get(memory.mediaId.toLowerCase());
+  if (!candidates || candidates.length === 0) {
+    return null;
+  }
+
+  const day = memory.date.toISOString().substring(0, 10);
+  let files = candidates.filter((candidate) => candidate.date === day);
+  if (files.length === 0 && candidates.every((c) => c.date === candidates[0].date)) {
+    files = [...candidates];
+  }
+
+  const main = files.find((candidate) => candidate.role === 'main');
+  if (!main) {
+    return null;
+  }
+
+  const overlay = files.find((candidate) => candidate.role === 'overlay');
+  return { main: main.file, overlay: overlay?.file ?? null };
+}
+
+/**
+ * Copy a local media file, from disk or from inside a ZIP, to another file
+ */
+export async function copyLocalMediaFile(file: LocalMediaFile, destPath: string): Promise<void> {
+  if (file.zipPath) {
+    await extractZipEntry(file.zipPath, file.path, destPath);
+  } else {
+    await copyFile(file.path, destPath);
+  }
+}
+
+/**
+ * Copy a memory's local media into a temporary folder, in the same shape as downloaded media
+ * The copies can then be composited and moved into place like downloads.
+ */
+export async function copyLocalMedia(
+  localMedia: LocalMedia,
+  mediaType: MediaType,
+  tempDir: string
+): Promise<ExtractedMediaContents> {
+  const basePath = join(tempDir, basename(localMedia.main.path));
+  await copyLocalMediaFile(localMedia.main, basePath);
+
+  let overlayPath: string | null = null;
+  if (localMedia.overlay) {
+    overlayPath = join(tempDir, basename(localMedia.overlay.path));
+    await copyLocalMediaFile(localMedia.overlay, overlayPath);
+  }
+
+  return {
+    basePath,
+    baseFormat: await detectMediaFormat(basePath, mediaType),
+    overlayPath,
+  };
+}
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdir, rm, readFile } from 'node:fs/promises';
+import { appendFile, mkdir, readdir, readFile, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import {
@@ -12,11 +12,16 @@ import {
   saveManifest,
   addManifestEntry,
   isDownloaded,
+  isMemoryDownloaded,
   getDownloadedIds,
   filterPendingMemories,
   getManifestStats,
   getManifestPath,
+  getJournalPath,
+  migrateManifestEntry,
+  createManifestJournal,
 } from './manifest.js';
+import { extractLegacyMediaId, extractMediaId, getMemoryIdCandidates } from './parser.js';
 import { SnapchatMemory } from './types.js';
 
 describe('manifest', () => {
@@ -92,6 +97,79 @@ describe('manifest', () => {
     });
   });
 
+  describe('createManifestJournal', () => {
+    const memoryFor = (mediaId: string): SnapchatMemory => ({
+      mediaId,
+      date: new Date('2024-01-15T10:30:00Z'),
+      mediaType: 'Image',
+      location: null,
+      downloadUrl: 'https://example.com/download',
+    });
+
+    it('should append entries without rewriting the snapshot, and replay them on load', async () => {
+      const manifest = createManifest(testDir);
+      await saveManifest(manifest);
+      const snapshot = await readFile(getManifestPath(testDir), 'utf-8');
+      const journal = createManifestJournal(manifest);
+
+      await journal.append(addManifestEntry(manifest, memoryFor('a'), '/path/a.jpg', 100));
+      await journal.append(addManifestEntry(manifest, memoryFor('b'), '/path/b.jpg', 200));
+
+      expect(await readFile(getManifestPath(testDir), 'utf-8')).toBe(snapshot);
+      const lines = (await readFile(getJournalPath(testDir), 'utf-8')).trim().split('\n');
+      expect(lines).toHaveLength(2);
+      const loaded = await loadManifest(testDir);
+      expect(Object.keys(loaded.entries)).toEqual(['a', 'b']);
+      expect(loaded.entries.b.fileSize).toBe(200);
+    });
+
+    it('should compact the journal into the snapshot', async () => {
+      const manifest = createManifest(testDir);
+      const journal = createManifestJournal(manifest, 2);
+
+      await journal.append(addManifestEntry(manifest, memoryFor('a'), '/path/a.jpg', 100));
+      await journal.append(addManifestEntry(manifest, memoryFor('b'), '/path/b.jpg', 200));
+      await journal.append(addManifestEntry(manifest, memoryFor('c'), '/path/c.jpg', 300));
+
+      // Compacted after two entries, the third is only in the journal
+      const snapshot = JSON.parse(await readFile(getManifestPath(testDir), 'utf-8'));
+      expect(Object.keys(snapshot.entries)).toEqual(['a', 'b']);
+      expect(Object.keys((await loadManifest(testDir)).entries)).toEqual(['a', 'b', 'c']);
+
+      await journal.compact();
+      // Only the snapshot is left, no journal or temporary file
+      expect(await readdir(testDir)).toEqual(['.snapchat-export-manifest.json']);
+      expect(Object.keys((await loadManifest(testDir)).entries)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should recover from a crash before the first snapshot and skip a torn line', async () => {
+      const manifest = createManifest(testDir);
+      const journal = createManifestJournal(manifest);
+      await journal.append(addManifestEntry(manifest, memoryFor('a'), '/path/a.jpg', 100));
+      await appendFile(getJournalPath(testDir), '{"mediaId":"b","downl');
+
+      const loaded = await loadManifest(testDir);
+      expect(Object.keys(loaded.entries)).toEqual(['a']);
+    });
+
+    it('should keep entries appended after a torn line when resuming', async () => {
+      const manifest = createManifest(testDir);
+      await createManifestJournal(manifest).append(
+        addManifestEntry(manifest, memoryFor('a'), '/path/a.jpg', 100)
+      );
+      await appendFile(getJournalPath(testDir), '{"mediaId":"b","downl');
+
+      // The resumed run appends to the journal of the loaded manifest
+      const resumed = await loadManifest(testDir);
+      await createManifestJournal(resumed).append(
+        addManifestEntry(resumed, memoryFor('c'), '/path/c.jpg', 300)
+      );
+
+      const loaded = await loadManifest(testDir);
+      expect(Object.keys(loaded.entries)).toEqual(['a', 'c']);
+    });
+  });
+
   describe('addManifestEntry', () => {
     it('should add entry to manifest', () => {
       const manifest = createManifest(testDir);
@@ -134,6 +212,45 @@ describe('manifest', () => {
     });
   });
 
+  describe('isMemoryDownloaded', () => {
+    it('should not count an entry of another memory with the same ID', () => {
+      const manifest = createManifest(testDir);
+      const memory: SnapchatMemory = {
+        mediaId: 'shared-id',
+        date: new Date('2024-01-15T10:30:00Z'),
+        mediaType: 'Image',
+        location: null,
+        downloadUrl: 'https://example.com/1',
+      };
+      addManifestEntry(manifest, memory, '/path/to/file.jpg', 1000);
+
+      expect(isMemoryDownloaded(manifest, memory)).toBe(true);
+      expect(isMemoryDownloaded(manifest, { ...memory, date: new Date('2024-01-16') })).toBe(false);
+      expect(isMemoryDownloaded(manifest, { ...memory, mediaType: 'Video' })).toBe(false);
+    });
+
+    it('should find memories sharing an ID when they are read in another order', () => {
+      const manifest = createManifest(testDir);
+      const first: SnapchatMemory = {
+        mediaId: 'shared-id',
+        date: new Date('2024-01-15T10:30:00Z'),
+        mediaType: 'Image',
+        location: null,
+        downloadUrl: 'https://example.com/1',
+      };
+      const second = { ...first, date: new Date('2024-01-16T10:30:00Z') };
+      // The first memory read kept the plain ID, the second one was given its suffix
+      addManifestEntry(manifest, first, '/path/to/first.jpg', 1000);
+      const suffixedId = getMemoryIdCandidates(second)[1];
+      addManifestEntry(manifest, { ...second, mediaId: suffixedId }, '/path/to/second.jpg', 1000);
+
+      expect(isMemoryDownloaded(manifest, second)).toBe(true);
+      // Read the other way round, the first memory is the one given its suffix
+      const firstSuffixed = { ...first, mediaId: getMemoryIdCandidates(first)[1] };
+      expect(isMemoryDownloaded(manifest, firstSuffixed)).toBe(true);
+    });
+  });
+
   describe('getDownloadedIds', () => {
     it('should return set of downloaded IDs', () => {
       const manifest = createManifest(testDir);
@@ -161,38 +278,95 @@ describe('manifest', () => {
     });
   });
 
+  describe('migrateManifestEntry', () => {
+    const memoryFor = (url: string, date: Date): SnapchatMemory => ({
+      mediaId: extractMediaId(url),
+      date,
+      mediaType: 'Image',
+      location: null,
+      downloadUrl: url,
+      mediaDownloadUrl: null,
+    });
+
+    it('should move entries keyed by legacy IDs to the new ID', () => {
+      const manifest = createManifest(testDir);
+      const memory = memoryFor('https://example.com/media/1?sig=abc', new Date('2024-01-01'));
+      const legacyId = extractLegacyMediaId(memory.downloadUrl);
+      manifest.entries[legacyId] = {
+        mediaId: legacyId,
+        downloadedAt: new Date().toISOString(),
+        filePath: '/path/1.jpg',
+        fileSize: 1000,
+        mediaType: 'Image',
+        originalDate: memory.date.toISOString(),
+      };
+
+      expect(migrateManifestEntry(manifest, memory)).toBe(true);
+      expect(isDownloaded(manifest, memory.mediaId)).toBe(true);
+      expect(isDownloaded(manifest, legacyId)).toBe(false);
+      expect(manifest.entries[memory.mediaId].filePath).toBe('/path/1.jpg');
+      expect(migrateManifestEntry(manifest, memory)).toBe(false);
+    });
+
+    it('should leave entries of a different memory in place', () => {
+      const manifest = createManifest(testDir);
+      const memory = memoryFor('https://example.com/media/2', new Date('2024-01-01'));
+      const legacyId = extractLegacyMediaId(memory.downloadUrl);
+      manifest.entries[legacyId] = {
+        mediaId: legacyId,
+        downloadedAt: new Date().toISOString(),
+        filePath: '/path/other.jpg',
+        fileSize: 1000,
+        mediaType: 'Image',
+        originalDate: new Date('2020-06-01').toISOString(),
+      };
+
+      expect(migrateManifestEntry(manifest, memory)).toBe(false);
+      expect(isDownloaded(manifest, memory.mediaId)).toBe(false);
+      expect(isDownloaded(manifest, legacyId)).toBe(true);
+    });
+  });
+
   describe('filterPendingMemories', () => {
     it('should filter out already-downloaded memories', () => {
       const manifest = createManifest(testDir);
+      const date = new Date('2024-01-15T10:30:00Z');
       manifest.entries['downloaded-id'] = {
         mediaId: 'downloaded-id',
         downloadedAt: new Date().toISOString(),
         filePath: '/path/to/file.jpg',
         fileSize: 1000,
         mediaType: 'Image',
-        originalDate: new Date().toISOString(),
+        originalDate: date.toISOString(),
       };
 
       const memories: SnapchatMemory[] = [
         {
           mediaId: 'downloaded-id',
-          date: new Date(),
+          date,
           mediaType: 'Image',
           location: null,
           downloadUrl: 'https://example.com/1',
         },
         {
           mediaId: 'pending-id',
-          date: new Date(),
+          date,
           mediaType: 'Video',
           location: null,
           downloadUrl: 'https://example.com/2',
         },
+        {
+          // Another memory with the downloaded one's ID
+          mediaId: 'downloaded-id',
+          date: new Date('2024-01-16T10:30:00Z'),
+          mediaType: 'Image',
+          location: null,
+          downloadUrl: 'https://example.com/3',
+        },
       ];
 
       const pending = filterPendingMemories(memories, manifest);
-      expect(pending.length).toBe(1);
-      expect(pending[0].mediaId).toBe('pending-id');
+      expect(pending).toEqual([memories[1], memories[2]]);
     });
 
     it('should return all memories if none are downloaded', () => {
@@ -1,15 +1,28 @@
 /**
  * Manifest module for tracking downloaded memories
  * Enables resume capability and prevents re-downloading
+ *
+ * The manifest is kept as a snapshot plus a journal: every saved memory is
+ * appended to the journal as one JSON line, and the journal is compacted into
+ * the snapshot from time to time and at the end of a run. Snapshots are written
+ * to a temporary file and renamed over the old one, so a crash leaves either
+ * the old or the new snapshot, and at most a torn last journal line.
  */
 
-import { readFile, writeFile } from 'node:fs/promises';
+import { appendFile, open, readFile, rename, rm } from 'node:fs/promises';
 import { join } from 'node:path';
+import { extractLegacyMediaId, getMemoryIdCandidates } from './parser.js';
 import { ExportManifest, ManifestEntry, SnapchatMemory } from './types.js';
 
 const MANIFEST_FILENAME = '.snapchat-export-manifest.json';
+const JOURNAL_FILENAME = '.snapchat-export-manifest.journal.jsonl';
 const MANIFEST_VERSION = 1 as const;
 
+/**
+ * Default number of journal entries after which the journal is compacted
+ */
+export const DEFAULT_COMPACT_EVERY = 200;
+
 /**
  * Get the manifest file path for an output directory
  */
@@ -17,6 +30,13 @@ export function getManifestPath(outputDir: string): string {
   return join(outputDir, MANIFEST_FILENAME);
 }
 
+/**
+ * Get the manifest journal path for an output directory
+ */
+export function getJournalPath(outputDir: string): string {
+  return join(outputDir, JOURNAL_FILENAME);
+}
+
 /**
  * Create a new empty manifest
  */
@@ -32,13 +52,18 @@ export function createManifest(outputDir: string): ExportManifest {
 }
 
 /**
- * Load manifest from disk, or create a new one if it doesn't exist
+ * Check if an error is a missing file
  */
-export async function loadManifest(outputDir: string): Promise<ExportManifest> {
-  const manifestPath = getManifestPath(outputDir);
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
 
+/**
+ * Load the manifest snapshot, or create a new manifest if there is none
+ */
+async function loadSnapshot(outputDir: string): Promise<ExportManifest> {
   try {
-    const content = await readFile(manifestPath, 'utf-8');
+    const content = await readFile(getManifestPath(outputDir), 'utf-8');
     const data = JSON.parse(content) as ExportManifest;
 
     // Validate version
@@ -51,7 +76,7 @@ export async function loadManifest(outputDir: string): Promise<ExportManifest> {
 
     return data;
   } catch (error) {
-    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+    if (isNotFound(error)) {
       // File doesn't exist, create new manifest
       return createManifest(outputDir);
     }
@@ -60,26 +85,140 @@ export async function loadManifest(outputDir: string): Promise<ExportManifest> {
 }
 
 /**
- * Save manifest to disk
+ * Read the entries recorded in the journal since the last snapshot
+ * A line that doesn't parse, like one torn by a crash, is skipped.
+ * @returns The entries, or null if there is no journal
+ */
+async function readJournal(outputDir: string): Promise<ManifestEntry[] | null> {
+  let content: string;
+  try {
+    content = await readFile(getJournalPath(outputDir), 'utf-8');
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+
+  const entries: ManifestEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as ManifestEntry;
+      if (typeof entry?.mediaId === 'string') entries.push(entry);
+    } catch {
+      // Torn write
+    }
+  }
+  return entries;
+}
+
+/**
+ * Load manifest from disk, or create a new one if it doesn't exist
+ * The entries in the journal are replayed on top of the snapshot, which is then
+ * saved and the journal removed: appending to a journal that ends in a line torn
+ * by a crash would glue the next entry onto it.
+ */
+export async function loadManifest(outputDir: string): Promise<ExportManifest> {
+  const manifest = await loadSnapshot(outputDir);
+  const journal = await readJournal(outputDir);
+  if (journal) {
+    for (const entry of journal) {
+      manifest.entries[entry.mediaId] = entry;
+    }
+    await saveManifest(manifest);
+  }
+  return manifest;
+}
+
+/**
+ * Save manifest to disk as a new snapshot, replacing the journal
  */
 export async function saveManifest(manifest: ExportManifest): Promise<void> {
   const manifestPath = getManifestPath(manifest.outputDir);
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
 
   // Update the updatedAt timestamp
   manifest.updatedAt = new Date().toISOString();
 
   const content = JSON.stringify(manifest, null, 2);
-  await writeFile(manifestPath, content, 'utf-8');
+  const file = await open(tempPath, 'w');
+  try {
+    await file.writeFile(content, 'utf-8');
+    // On disk before the rename, or a crash could leave an empty snapshot
+    await file.sync();
+  } finally {
+    await file.close();
+  }
+  await rename(tempPath, manifestPath);
+  // Everything in the journal is in the snapshot now
+  await rm(getJournalPath(manifest.outputDir), { force: true });
+}
+
+/**
+ * Records saved memories in the journal of a manifest
+ */
+export interface ManifestJournal {
+  /**
+   * Append an entry added with addManifestEntry to the journal
+   * Compacts the journal into a new snapshot once it has grown long enough.
+   */
+  append(entry: ManifestEntry): Promise<void>;
+
+  /**
+   * Compact the journal into a new snapshot now, e.g. at the end of a run
+   */
+  compact(): Promise<void>;
+}
+
+/**
+ * Create a journal for a manifest
+ * Writes happen one at a time, so a compaction never drops an entry appended meanwhile.
+ * @param compactEvery - Entries appended before the journal is compacted
+ */
+export function createManifestJournal(
+  manifest: ExportManifest,
+  compactEvery: number = DEFAULT_COMPACT_EVERY
+): ManifestJournal {
+  const journalPath = getJournalPath(manifest.outputDir);
+  let appended = 0;
+  let writes: Promise<void> = Promise.resolve();
+
+  const enqueue = (write: () => Promise<void>): Promise<void> => {
+    const next = writes.then(write);
+    // A failed write is reported to its caller, later writes still run
+    writes = next.catch(() => {});
+    return next;
+  };
+  const compact = async (): Promise<void> => {
+    await saveManifest(manifest);
+    appended = 0;
+  };
+
+  return {
+    append: (entry: ManifestEntry): Promise<void> =>
+      enqueue(async () => {
+        await appendFile(journalPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+        appended++;
+        if (appended >= compactEvery) {
+          await compact();
+        }
+      }),
+
+    compact: (): Promise<void> => enqueue(compact),
+  };
 }
 
 /**
  * Add an entry to the manifest
+ * @param filePath - The saved file, or the first part of a video saved as parts
+ * @param fileSize - Size of the file, or of all parts together
+ * @param parts - Every part, for a video saved as numbered parts
  */
 export function addManifestEntry(
   manifest: ExportManifest,
   memory: SnapchatMemory,
   filePath: string,
-  fileSize: number
+  fileSize: number,
+  parts?: readonly string[]
 ): ManifestEntry {
   const entry: ManifestEntry = {
     mediaId: memory.mediaId,
@@ -88,6 +227,7 @@ export function addManifestEntry(
     fileSize,
     mediaType: memory.mediaType,
     originalDate: memory.date.toISOString(),
+    ...(parts && { parts }),
   };
 
   manifest.entries[memory.mediaId] = entry;
@@ -101,6 +241,54 @@ export function isDownloaded(manifest: ExportManifest, mediaId: string): boolean
   return mediaId in manifest.entries;
 }
 
+/**
+ * Check if a manifest entry was recorded for a memory with the same date and media type
+ */
+function entryMatches(entry: ManifestEntry, memory: SnapchatMemory): boolean {
+  return entry.originalDate === memory.date.toISOString() && entry.mediaType === memory.mediaType;
+}
+
+/**
+ * Check if this very memory has already been downloaded
+ * Different memories can share a media ID, and which one keeps the plain ID
+ * depends on the order they are read in, so the entry is looked up under both
+ * of the memory's candidate IDs. An entry only counts when its date and media
+ * type match, so a memory is never skipped because another one with its ID was
+ * downloaded.
+ */
+export function isMemoryDownloaded(manifest: ExportManifest, memory: SnapchatMemory): boolean {
+  return getMemoryIdCandidates(memory).some((mediaId) => {
+    const entry = manifest.entries[mediaId];
+    return entry !== undefined && entryMatches(entry, memory);
+  });
+}
+
+/**
+ * Move a manifest entry recorded under a memory's legacy media ID to its current ID
+ *
+ * Earlier versions derived IDs for URLs without a 'mid' parameter from a 32-bit
+ * hash that can collide. The entry is only moved when its date and media type
+ * match the memory, so a memory that merely shares a colliding legacy ID is
+ * left pending instead of being marked as downloaded.
+ *
+ * @returns true if an entry was moved
+ */
+export function migrateManifestEntry(manifest: ExportManifest, memory: SnapchatMemory): boolean {
+  const legacyId = extractLegacyMediaId(memory.downloadUrl);
+  if (legacyId === memory.mediaId || memory.mediaId in manifest.entries) {
+    return false;
+  }
+
+  const entry = manifest.entries[legacyId];
+  if (!entry || !entryMatches(entry, memory)) {
+    return false;
+  }
+
+  manifest.entries[memory.mediaId] = { ...entry, mediaId: memory.mediaId };
+  delete manifest.entries[legacyId];
+  return true;
+}
+
 /**
  * Get list of media IDs that have been downloaded
  */
@@ -109,14 +297,13 @@ export function getDownloadedIds(manifest: ExportManifest): Set<string> {
 }
 
 /**
- * Filter memories to only those not yet downloaded
+ * Filter memories to only those not yet downloaded (see isMemoryDownloaded)
  */
 export function filterPendingMemories(
   memories: readonly SnapchatMemory[],
   manifest: ExportManifest
 ): SnapchatMemory[] {
-  const downloadedIds = getDownloadedIds(manifest);
-  return memories.filter((memory) => !downloadedIds.has(memory.mediaId));
+  return memories.filter((memory) => !isMemoryDownloaded(manifest, memory));
 }
 
 /**
@@ -1,7 +1,12 @@
 /**
  * Metadata module for embedding EXIF data into downloaded media
+ *
+ * Images get EXIF tags. MP4 and MOV videos get QuickTime tags, which is where
+ * photo apps look for a video's date and location. exiftool can't write WebM
+ * (Matroska) or GIF files, so those are saved without metadata.
  */
 
+import { extname } from 'node:path';
 import { exiftool } from 'exiftool-vendored';
 import { GpsCoordinates, MetadataError, SnapchatMemory } from './types.js';
 
@@ -20,6 +25,42 @@ export function formatExifDate(date: Date): string {
   return `${year}:${month}:${day} ${hours}:${minutes}:${seconds}`;
 }
 
+/**
+ * How metadata is written into a file
+ */
+export type MetadataWriter = 'exif' | 'quicktime';
+
+/**
+ * Metadata writer of each file type, by extension
+ */
+const METADATA_WRITERS: Record<string, MetadataWriter> = {
+  jpg: 'exif',
+  jpeg: 'exif',
+  png: 'exif',
+  heic: 'exif',
+  webp: 'exif',
+  mp4: 'quicktime',
+  mov: 'quicktime',
+};
+
+/**
+ * Get the metadata writer for a file type
+ * @returns The writer, or null if metadata can't be written into the type
+ */
+export function getMetadataWriter(extension: string): MetadataWriter | null {
+  return METADATA_WRITERS[extension.toLowerCase()] ?? null;
+}
+
+/**
+ * Format the UTC offset of a date's local time, e.g. "+01:00"
+ */
+function formatUtcOffset(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+}
+
 /**
  * Build EXIF tags for a memory
  */
@@ -47,14 +88,49 @@ export function buildExifTags(memory: SnapchatMemory): Record<string, unknown> {
 }
 
 /**
- * Embed metadata into a media file
+ * Build QuickTime tags for a video memory (MP4/MOV)
+ * The dates are given in local time, exiftool stores them in UTC as QuickTime
+ * requires when writing with the QuickTimeUTC option.
+ */
+export function buildQuickTimeTags(memory: SnapchatMemory): Record<string, unknown> {
+  const tags: Record<string, unknown> = {};
+
+  // Date/time tags of the movie and its tracks
+  const exifDate = formatExifDate(memory.date);
+  tags['QuickTime:CreateDate'] = exifDate;
+  tags['QuickTime:ModifyDate'] = exifDate;
+  tags['QuickTime:TrackCreateDate'] = exifDate;
+  tags['QuickTime:MediaCreateDate'] = exifDate;
+  // Apple's creation date, read by Photos, keeps the time zone
+  tags['Keys:CreationDate'] = `${exifDate}${formatUtcOffset(memory.date)}`;
+
+  // GPS coordinates if location available
+  if (memory.location) {
+    tags['Keys:GPSCoordinates'] = `${memory.location.latitude}, ${memory.location.longitude}`;
+  }
+
+  // Software tag
+  tags['Keys:Software'] = 'snapchat-export';
+
+  return tags;
+}
+
+/**
+ * Embed metadata into a media file, with the writer for its file type
  */
 export async function embedMetadata(filePath: string, memory: SnapchatMemory): Promise<void> {
-  const tags = buildExifTags(memory);
+  const writer = getMetadataWriter(extname(filePath).slice(1));
+  if (!writer) {
+    throw new MetadataError(filePath, 'File type does not support metadata');
+  }
+  const tags = writer === 'quicktime' ? buildQuickTimeTags(memory) : buildExifTags(memory);
 
   try {
     await exiftool.write(filePath, tags, {
-      writeArgs: ['-overwrite_original'],
+      writeArgs: [
+        '-overwrite_original',
+        ...(writer === 'quicktime' ? ['-api', 'QuickTimeUTC'] : []),
+      ],
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -63,11 +139,10 @@ export async function embedMetadata(filePath: string, memory: SnapchatMemory): P
 }
 
 /**
- * Check if a file type supports EXIF metadata
+ * Check if metadata can be embedded into a file type
  */
-export function supportsExif(extension: string): boolean {
-  const supportedExtensions = ['jpg', 'jpeg', 'png', 'heic', 'mp4', 'mov'];
-  return supportedExtensions.includes(extension.toLowerCase());
+export function supportsMetadata(extension: string): boolean {
+  return getMetadataWriter(extension) !== null;
 }
 
 /**
@@ -0,0 +1,189 @@
+/**
+ * Local proxy stand-in for exercising the downloader's proxy support
+ *
+ * Speaks either HTTP (plain requests in absolute form, and CONNECT tunnels)
+ * or SOCKS5, optionally requiring a username and password, and records what
+ * it was asked to connect to.
+ */
+
+import { once } from 'node:events';
+import {
+  createServer as createHttpServer,
+  request as httpRequest,
+  IncomingMessage,
+  ServerResponse,
+} from 'node:http';
+import { AddressInfo, connect, createServer, Server, Socket } from 'node:net';
+
+/**
+ * A request received by the proxy
+ */
+export interface MockProxyRequest {
+  readonly method: string; // HTTP method, CONNECT, or SOCKS for SOCKS5 connections
+  readonly target: string; // Absolute URL, or host:port for tunnels
+  readonly authorized: boolean; // Whether the request carried the expected credentials
+}
+
+/**
+ * Options for the proxy stand-in
+ */
+export interface MockProxyOptions {
+  readonly protocol: 'http' | 'socks5';
+  readonly username?: string; // Require these credentials
+  readonly password?: string;
+}
+
+/**
+ * A running proxy stand-in
+ */
+export interface MockProxyServer {
+  readonly url: string; // Proxy URL without credentials, e.g. socks5://127.0.0.1:54321
+  readonly requests: readonly MockProxyRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Read exactly length bytes from a socket
+ */
+async function readBytes(socket: Socket, length: number): Promise<Buffer> {
+  for (;;) {
+    const data = socket.read(length) as Buffer | null;
+    if (data) {
+      return data;
+    }
+    if (socket.readableEnded || socket.destroyed) {
+      throw new Error('Connection closed');
+    }
+    await once(socket, 'readable');
+  }
+}
+
+/**
+ * Connect a client socket to host:port and pipe both ways
+ */
+function tunnel(client: Socket, host: string, port: number, onConnect: () => void): void {
+  const upstream = connect(port, host, () => {
+    onConnect();
+    upstream.pipe(client);
+    client.pipe(upstream);
+  });
+  upstream.on('error', () => client.destroy());
+  client.on('error', () => upstream.destroy());
+  client.on('close', () => upstream.destroy());
+}
+
+/**
+ * Start a local proxy stand-in on a free port
+ */
+export async function startMockProxyServer(options: MockProxyOptions): Promise<MockProxyServer> {
+  const requests: MockProxyRequest[] = [];
+  const sockets = new Set<Socket>();
+  const expected =
+    options.username !== undefined
+      ? `Basic ${Buffer.from(`${options.username}:${options.password ?? ''}`).toString('base64')}`
+      : null;
+
+  // SOCKS5 handshake (RFC 1928), with username/password authentication (RFC 1929)
+  const handleSocks = async (client: Socket): Promise<void> => {
+    const [, methodCount] = await readBytes(client, 2);
+    const methods = [...(await readBytes(client, methodCount))];
+    const method = expected === null ? 0 : 2;
+    if (!methods.includes(method)) {
+      client.end(Buffer.from([5, 0xff]));
+      return;
+    }
+    client.write(Buffer.from([5, method]));
+
+    let authorized = true;
+    if (method === 2) {
+      const [, userLength] = await readBytes(client, 2);
+      const username = (await readBytes(client, userLength)).toString();
+      const [passLength] = await readBytes(client, 1);
+      const password = (await readBytes(client, passLength)).toString();
+      authorized = username === options.username && password === (options.password ?? '');
+      client.write(Buffer.from([1, authorized ? 0 : 1]));
+    }
+
+    const [, , , addressType] = await readBytes(client, 4);
+    let host: string;
+    if (addressType === 1) {
+      host = [...(await readBytes(client, 4))].join('.');
+    } else if (addressType === 3) {
+      const [length] = await readBytes(client, 1);
+      host = (await readBytes(client, length)).toString();
+    } else {
+      const bytes = await readBytes(client, 16);
+      host = Array.from({ length: 8 }, (_, i) => bytes.readUInt16BE(i * 2).toString(16)).join(':');
+    }
+    const port = (await readBytes(client, 2)).readUInt16BE(0);
+    requests.push({ method: 'SOCKS', target: `${host}:${port}`, authorized });
+    if (!authorized) {
+      client.end();
+      return;
+    }
+    tunnel(client, host, port, () => client.write(Buffer.from([5, 0, 0, 1, 0, 0, 0, 0, 0, 0])));
+  };
+
+  let server: Server;
+  if (options.protocol === 'http') {
+    const isAuthorized = (req: IncomingMessage): boolean =>
+      expected === null || req.headers['proxy-authorization'] === expected;
+
+    // Plain requests: forward to the absolute URL
+    const httpServer = createHttpServer((req: IncomingMessage, res: ServerResponse) => {
+      const authorized = isAuthorized(req);
+      requests.push({ method: req.method ?? 'GET', target: req.url ?? '', authorized });
+      if (!authorized) {
+        res.writeHead(407, { 'Proxy-Authenticate': 'Basic' }).end();
+        return;
+      }
+      const headers = { ...req.headers };
+      delete headers['proxy-authorization'];
+      const upstream = httpRequest(req.url ?? '', { method: req.method, headers }, (response) => {
+        res.writeHead(response.statusCode ?? 502, response.headers);
+        response.pipe(res);
+      });
+      upstream.on('error', () => res.writeHead(502).end());
+      req.pipe(upstream);
+    });
+
+    // Tunnels: CONNECT host:port
+    httpServer.on('connect', (req: IncomingMessage, client: Socket) => {
+      const authorized = isAuthorized(req);
+      requests.push({ method: 'CONNECT', target: req.url ?? '', authorized });
+      if (!authorized) {
+        client.end('HTTP/1.1 407 Proxy Authentication Required\r\n\r\n');
+        return;
+      }
+      const [host, port] = (req.url ?? '').split(':');
+      tunnel(client, host, Number(port), () =>
+        client.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+      );
+    });
+    server = httpServer;
+  } else {
+    server = createServer((client) => {
+      handleSocks(client).catch(() => client.destroy());
+    });
+  }
+
+  server.on('connection', (socket: Socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `${options.protocol}://127.0.0.1:${port}`,
+    requests,
+    close: async (): Promise<void> => {
+      for (const socket of sockets) {
+        socket.destroy();
+      }
+      server.close();
+      await once(server, 'close');
+    },
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * Mock Snapchat server for exercising the downloader without the network
+ *
+ * Serves the same flows as Snapchat's download endpoints, on localhost:
+ * - Proxy URLs (JSON export): POST /dmd/memories with the query as the body returns a signed URL
+ * - Direct URLs (HTML export): GET /dmd/mm redirects to the signed URL
+ * - Signed URLs: GET /signed/<media id> returns the media, or a ZIP when it has an overlay
+ * Media can be set up to be rate limited (429) a number of times, to have expired links (403)
+ * or to have the first response cut off, stalled or delayed. Signed URLs support Range requests.
+ */
+
+import { once } from 'node:events';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import AdmZip from 'adm-zip';
+
+/**
+ * Media served by the mock server
+ */
+export interface MockMedia {
+  readonly mediaId: string; // The mid parameter of the download URLs
+  readonly data: Buffer;
+  readonly contentType: string; // e.g. image/jpeg, video/mp4
+  readonly overlay?: Buffer; // If set, served as a ZIP with -main and -overlay entries
+  readonly segments?: readonly Buffer[]; // Later parts of a split video, served in one ZIP with data
+  readonly rateLimited?: number; // Number of requests answered with 429 before succeeding
+  readonly expired?: boolean; // Links answer 403, like an export that is too old
+  readonly interruptAt?: number; // The first file response is cut off after this many bytes
+  readonly stallAt?: number; // The first file response stops sending after this many bytes
+  readonly headersDelayMs?: number; // The first file response waits this long before its headers
+}
+
+/**
+ * A request received by the mock server
+ */
+export interface MockRequest {
+  readonly method: string;
+  readonly path: string;
+  readonly range?: string; // Range header, if sent
+}
+
+/**
+ * Options for the mock server
+ */
+export interface MockServerOptions {
+  readonly retryAfterSeconds?: number; // Retry-After header sent with 429 responses
+  readonly signedUrlTtlMs?: number; // Lifetime of signed URLs
+}
+
+/**
+ * A running mock server
+ */
+export interface MockSnapchatServer {
+  readonly url: string; // Base URL, e.g. http://127.0.0.1:54321
+  readonly requests: readonly MockRequest[];
+  addMedia(media: MockMedia): void;
+  proxyUrl(mediaId: string): string; // Download URL as found in JSON exports
+  directUrl(mediaId: string): string; // Download URL as found in HTML exports
+  close(): Promise<void>;
+}
+
+/**
+ * Read a request body as text
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Extensions of the -main entries of media ZIPs, by content type
+ */
+const ZIP_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+};
+
+/**
+ * Build the ZIP Snapchat serves for media with an overlay or several segments
+ * Each segment gets its own -main entry, and its own copy of the overlay.
+ */
+function buildMediaZip(media: MockMedia): Buffer {
+  const extension = ZIP_EXTENSIONS[media.contentType] ?? 'jpg';
+  const zip = new AdmZip();
+  const parts = [media.data, ...(media.segments ?? [])];
+  for (const [index, data] of parts.entries()) {
+    const name = parts.length > 1 ? `${media.mediaId}-${index + 1}` : media.mediaId;
+    zip.addFile(`${name}-main.${extension}`, data);
+    if (media.overlay) {
+      zip.addFile(`${name}-overlay.png`, media.overlay);
+    }
+  }
+  return zip.toBuffer();
+}
+
+/**
+ * Start a mock Snapchat server on a free local port
+ */
+export async function startMockSnapchatServer(
+  options: MockServerOptions = {}
+): Promise<MockSnapchatServer> {
+  const { retryAfterSeconds = 1, signedUrlTtlMs = 60_000 } = options;
+  const media = new Map<string, MockMedia>();
+  const bodies = new Map<string, { data: Buffer; contentType: string; etag: string }>();
+  const rateLimitCounts = new Map<string, number>();
+  const served = new Set<string>();
+  const requests: MockRequest[] = [];
+  let baseUrl = '';
+
+  const signUrl = (mediaId: string): string =>
+    `${baseUrl}/signed/${encodeURIComponent(mediaId)}?expires=${Date.now() + signedUrlTtlMs}`;
+
+  // Answer 429 while the media still has rate limited requests left
+  const rateLimit = (res: ServerResponse, item: MockMedia): boolean => {
+    const count = rateLimitCounts.get(item.mediaId) ?? 0;
+    if (count >= (item.rateLimited ?? 0)) {
+      return false;
+    }
+    rateLimitCounts.set(item.mediaId, count + 1);
+    res.writeHead(429, { 'Retry-After': String(retryAfterSeconds) }).end('Too Many Requests');
+    return true;
+  };
+
+  // Send a media file, or the requested range of it
+  const sendMedia = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    item: MockMedia
+  ): Promise<void> => {
+    const body = bodies.get(item.mediaId)!;
+    const first = !served.has(item.mediaId);
+    served.add(item.mediaId);
+    if (first && item.headersDelayMs !== undefined) {
+      await new Promise((resolve) => setTimeout(resolve, item.headersDelayMs));
+    }
+
+    const headers = { 'Content-Type': body.contentType, 'Accept-Ranges': 'bytes', ETag: body.etag };
+    const range = req.headers.range?.match(/^bytes=(\d+)-$/);
+    const ifRange = req.headers['if-range'];
+
+    let start = 0;
+    if (range && (!ifRange || ifRange === body.etag)) {
+      start = Number(range[1]);
+      if (start >= body.data.length) {
+        res.writeHead(416, { 'Content-Range': `bytes */${body.data.length}` }).end();
+        return;
+      }
+      res.writeHead(206, {
+        ...headers,
+        'Content-Length': body.data.length - start,
+        'Content-Range': `bytes ${start}-${body.data.length - 1}/${body.data.length}`,
+      });
+    } else {
+      res.writeHead(200, { ...headers, 'Content-Length': body.data.length });
+    }
+
+    const data = body.data.subarray(start);
+    if (first && item.interruptAt !== undefined) {
+      // Stall part way through the body, then drop the connection
+      res.write(data.subarray(0, item.interruptAt));
+      setTimeout(() => res.destroy(), 100);
+      return;
+    }
+    if (first && item.stallAt !== undefined) {
+      // Keep the connection open without sending the rest
+      res.write(data.subarray(0, item.stallAt));
+      return;
+    }
+    res.end(data);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', baseUrl);
+    const method = req.method ?? 'GET';
+    requests.push({ method, path: url.pathname, range: req.headers.range });
+
+    // Proxy flow: the query string is posted as the body
+    if (method === 'POST' && url.pathname === '/dmd/memories') {
+      const params = new URLSearchParams(await readBody(req));
+      const item = media.get(params.get('mid') ?? '');
+      if (!item) {
+        res.writeHead(404).end('Not Found');
+      } else if (item.expired) {
+        res.writeHead(403).end('Forbidden');
+      } else if (!rateLimit(res, item)) {
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end(signUrl(item.mediaId));
+      }
+      return;
+    }
+
+    // Direct flow: redirect to the signed URL
+    if (method === 'GET' && url.pathname === '/dmd/mm') {
+      const item = media.get(url.searchParams.get('mid') ?? '');
+      if (!item) {
+        res.writeHead(404).end('Not Found');
+      } else if (item.expired) {
+        res.writeHead(403).end('Forbidden');
+      } else if (!rateLimit(res, item)) {
+        res.writeHead(302, { Location: signUrl(item.mediaId) }).end();
+      }
+      return;
+    }
+
+    if (method === 'GET' && url.pathname.startsWith('/signed/')) {
+      const item = media.get(decodeURIComponent(url.pathname.substring('/signed/'.length)));
+      const expires = Number(url.searchParams.get('expires'));
+      if (!item) {
+        res.writeHead(404).end('Not Found');
+      } else if (item.expired || !(expires > Date.now())) {
+        res.writeHead(403).end('Forbidden');
+      } else {
+        await sendMedia(req, res, item);
+      }
+      return;
+    }
+
+    res.writeHead(404).end('Not Found');
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(() => {
+      res.writeHead(500).end('Internal Server Error');
+    });
+  });
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const downloadQuery = (mediaId: string): string =>
+    new URLSearchParams({
+      uid: 'mock-user',
+      sid: 'mock-session',
+      mid: mediaId,
+      ts: String(Date.now()),
+    }).toString();
+
+  return {
+    url: baseUrl,
+    requests,
+    addMedia: (item): void => {
+      media.set(item.mediaId, item);
+      // Built once, so ranges of ZIP responses line up between requests
+      const zipped = !!item.overlay || !!item.segments;
+      const data = zipped ? buildMediaZip(item) : item.data;
+      bodies.set(item.mediaId, {
+        data,
+        contentType: zipped ? 'application/zip' : item.contentType,
+        etag: `"${item.mediaId}-${data.length}"`,
+      });
+    },
+    proxyUrl: (mediaId) => `${baseUrl}/dmd/memories?${downloadQuery(mediaId)}&proxy=true`,
+    directUrl: (mediaId) => `${baseUrl}/dmd/mm?${downloadQuery(mediaId)}`,
+    close: async (): Promise<void> => {
+      server.closeAllConnections();
+      server.close();
+      await once(server, 'close');
+    },
+  };
+}
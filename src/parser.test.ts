@@ -2,14 +2,29 @@
  * Tests for the parser module
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import AdmZip from 'adm-zip';
 import {
   parseLocation,
   parseDate,
   extractMediaId,
+  extractLegacyMediaId,
   validateMediaType,
   parseMemories,
+  findMemoriesFile,
+  findMemoriesFiles,
+  loadMemories,
+  mergeMemories,
+  parseMemoriesStream,
+  parseMemoriesFromHtml,
+  streamMemories,
 } from './parser.js';
+import { detectExportLocale, FRENCH_LOCALE, GERMAN_LOCALE, SPANISH_LOCALE } from './locale.js';
+import { createParseReport } from './report.js';
+import { SnapchatMemory } from './types.js';
 
 describe('parseLocation', () => {
   it('should parse valid coordinates', () => {
@@ -34,6 +49,17 @@ describe('parseLocation', () => {
     expect(parseLocation('Some random text')).toBeNull();
   });
 
+  it('should parse localized prefixes with decimal commas', () => {
+    expect(parseLocation('Breitengrad, Längengrad: 52,520008, 13,404954', GERMAN_LOCALE)).toEqual({
+      latitude: 52.520008,
+      longitude: 13.404954,
+    });
+    expect(parseLocation('Latitud, Longitud: -34,603722, -58,381592')).toEqual({
+      latitude: -34.603722,
+      longitude: -58.381592,
+    });
+  });
+
   it('should handle negative coordinates', () => {
     const result = parseLocation('Latitude, Longitude: -33.868820, 151.209290');
     expect(result).toEqual({ latitude: -33.86882, longitude: 151.20929 });
@@ -65,6 +91,19 @@ describe('extractMediaId', () => {
     expect(result).toBeTruthy();
     expect(typeof result).toBe('string');
   });
+
+  it('should ignore volatile parameters in the fallback ID', () => {
+    const id = extractMediaId('https://example.com/media?uid=u1&key=abc&sig=one&ts=100');
+    expect(id).toMatch(/^[0-9a-f]{32}$/);
+    expect(extractMediaId('https://example.com/media?ts=200&sig=two&key=abc&uid=u1')).toBe(id);
+    expect(extractMediaId('https://example.com/media?uid=u1&key=abd&sig=one&ts=100')).not.toBe(id);
+  });
+
+  it('should keep the legacy hash for manifest migration', () => {
+    const url = 'https://example.com/file';
+    expect(extractLegacyMediaId(url)).toMatch(/^[0-9a-f]{1,8}$/);
+    expect(extractLegacyMediaId(`${url}?mid=ABC`)).toBe('ABC');
+  });
 });
 
 describe('validateMediaType', () => {
@@ -76,6 +115,12 @@ describe('validateMediaType', () => {
     expect(validateMediaType('Video')).toBe('Video');
   });
 
+  it('should map localized labels', () => {
+    expect(validateMediaType('Bild', GERMAN_LOCALE)).toBe('Image');
+    expect(validateMediaType('Vidéo', FRENCH_LOCALE)).toBe('Video');
+    expect(validateMediaType('Imagen')).toBe('Image');
+  });
+
   it('should throw for invalid type', () => {
     expect(() => validateMediaType('Audio')).toThrow('Invalid media type');
   });
@@ -112,4 +157,484 @@ describe('parseMemories', () => {
     const result = parseMemories({ 'Saved Media': [] });
     expect(result).toHaveLength(0);
   });
+
+  it('should record rejected entries with a typed reason', () => {
+    const valid = {
+      Date: '2025-12-30 16:47:52 UTC',
+      'Media Type': 'Image',
+      Location: '',
+      'Download Link': 'https://app.snapchat.com/dmd/memories?mid=ok',
+    };
+    const report = createParseReport();
+
+    const result = parseMemories(
+      {
+        'Saved Media': [
+          valid,
+          { ...valid, Date: 'yesterday' },
+          { ...valid, 'Media Type': 'Audio' },
+          { ...valid, 'Download Link': '' },
+          { ...valid, Location: 'somewhere nice' },
+          'not an entry',
+        ],
+      },
+      report
+    );
+
+    expect(result).toHaveLength(1);
+    expect(report.rejected.map((r) => [r.index, r.reason])).toEqual([
+      [1, 'invalid-date'],
+      [2, 'unknown-media-type'],
+      [3, 'missing-url'],
+      [4, 'invalid-location'],
+      [5, 'invalid-entry'],
+    ]);
+    expect(report.rejected[0].fields.Date).toBe('yesterday');
+  });
+});
+
+describe('localized exports', () => {
+  const germanExport = {
+    'Gespeicherte Medien': [
+      {
+        Datum: '2024-05-01 12:00:00 UTC',
+        Medientyp: 'Bild',
+        Standort: 'Breitengrad, Längengrad: 52,520008, 13,404954',
+        'Download-Link': 'https://app.snapchat.com/dmd/memories?mid=DE-1',
+      },
+      {
+        Datum: '2024-05-02 12:00:00 UTC',
+        Medientyp: 'Video',
+        Standort: '',
+        'Download-Link': 'https://app.snapchat.com/dmd/memories?mid=DE-2',
+        'Medien-Download-URL': 'https://example.com/media/DE-2',
+      },
+    ],
+  };
+
+  it('should detect the locale from key names', () => {
+    expect(detectExportLocale(Object.keys(germanExport['Gespeicherte Medien'][0]))).toBe(
+      GERMAN_LOCALE
+    );
+    expect(detectExportLocale(['Fecha', 'Tipo de medio', 'Ubicación'])).toBe(SPANISH_LOCALE);
+    expect(detectExportLocale(['Date', 'Media Type']).code).toBe('en');
+  });
+
+  it('should parse a German export into the same memory shape', () => {
+    const result = parseMemories(germanExport);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toEqual({
+      date: new Date('2024-05-01T12:00:00Z'),
+      mediaType: 'Image',
+      location: { latitude: 52.520008, longitude: 13.404954 },
+      downloadUrl: 'https://app.snapchat.com/dmd/memories?mid=DE-1',
+      mediaDownloadUrl: null,
+      mediaId: 'DE-1',
+    });
+    expect(result[1].mediaType).toBe('Video');
+    expect(result[1].mediaDownloadUrl).toBe('https://example.com/media/DE-2');
+  });
+
+  it('should stream a Spanish export', async () => {
+    const text = JSON.stringify({
+      'Medios guardados': [
+        {
+          Fecha: '2023-01-01 00:00:00 UTC',
+          'Tipo de medio': 'Vídeo',
+          Ubicación: 'Latitud, Longitud: 40,416775, -3,70379',
+          'Enlace de descarga': 'https://app.snapchat.com/dmd/memories?mid=ES-1',
+        },
+      ],
+    });
+
+    const memories: SnapchatMemory[] = [];
+    for await (const memory of parseMemoriesStream([text])) {
+      memories.push(memory);
+    }
+
+    expect(memories).toHaveLength(1);
+    expect(memories[0].mediaType).toBe('Video');
+    expect(memories[0].location).toEqual({ latitude: 40.416775, longitude: -3.70379 });
+  });
+
+  it('should stream and parse an export whose keys are written with escapes', async () => {
+    // What an ASCII-only JSON writer makes of "Médias enregistrés"
+    const text =
+      '{"M\\u00e9dias enregistr\\u00e9s": [{"Date": "2023-01-01 00:00:00 UTC", ' +
+      '"Media Type": "Image", "Download Link": "https://app.snapchat.com/dmd/memories?mid=FR-3"}]}';
+
+    const memories: SnapchatMemory[] = [];
+    for await (const memory of parseMemoriesStream([text])) {
+      memories.push(memory);
+    }
+
+    expect(memories.map((m) => m.mediaId)).toEqual(['FR-3']);
+    expect(parseMemories(JSON.parse(text)).map((m) => m.mediaId)).toEqual(['FR-3']);
+  });
+
+  it('should parse a French HTML export', async () => {
+    const html = await readFile(
+      new URL('./__fixtures__/html/localized-fr.html', import.meta.url),
+      'utf-8'
+    );
+    const result = parseMemoriesFromHtml(html);
+
+    expect(result.map((m) => m.mediaId)).toEqual(['FR-1', 'FR-2']);
+    expect(result[0].mediaType).toBe('Video');
+    expect(result[0].location).toEqual({ latitude: 48.858844, longitude: 2.294351 });
+    expect(detectExportLocale(['date', 'type de média', 'lieu'])).toBe(FRENCH_LOCALE);
+  });
+});
+
+describe('loading from ZIP archives', () => {
+  let testDir: string;
+
+  const exportJson = JSON.stringify({
+    'Saved Media': [
+      {
+        Date: '2025-12-30 16:47:52 UTC',
+        'Media Type': 'Video',
+        Location: '',
+        'Download Link': 'https://app.snapchat.com/dmd/memories?mid=zip123',
+      },
+    ],
+  });
+
+  const writeExportZip = (path: string, entryPrefix = ''): void => {
+    const zip = new AdmZip();
+    zip.addFile(`${entryPrefix}json/memories_history.json`, Buffer.from(exportJson));
+    zip.addFile(`${entryPrefix}html/memories_history.html`, Buffer.from('<html></html>'));
+    zip.writeZip(path);
+  };
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `parser-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should find the JSON file inside a ZIP path', async () => {
+    const zipPath = join(testDir, 'mydata~1700000000000.zip');
+    writeExportZip(zipPath);
+
+    const result = await findMemoriesFile(zipPath);
+    expect(result).toEqual({
+      path: 'json/memories_history.json',
+      type: 'json',
+      source: zipPath,
+      zipPath,
+    });
+  });
+
+  it('should load memories from a ZIP with a nested mydata~ folder', async () => {
+    const zipPath = join(testDir, 'export.zip');
+    writeExportZip(zipPath, 'mydata~1700000000000/');
+
+    const memories = await loadMemories(zipPath);
+    expect(memories).toHaveLength(1);
+    expect(memories[0].mediaId).toBe('zip123');
+  });
+
+  it('should find ZIP archives in a folder', async () => {
+    writeExportZip(join(testDir, 'mydata~1700000000000.zip'));
+
+    const memories = await loadMemories(testDir);
+    expect(memories).toHaveLength(1);
+    expect(memories[0].mediaType).toBe('Video');
+  });
+
+  it('should throw when a ZIP has no memories file', async () => {
+    const zipPath = join(testDir, 'empty.zip');
+    const zip = new AdmZip();
+    zip.addFile('json/account.json', Buffer.from('{}'));
+    zip.writeZip(zipPath);
+
+    await expect(findMemoriesFile(zipPath)).rejects.toThrow('Could not find memories_history');
+  });
+});
+
+describe('mergeMemories', () => {
+  const createMemory = (mediaId: string, ts: number, source: string): SnapchatMemory => ({
+    date: new Date('2024-01-15T12:00:00Z'),
+    mediaType: 'Image',
+    location: null,
+    downloadUrl: `https://app.snapchat.com/dmd/memories?mid=${mediaId}&ts=${ts}`,
+    mediaDownloadUrl: null,
+    mediaId,
+    source,
+  });
+
+  it('should dedupe by mediaId keeping the freshest URLs', () => {
+    const result = mergeMemories([
+      createMemory('a', 2000, 'new-export'),
+      createMemory('b', 1000, 'old-export'),
+      createMemory('a', 1000, 'old-export'),
+    ]);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].mediaId).toBe('a');
+    expect(result[0].source).toBe('new-export');
+    expect(result[0].downloadUrl).toContain('ts=2000');
+  });
+
+  it('should replace older copies with fresher ones', () => {
+    const result = mergeMemories([createMemory('a', 1000, 'old'), createMemory('a', 3000, 'new')]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].source).toBe('new');
+  });
+});
+
+describe('loading multi-part exports', () => {
+  let testDir: string;
+
+  const writePart = async (folder: string, mediaIds: string[]): Promise<void> => {
+    const data = {
+      'Saved Media': mediaIds.map((mid) => ({
+        Date: '2025-12-30 16:47:52 UTC',
+        'Media Type': 'Image',
+        Location: '',
+        'Download Link': `https://app.snapchat.com/dmd/memories?mid=${mid}`,
+      })),
+    };
+    await mkdir(join(folder, 'json'), { recursive: true });
+    await writeFile(join(folder, 'json', 'memories_history.json'), JSON.stringify(data));
+  };
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `parser-parts-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should find every mydata~ part in a folder', async () => {
+    await writePart(join(testDir, 'mydata~1'), ['a']);
+    await writePart(join(testDir, 'mydata~2'), ['b']);
+
+    const results = await findMemoriesFiles(testDir);
+    expect(results.map((r) => r.source)).toEqual([
+      join(testDir, 'mydata~1'),
+      join(testDir, 'mydata~2'),
+    ]);
+  });
+
+  it('should combine parts and several export roots without duplicates', async () => {
+    await writePart(join(testDir, 'first', 'mydata~1'), ['a', 'b']);
+    await writePart(join(testDir, 'first', 'mydata~2'), ['c']);
+    await writePart(join(testDir, 'second'), ['b', 'd']);
+
+    const memories = await loadMemories([join(testDir, 'first'), join(testDir, 'second')]);
+    expect(memories.map((m) => m.mediaId)).toEqual(['a', 'b', 'c', 'd']);
+    expect(memories[3].source).toBe(join(testDir, 'second'));
+  });
+});
+
+describe('parseMemoriesStream', () => {
+  const entry = (mid: string): Record<string, string> => ({
+    Date: '2025-12-30 16:47:52 UTC',
+    'Media Type': 'Image',
+    Location: 'Latitude, Longitude: 41.714947, -93.46679',
+    'Download Link': `https://app.snapchat.com/dmd/memories?mid=${mid}&note="a,b]}"`,
+  });
+
+  // Split text into fixed-size chunks to exercise chunk boundaries
+  async function* chunked(text: string, size: number): AsyncGenerator<string> {
+    for (let i = 0; i < text.length; i += size) {
+      yield text.slice(i, i + size);
+    }
+  }
+
+  const collect = async (text: string, size = 7): Promise<SnapchatMemory[]> => {
+    const memories: SnapchatMemory[] = [];
+    for await (const memory of parseMemoriesStream(chunked(text, size))) {
+      memories.push(memory);
+    }
+    return memories;
+  };
+
+  it('should yield memories across chunk boundaries', async () => {
+    const text = JSON.stringify(
+      { Other: { 'Saved Media': [] }, 'Saved Media': [entry('a'), entry('b'), entry('c')] },
+      null,
+      2
+    );
+
+    for (const size of [1, 7, 64, text.length]) {
+      const memories = await collect(text, size);
+      expect(memories.map((m) => m.mediaId)).toEqual(['a', 'b', 'c']);
+    }
+  });
+
+  it('should handle an empty saved media array', async () => {
+    expect(await collect('{"Saved Media": []}')).toHaveLength(0);
+  });
+
+  it('should throw for invalid structure', async () => {
+    await expect(collect('[]')).rejects.toThrow('Invalid Snapchat export format');
+    await expect(collect('{"Saved Media": "not an array"}')).rejects.toThrow(
+      'Invalid Snapchat export format'
+    );
+  });
+
+  it('should throw for truncated JSON', async () => {
+    const text = JSON.stringify({ 'Saved Media': [entry('a'), entry('b')] });
+    await expect(collect(text.slice(0, -20))).rejects.toThrow('Invalid JSON');
+  });
+});
+
+describe('streamMemories', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `parser-stream-test-${Date.now()}`);
+    await mkdir(join(testDir, 'json'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should stream memories from an export folder', async () => {
+    const data = {
+      'Saved Media': ['x', 'y'].map((mid) => ({
+        Date: '2025-12-30 16:47:52 UTC',
+        'Media Type': 'Video',
+        Location: '',
+        'Download Link': `https://app.snapchat.com/dmd/memories?mid=${mid}`,
+      })),
+    };
+    await writeFile(join(testDir, 'json', 'memories_history.json'), JSON.stringify(data));
+
+    const ids: string[] = [];
+    for await (const memory of streamMemories(testDir)) {
+      expect(memory.source).toBe(testDir);
+      ids.push(memory.mediaId);
+    }
+    expect(ids).toEqual(['x', 'y']);
+  });
+
+  it('should attach media files included in the export', async () => {
+    const data = {
+      'Saved Media': ['x', 'y'].map((mid) => ({
+        Date: '2025-12-30 16:47:52 UTC',
+        'Media Type': 'Image',
+        Location: '',
+        'Download Link': `https://app.snapchat.com/dmd/memories?mid=${mid}`,
+      })),
+    };
+    await writeFile(join(testDir, 'json', 'memories_history.json'), JSON.stringify(data));
+    await mkdir(join(testDir, 'memories'));
+    await writeFile(join(testDir, 'memories', '2025-12-30_x-main.jpg'), 'jpg');
+
+    const memories = await loadMemories(testDir);
+    expect(memories[0].localMedia).toEqual({
+      main: { path: join(testDir, 'memories', '2025-12-30_x-main.jpg') },
+      overlay: null,
+    });
+    expect(memories[1].localMedia).toBeUndefined();
+  });
+
+  it('should rename and report different memories sharing a media ID', async () => {
+    const entry = (date: string): Record<string, string> => ({
+      Date: date,
+      'Media Type': 'Image',
+      Location: '',
+      'Download Link': 'https://app.snapchat.com/dmd/memories?mid=SAME',
+    });
+    const data = {
+      'Saved Media': [
+        entry('2024-01-01 00:00:00 UTC'),
+        entry('2024-02-01 00:00:00 UTC'),
+        entry('2024-01-01 00:00:00 UTC'),
+      ],
+    };
+    await writeFile(join(testDir, 'json', 'memories_history.json'), JSON.stringify(data));
+
+    const report = createParseReport();
+    const ids: string[] = [];
+    for await (const memory of streamMemories(testDir, report)) {
+      ids.push(memory.mediaId);
+    }
+
+    expect(ids[0]).toBe('SAME');
+    expect(ids[1]).toMatch(/^SAME-[0-9a-f]{8}$/);
+    expect(ids[2]).toBe('SAME');
+    expect(report.duplicates).toEqual([
+      {
+        mediaId: 'SAME',
+        resolvedId: ids[1],
+        date: '2024-02-01T00:00:00.000Z',
+        mediaType: 'Image',
+        source: testDir,
+      },
+    ]);
+    expect(await loadMemories(testDir)).toHaveLength(2);
+  });
+});
+
+describe('parseMemoriesFromHtml', () => {
+  const readFixture = (name: string): Promise<string> =>
+    readFile(new URL(`./__fixtures__/html/${name}`, import.meta.url), 'utf-8');
+
+  it('should parse the legacy onclick table format', async () => {
+    const result = parseMemoriesFromHtml(await readFixture('legacy-onclick.html'));
+
+    expect(result).toHaveLength(2);
+    expect(result[0].mediaId).toBe('LEGACY-1');
+    expect(result[0].date.toISOString()).toBe('2023-06-15T14:30:22.000Z');
+    expect(result[0].location).toEqual({ latitude: 41.714947, longitude: -93.46679 });
+    expect(result[0].downloadUrl).toBe(
+      'https://app.snapchat.com/dmd/memories?uid=u1&mid=LEGACY-1&ts=1700000000000&proxy=true'
+    );
+    expect(result[1].mediaType).toBe('Video');
+    expect(result[1].location).toBeNull();
+  });
+
+  it('should parse rows with attributes and href links', async () => {
+    const result = parseMemoriesFromHtml(await readFixture('attributes-href.html'));
+
+    expect(result.map((m) => m.mediaId)).toEqual(['ATTR-1', 'ATTR-2']);
+    expect(result[0].location).toEqual({ latitude: -33.86882, longitude: 151.20929 });
+    expect(result[1].mediaType).toBe('Video');
+    expect(result[1].downloadUrl).toContain('us-east1-aws.api.snapchat.com/dmd/mm');
+  });
+
+  it('should read reordered and extra columns by header name', async () => {
+    const result = parseMemoriesFromHtml(await readFixture('reordered-extra-columns.html'));
+
+    expect(result).toHaveLength(2);
+    expect(result[0].mediaType).toBe('Video');
+    expect(result[0].date.toISOString()).toBe('2022-08-20T18:45:00.000Z');
+    expect(result[0].location).toEqual({ latitude: 48.858844, longitude: 2.294351 });
+    expect(result[0].downloadUrl).toContain('proxy=true');
+    expect(result[0].mediaDownloadUrl).toContain('media=true');
+    expect(result[1].mediaDownloadUrl).toBeNull();
+  });
+
+  it('should use a plain header row and report invalid rows', async () => {
+    const report = createParseReport();
+    const result = parseMemoriesFromHtml(await readFixture('no-header-cells.html'), report);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].mediaId).toBe('NOHEAD-1');
+    expect(result[0].location).toEqual({ latitude: 0, longitude: 0 });
+    expect(report.rejected.map((r) => [r.index, r.reason])).toEqual([
+      [1, 'invalid-date'],
+      [2, 'unknown-media-type'],
+    ]);
+    expect(report.rejected[0].fields.date).toBe('not a date');
+  });
+
+  it('should throw when no memories can be parsed', () => {
+    expect(() => parseMemoriesFromHtml('<html><body><p>No table</p></body></html>')).toThrow(
+      'Could not parse any memories from HTML'
+    );
+  });
 });
@@ -2,67 +2,172 @@
  * Parser module for Snapchat JSON and HTML export files
  */
 
-import { readFile } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { readFile, readdir, stat } from 'node:fs/promises';
 import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { isZipPath, listZipEntries, openZipEntryStream, readZipEntryText } from './archive.js';
+import { HtmlTableCell, HtmlTableRow, readHtmlTableRows } from './htmltable.js';
+import {
+  detectExportFormat,
+  ExportFormatAdapter,
+  FormatMatch,
+  getFormatAdapter,
+  registerFormatAdapter,
+} from './formats.js';
+import { JsonStreamError, streamJsonArray } from './jsonstream.js';
+import { indexLocalMedia, matchLocalMedia } from './localmedia.js';
+import {
+  detectExportLocale,
+  ENGLISH_LOCALE,
+  EXPORT_LOCALES,
+  ExportField,
+  ExportLocale,
+  getEntryField,
+  getSavedMediaKeys,
+  isFieldName,
+  lookupMediaType,
+} from './locale.js';
+import {
+  createParseReport,
+  mergeParseReport,
+  recordDuplicateId,
+  recordRejection,
+} from './report.js';
 import {
   GpsCoordinates,
+  InvalidEntryError,
   MediaType,
   ParseError,
+  MemoriesFileResult,
+  ParseReport,
   RawSnapchatEntry,
-  RawSnapchatExport,
   SnapchatMemory,
 } from './types.js';
 
 /**
- * Result from finding memories file
+ * Parsed memories together with the report of skipped entries
+ */
+export interface ParseResult {
+  readonly memories: SnapchatMemory[];
+  readonly report: ParseReport;
+}
+
+/**
+ * Entry names of the memories file inside a Snapchat export ZIP
+ */
+const ZIP_JSON_ENTRY = /(^|\/)json\/memories_history\.json$/;
+const ZIP_HTML_ENTRY = /(^|\/)html\/memories_history\.html$/;
+
+/**
+ * Build the pattern matching a location string with the given prefix
+ * Spacing around the prefix punctuation is flexible; with a decimal comma the
+ * coordinates may be written as "52,520008, 13,404954".
  */
-interface MemoriesFileResult {
-  path: string;
-  type: 'json' | 'html';
+function buildLocationPattern(prefix: string, decimalComma: boolean): RegExp {
+  const escapedPrefix = prefix
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\s*([,:])\s*/g, '\\s*$1\\s*');
+  const coordinate = decimalComma ? '-?\\d+(?:[.,]\\d+)?' : '[-\\d.]+';
+  return new RegExp(`${escapedPrefix}\\s*(${coordinate})\\s*[,;]\\s*(${coordinate})`, 'i');
 }
 
+/**
+ * Location patterns of every supported locale
+ */
+const LOCATION_PATTERNS = new Map<ExportLocale, RegExp[]>(
+  EXPORT_LOCALES.map((locale) => [
+    locale,
+    locale.locationPrefixes.map((prefix) => buildLocationPattern(prefix, locale.decimalComma)),
+  ])
+);
+
 /**
  * Parse location string from Snapchat export
  * Format: "Latitude, Longitude: 41.714947, -93.46679"
+ * Localized prefixes ("Breitengrad, Längengrad: 52,520008, 13,404954") are
+ * recognized too, trying the given locale first.
  */
-export function parseLocation(locationStr: string): GpsCoordinates | null {
+export function parseLocation(
+  locationStr: string,
+  locale: ExportLocale = ENGLISH_LOCALE
+): GpsCoordinates | null {
   if (!locationStr || locationStr.trim() === '') {
     return null;
   }
 
-  const match = locationStr.match(/Latitude,\s*Longitude:\s*([-\d.]+),\s*([-\d.]+)/);
-  if (!match) {
-    return null;
-  }
+  for (const candidate of [locale, ...EXPORT_LOCALES]) {
+    for (const pattern of LOCATION_PATTERNS.get(candidate) ?? []) {
+      const match = locationStr.match(pattern);
+      if (!match) {
+        continue;
+      }
 
-  const latitude = parseFloat(match[1]);
-  const longitude = parseFloat(match[2]);
+      const latitude = parseFloat(match[1].replace(',', '.'));
+      const longitude = parseFloat(match[2].replace(',', '.'));
 
-  if (isNaN(latitude) || isNaN(longitude)) {
-    return null;
+      if (isNaN(latitude) || isNaN(longitude)) {
+        return null;
+      }
+
+      return { latitude, longitude };
+    }
   }
 
-  return { latitude, longitude };
+  return null;
 }
 
 /**
  * Parse date string from Snapchat export
- * Format: "2025-12-30 16:47:52 UTC"
+ * Format: "2025-12-30 16:47:52 UTC" (the time zone suffix follows the locale)
  */
-export function parseDate(dateStr: string): Date {
-  // Replace UTC with Z for proper ISO parsing
-  const isoString = dateStr.replace(' UTC', 'Z').replace(' ', 'T');
-  const date = new Date(isoString);
+export function parseDate(dateStr: string, locale: ExportLocale = ENGLISH_LOCALE): Date {
+  // Replace the UTC suffix with Z for proper ISO parsing
+  let isoString = dateStr.trim();
+  for (const suffix of new Set([...locale.utcSuffixes, ...ENGLISH_LOCALE.utcSuffixes])) {
+    if (isoString.endsWith(` ${suffix}`)) {
+      isoString = `${isoString.slice(0, -suffix.length - 1)}Z`;
+      break;
+    }
+  }
+
+  const date = new Date(isoString.replace(' ', 'T'));
 
   if (isNaN(date.getTime())) {
-    throw new ParseError(`Invalid date format: ${dateStr}`);
+    throw new InvalidEntryError('invalid-date', `Invalid date format: ${dateStr}`);
   }
 
   return date;
 }
 
+/**
+ * Query parameters that change between exports of the same memory
+ * Signed links carry a fresh signature and generation timestamp each time.
+ */
+const VOLATILE_URL_PARAMS = new Set(['sig', 'signature', 'ts', 'expires', 'x-amz-signature']);
+
+/**
+ * Get the parts of a download URL that stay the same across exports
+ * Drops volatile parameters and sorts the rest so parameter order doesn't matter
+ */
+function getStableUrl(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const params = Array.from(urlObj.searchParams.entries())
+      .filter(([name]) => !VOLATILE_URL_PARAMS.has(name.toLowerCase()))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `${urlObj.origin}${urlObj.pathname}?${new URLSearchParams(params).toString()}`;
+  } catch {
+    return url.trim();
+  }
+}
+
 /**
  * Extract media ID from download URL
+ * Uses the 'mid' parameter, or a SHA-256 digest of the stable URL parts when
+ * the URL has none.
  */
 export function extractMediaId(url: string): string {
   try {
@@ -75,7 +180,24 @@ export function extractMediaId(url: string): string {
     // Fall through to generate ID from URL
   }
 
-  // Fallback: generate ID from URL hash
+  return createHash('sha256').update(getStableUrl(url)).digest('hex').substring(0, 32);
+}
+
+/**
+ * Media ID produced by earlier versions for a download URL
+ * The fallback was a 32-bit rolling hash of the full URL, which collides on
+ * large exports. Kept only to migrate manifests keyed by these IDs.
+ */
+export function extractLegacyMediaId(url: string): string {
+  try {
+    const mid = new URL(url).searchParams.get('mid');
+    if (mid) {
+      return mid;
+    }
+  } catch {
+    // Fall through to generate ID from URL
+  }
+
   let hash = 0;
   for (let i = 0; i < url.length; i++) {
     const char = url.charCodeAt(i);
@@ -86,135 +208,278 @@ export function extractMediaId(url: string): string {
 }
 
 /**
- * Validate media type
+ * Validate media type, mapping localized labels ("Bild", "Vidéo") to Image or Video
  */
-export function validateMediaType(mediaType: string): MediaType {
-  if (mediaType === 'Image' || mediaType === 'Video') {
-    return mediaType;
+export function validateMediaType(
+  mediaType: string,
+  locale: ExportLocale = ENGLISH_LOCALE
+): MediaType {
+  const validated = lookupMediaType(mediaType, locale);
+  if (validated) {
+    return validated;
   }
-  throw new ParseError(`Invalid media type: ${mediaType}`);
+  throw new InvalidEntryError('unknown-media-type', `Invalid media type: ${mediaType}`);
+}
+
+/**
+ * Parse a location field, rejecting non-empty values that cannot be read
+ */
+function parseEntryLocation(locationStr: string, locale: ExportLocale): GpsCoordinates | null {
+  const location = parseLocation(locationStr, locale);
+  if (!location && locationStr.trim() !== '') {
+    throw new InvalidEntryError('invalid-location', `Invalid location: ${locationStr}`);
+  }
+  return location;
 }
 
 /**
  * Parse a single raw entry into a SnapchatMemory
+ * Key names are looked up in the given locale, detected from the entry's keys
+ * when not passed.
  */
-export function parseEntry(entry: RawSnapchatEntry): SnapchatMemory {
+export function parseEntry(entry: RawSnapchatEntry, locale?: ExportLocale): SnapchatMemory {
+  if (typeof entry !== 'object' || entry === null) {
+    throw new InvalidEntryError('invalid-entry', 'Entry is not an object');
+  }
+
+  const fields = entry as unknown as Record<string, unknown>;
+  const entryLocale = locale ?? detectExportLocale(Object.keys(fields));
+  const field = (name: ExportField): string => {
+    const value = getEntryField(fields, name, entryLocale);
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+  };
+
+  const downloadUrl = getEntryField(fields, 'downloadLink', entryLocale);
+  if (typeof downloadUrl !== 'string' || downloadUrl.trim() === '') {
+    throw new InvalidEntryError('missing-url', 'Entry has no download link');
+  }
+
   return {
-    date: parseDate(entry.Date),
-    mediaType: validateMediaType(entry['Media Type']),
-    location: parseLocation(entry.Location),
-    downloadUrl: entry['Download Link'],
-    mediaDownloadUrl: entry['Media Download Url'] || null,
-    mediaId: extractMediaId(entry['Download Link']),
+    date: parseDate(field('date'), entryLocale),
+    mediaType: validateMediaType(field('mediaType'), entryLocale),
+    location: parseEntryLocation(field('location'), entryLocale),
+    downloadUrl,
+    mediaDownloadUrl: field('mediaDownloadUrl') || null,
+    mediaId: extractMediaId(downloadUrl),
   };
 }
 
 /**
- * Validate that the JSON has the expected structure
+ * Find the "Saved Media" array of an export, under any localized key
  */
-function isValidExport(data: unknown): data is RawSnapchatExport {
+function getSavedMedia(data: unknown): unknown[] | null {
   if (typeof data !== 'object' || data === null) {
-    return false;
+    return null;
   }
 
   const obj = data as Record<string, unknown>;
-  if (!Array.isArray(obj['Saved Media'])) {
-    return false;
+  for (const key of getSavedMediaKeys()) {
+    const entries = obj[key];
+    if (Array.isArray(entries)) {
+      return entries as unknown[];
+    }
   }
 
-  return true;
+  return null;
 }
 
 /**
  * Parse memories from raw JSON data
+ * Entries that cannot be parsed are skipped and recorded in the report.
  */
-export function parseMemories(data: unknown): SnapchatMemory[] {
-  if (!isValidExport(data)) {
+export function parseMemories(
+  data: unknown,
+  report: ParseReport = createParseReport()
+): SnapchatMemory[] {
+  const entries = getSavedMedia(data);
+  if (!entries) {
     throw new ParseError('Invalid Snapchat export format. Expected "Saved Media" array.');
   }
 
-  const entries = data['Saved Media'];
   const memories: SnapchatMemory[] = [];
 
-  for (const entry of entries) {
+  entries.forEach((entry, index) => {
     try {
-      memories.push(parseEntry(entry));
+      memories.push(parseEntry(entry as RawSnapchatEntry));
     } catch (error) {
-      // Log warning but continue processing other entries
-      console.warn(
-        `Skipping invalid entry: ${error instanceof Error ? error.message : 'Unknown error'}`
+      recordRejection(report, index, entry, error);
+    }
+  });
+
+  return memories;
+}
+
+/**
+ * Parse memories from a stream of JSON text chunks
+ * Yields each memory as soon as its entry has been read, without holding the
+ * whole document or the full memory list in memory. Entries that cannot be
+ * parsed are skipped and recorded in the report.
+ */
+export async function* parseMemoriesStream(
+  chunks: AsyncIterable<string>,
+  report: ParseReport = createParseReport()
+): AsyncGenerator<SnapchatMemory> {
+  let index = 0;
+
+  try {
+    for await (const entry of streamJsonArray(chunks, getSavedMediaKeys())) {
+      let memory: SnapchatMemory;
+      try {
+        memory = parseEntry(entry as RawSnapchatEntry);
+      } catch (error) {
+        recordRejection(report, index++, entry, error);
+        continue;
+      }
+      index++;
+      yield memory;
+    }
+  } catch (error) {
+    if (error instanceof JsonStreamError) {
+      throw new ParseError(
+        error.kind === 'structure'
+          ? 'Invalid Snapchat export format. Expected "Saved Media" array.'
+          : 'Invalid JSON in memories_history.json'
       );
     }
+    throw error;
   }
+}
 
-  return memories;
+/**
+ * Header patterns for the columns of the memories_history.html table
+ * The media download column is matched before the generic download column.
+ * Localized headers are matched through the locale tables instead.
+ */
+const HTML_COLUMN_PATTERNS = {
+  date: /^date\b/,
+  mediaType: /\btype\b/,
+  location: /\blocation\b/,
+  mediaDownloadUrl: /\bmedia download\b/,
+  downloadUrl: /\bdownload\b|\blink\b/,
+} as const;
+
+type HtmlColumn = keyof typeof HTML_COLUMN_PATTERNS;
+
+/**
+ * Export field read from each HTML column
+ */
+const HTML_COLUMN_FIELDS: Record<HtmlColumn, ExportField> = {
+  date: 'date',
+  mediaType: 'mediaType',
+  location: 'location',
+  mediaDownloadUrl: 'mediaDownloadUrl',
+  downloadUrl: 'downloadLink',
+};
+
+/**
+ * Column positions used when a table has no recognizable header row
+ * Matches the original layout: date, media type, location, download link
+ */
+const HTML_DEFAULT_COLUMNS: Record<HtmlColumn, number> = {
+  date: 0,
+  mediaType: 1,
+  location: 2,
+  mediaDownloadUrl: -1,
+  downloadUrl: 3,
+};
+
+/**
+ * Check if a header names the given column, in English or in the locale
+ */
+function matchesHtmlColumn(header: string, column: HtmlColumn, locale: ExportLocale): boolean {
+  return (
+    HTML_COLUMN_PATTERNS[column].test(header) ||
+    isFieldName(header, HTML_COLUMN_FIELDS[column], locale)
+  );
 }
 
 /**
- * Decode HTML entities in a string
+ * Check if a row of plain cells is actually a header row
  */
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&#x27;/g, "'")
-    .replace(/&#x2F;/g, '/');
+function isHtmlHeaderRow(texts: readonly string[]): boolean {
+  const locale = detectExportLocale(texts);
+  return (
+    texts.some((text) => matchesHtmlColumn(text, 'date', locale)) &&
+    texts.some((text) => matchesHtmlColumn(text, 'mediaType', locale))
+  );
 }
 
 /**
- * Extract URL from onclick handler in HTML
- * Format: onclick="downloadMemories('https://...', this, true); return false;"
+ * Map column names to cell positions from a row's headers
  */
-function extractUrlFromOnclick(onclick: string): string | null {
-  const match = onclick.match(/downloadMemories\s*\(\s*'([^']+)'/);
-  if (match) {
-    return decodeHtmlEntities(match[1]);
+function resolveHtmlColumns(
+  headers: readonly string[],
+  locale: ExportLocale
+): Record<HtmlColumn, number> {
+  if (!isHtmlHeaderRow(headers)) {
+    return HTML_DEFAULT_COLUMNS;
   }
-  return null;
+
+  const find = (column: HtmlColumn, skip = -1): number =>
+    headers.findIndex((h, index) => index !== skip && matchesHtmlColumn(h, column, locale));
+  const mediaDownloadUrl = find('mediaDownloadUrl');
+  return {
+    date: find('date'),
+    mediaType: find('mediaType'),
+    location: find('location'),
+    mediaDownloadUrl,
+    downloadUrl: find('downloadUrl', mediaDownloadUrl),
+  };
+}
+
+/**
+ * Get the raw values of an HTML row, keyed by header name (or column number)
+ */
+function getHtmlRowFields(row: HtmlTableRow): Record<string, string> {
+  const fields: Record<string, string> = {};
+  row.cells.forEach((cell, index) => {
+    const name = row.headers[index] || `column ${index + 1}`;
+    fields[name] = cell.urls.length > 0 ? cell.urls.join(' ') : cell.text;
+  });
+  return fields;
 }
 
 /**
  * Parse memories from HTML table content
  * Parses the memories_history.html format when JSON is not available
+ *
+ * Columns are located by header name, in English or any supported locale, so
+ * attributes, reordered or extra columns are tolerated. Download links may be
+ * plain hrefs or onclick handlers. When no download column is found, the first
+ * link in the row is used.
  */
-export function parseMemoriesFromHtml(html: string): SnapchatMemory[] {
+export function parseMemoriesFromHtml(
+  html: string,
+  report: ParseReport = createParseReport()
+): SnapchatMemory[] {
   const memories: SnapchatMemory[] = [];
 
-  // Find all table rows (skip header row)
-  // Each data row has format: <tr><td>date</td><td>mediaType</td><td>location</td><td>download link</td></tr>
-  const rowRegex =
-    /<tr>\s*<td>([^<]+)<\/td>\s*<td>([^<]+)<\/td>\s*<td>([^<]*)<\/td>\s*<td>.*?onclick="([^"]+)".*?<\/td>\s*<\/tr>/g;
-
-  let match;
-  while ((match = rowRegex.exec(html)) !== null) {
-    const [, dateStr, mediaTypeStr, locationStr, onclick] = match;
+  readHtmlTableRows(html, isHtmlHeaderRow).forEach((row, index) => {
+    const locale = detectExportLocale(row.headers);
+    const columns = resolveHtmlColumns(row.headers, locale);
+    const cell = (column: HtmlColumn): HtmlTableCell | undefined => row.cells[columns[column]];
 
     try {
-      const downloadUrl = extractUrlFromOnclick(onclick);
+      const mediaDownloadUrl = cell('mediaDownloadUrl')?.urls[0] ?? null;
+      const downloadUrl =
+        cell('downloadUrl')?.urls[0] ??
+        row.cells.flatMap((c) => c.urls).find((url) => url !== mediaDownloadUrl);
       if (!downloadUrl) {
-        console.warn('Skipping row: could not extract download URL from onclick handler');
-        continue;
+        throw new InvalidEntryError('missing-url', 'Could not find a download URL in row');
       }
 
-      const memory: SnapchatMemory = {
-        date: parseDate(dateStr.trim()),
-        mediaType: validateMediaType(mediaTypeStr.trim()),
-        location: parseLocation(locationStr.trim()),
-        downloadUrl: downloadUrl,
-        mediaDownloadUrl: null, // HTML format doesn't have overlay URLs
+      memories.push({
+        date: parseDate(cell('date')?.text ?? '', locale),
+        mediaType: validateMediaType(cell('mediaType')?.text ?? '', locale),
+        location: parseEntryLocation(cell('location')?.text ?? '', locale),
+        downloadUrl,
+        mediaDownloadUrl,
         mediaId: extractMediaId(downloadUrl),
-      };
-
-      memories.push(memory);
+      });
     } catch (error) {
-      console.warn(
-        `Skipping invalid HTML row: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      recordRejection(report, index, getHtmlRowFields(row), error);
     }
-  }
+  });
 
   if (memories.length === 0) {
     throw new ParseError(
@@ -226,87 +491,455 @@ export function parseMemoriesFromHtml(html: string): SnapchatMemory[] {
 }
 
 /**
- * Try to read a file, returns null if it doesn't exist
+ * Check if a path exists and is a regular file
  */
-async function tryReadFile(path: string): Promise<string | null> {
+async function isFile(path: string): Promise<boolean> {
   try {
-    return await readFile(path, 'utf-8');
+    return (await stat(path)).isFile();
   } catch {
-    return null;
+    return false;
   }
 }
 
 /**
- * Find the memories file (JSON or HTML) in a Snapchat export folder
- * Prefers JSON but falls back to HTML if JSON is not available
+ * Locate a memories file in an export part
+ *
+ * @param part - Export folder or ZIP archive
+ * @param relativePath - Location of the file in an extracted folder
+ * @param zipEntry - Entry name pattern of the file inside a ZIP (at any depth)
+ * @param type - Name of the format adapter reading the file
  */
-export async function findMemoriesFile(exportPath: string): Promise<MemoriesFileResult> {
-  const { readdir } = await import('node:fs/promises');
+async function locateExportFile(
+  part: string,
+  relativePath: string,
+  zipEntry: RegExp,
+  type: string
+): Promise<MemoriesFileResult | null> {
+  if (isZipPath(part) && (await isFile(part))) {
+    let entries: string[];
+    try {
+      entries = await listZipEntries(part);
+    } catch {
+      // Not a readable ZIP archive
+      return null;
+    }
 
-  // Paths to check in order of preference
-  const pathsToCheck: Array<{ jsonPath: string; htmlPath: string }> = [];
+    const entry = entries.find((name) => zipEntry.test(name));
+    return entry ? { path: entry, type, source: part, zipPath: part } : null;
+  }
 
-  // Direct paths
-  pathsToCheck.push({
-    jsonPath: join(exportPath, 'json', 'memories_history.json'),
-    htmlPath: join(exportPath, 'html', 'memories_history.html'),
-  });
+  const path = join(part, relativePath);
+  return (await isFile(path)) ? { path, type, source: part } : null;
+}
+
+/**
+ * Read the contents of a memories file, from disk or from inside a ZIP
+ */
+async function readMemoriesFile(fileResult: MemoriesFileResult): Promise<string> {
+  if (fileResult.zipPath) {
+    return readZipEntryText(fileResult.zipPath, fileResult.path);
+  }
+  return readFile(fileResult.path, 'utf-8');
+}
+
+/**
+ * Open a memories file as a text stream, from disk or from inside a ZIP
+ */
+async function openMemoriesFile(fileResult: MemoriesFileResult): Promise<Readable> {
+  const stream = fileResult.zipPath
+    ? await openZipEntryStream(fileResult.zipPath, fileResult.path)
+    : createReadStream(fileResult.path);
+  return stream.setEncoding('utf-8');
+}
+
+/**
+ * Number of characters read from the start of a file to recognize its schema
+ */
+const DETECT_HEAD_LENGTH = 64 * 1024;
+
+/**
+ * Read the start of a memories file without loading the rest
+ */
+async function readMemoriesFileHead(fileResult: MemoriesFileResult): Promise<string> {
+  const stream = await openMemoriesFile(fileResult);
+  let head = '';
 
-  // Look for mydata~ folders
+  try {
+    for await (const chunk of stream) {
+      head += chunk as string;
+      if (head.length >= DETECT_HEAD_LENGTH) break;
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  return head.substring(0, DETECT_HEAD_LENGTH);
+}
+
+/**
+ * Find the saved media key among the property names in the head of a JSON export
+ * Names are decoded first, as non-ASCII keys can be written with \uXXXX escapes.
+ */
+function findSavedMediaKey(head: string): string | undefined {
+  const keys = getSavedMediaKeys();
+  for (const match of head.matchAll(/"((?:[^"\\]|\\.)*)"\s*:/g)) {
+    try {
+      const name = JSON.parse(`"${match[1]}"`) as string;
+      if (keys.includes(name)) return name;
+    } catch {
+      // Not a valid string, e.g. cut off by the end of the head
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Adapter for json/memories_history.json
+ * Entries are parsed incrementally from the "Saved Media" array (or its
+ * localized name).
+ */
+const jsonFormatAdapter: ExportFormatAdapter = {
+  name: 'json',
+  description: 'JSON export (json/memories_history.json)',
+
+  async detect(path) {
+    const file = await locateExportFile(
+      path,
+      join('json', 'memories_history.json'),
+      ZIP_JSON_ENTRY,
+      'json'
+    );
+    if (!file) {
+      return null;
+    }
+
+    const head = await readMemoriesFileHead(file);
+    const key = findSavedMediaKey(head);
+    const reason = key
+      ? `${file.path} has a ${JSON.stringify(key)} key (${detectExportLocale([key]).name})`
+      : `${file.path} found, but no "Saved Media" key in its first ${DETECT_HEAD_LENGTH / 1024} KB`;
+    return { file, reason };
+  },
+
+  async *parse(file, report) {
+    const stream = await openMemoriesFile(file);
+    try {
+      yield* parseMemoriesStream(stream, report);
+    } finally {
+      stream.destroy();
+    }
+  },
+};
+
+/**
+ * Adapter for html/memories_history.html
+ * Used when an export part has no JSON file; the page is read in one go.
+ */
+const htmlFormatAdapter: ExportFormatAdapter = {
+  name: 'html',
+  description: 'HTML export (html/memories_history.html)',
+
+  async detect(path) {
+    const file = await locateExportFile(
+      path,
+      join('html', 'memories_history.html'),
+      ZIP_HTML_ENTRY,
+      'html'
+    );
+    if (!file) {
+      return null;
+    }
+
+    const head = await readMemoriesFileHead(file);
+    const reason = /<table[\s>]/i.test(head)
+      ? `${file.path} has a memories table and no JSON file was found`
+      : `${file.path} found, but no <table> in its first ${DETECT_HEAD_LENGTH / 1024} KB`;
+    return { file, reason };
+  },
+
+  async *parse(file, report) {
+    yield* parseMemoriesFromHtml(await readMemoriesFile(file), report);
+  },
+};
+
+registerFormatAdapter(jsonFormatAdapter);
+registerFormatAdapter(htmlFormatAdapter);
+
+/**
+ * List the parts of an export: the export path itself, then any mydata~ folders
+ * and ZIP archives inside it (mydata~ archives first)
+ */
+async function listExportParts(exportPath: string): Promise<string[]> {
+  if (isZipPath(exportPath) && (await isFile(exportPath))) {
+    return [exportPath];
+  }
+
+  // Look for mydata~ folders and ZIP archives
+  const folders: string[] = [];
+  const zips: string[] = [];
   try {
     const entries = await readdir(exportPath, { withFileTypes: true });
     for (const entry of entries) {
       if (entry.isDirectory() && entry.name.startsWith('mydata~')) {
-        pathsToCheck.push({
-          jsonPath: join(exportPath, entry.name, 'json', 'memories_history.json'),
-          htmlPath: join(exportPath, entry.name, 'html', 'memories_history.html'),
-        });
+        folders.push(join(exportPath, entry.name));
+      } else if (entry.isFile() && isZipPath(entry.name)) {
+        zips.push(join(exportPath, entry.name));
       }
     }
   } catch {
     // Ignore readdir errors
   }
 
-  // Try each location, preferring JSON over HTML
-  for (const { jsonPath, htmlPath } of pathsToCheck) {
-    // Try JSON first
-    const jsonContent = await tryReadFile(jsonPath);
-    if (jsonContent !== null) {
-      return { path: jsonPath, type: 'json' };
-    }
+  // Extracted folders first, then ZIP archives (mydata~ archives first)
+  folders.sort();
+  zips.sort((a, b) => Number(!a.includes('mydata~')) - Number(!b.includes('mydata~')));
+
+  return [exportPath, ...folders, ...zips];
+}
 
-    // Fall back to HTML
-    const htmlContent = await tryReadFile(htmlPath);
-    if (htmlContent !== null) {
-      return { path: htmlPath, type: 'html' };
+/**
+ * Run the registered format adapters over every part of an export
+ * Parts no adapter recognizes are included with a null adapter.
+ */
+export async function detectExportFormats(exportPath: string): Promise<FormatMatch[]> {
+  const matches: FormatMatch[] = [];
+  for (const part of await listExportParts(exportPath)) {
+    matches.push(await detectExportFormat(part));
+  }
+  return matches;
+}
+
+/**
+ * Find every memories file (JSON or HTML) in a Snapchat export folder or ZIP
+ *
+ * Multi-part exports come as several mydata~ folders or ZIPs side by side, so
+ * each part found under the export path yields its own result. Within a part,
+ * the first registered format adapter that recognizes it is used, so JSON is
+ * preferred over HTML.
+ */
+export async function findMemoriesFiles(exportPath: string): Promise<MemoriesFileResult[]> {
+  // The export path itself may be a downloaded ZIP archive
+  if (isZipPath(exportPath) && (await isFile(exportPath))) {
+    const { detection } = await detectExportFormat(exportPath);
+    if (detection) {
+      return [detection.file];
     }
+    throw new ParseError(
+      `Could not find memories_history.json or memories_history.html in ${exportPath}. ` +
+        'Expected a json/ or html/ folder inside the ZIP archive.'
+    );
   }
 
-  throw new ParseError(
-    `Could not find memories_history.json or memories_history.html in ${exportPath}. ` +
-      'Expected path: <export>/json/memories_history.json, <export>/html/memories_history.html, ' +
-      'or <export>/mydata~*/json/memories_history.json, <export>/mydata~*/html/memories_history.html'
+  const results = (await detectExportFormats(exportPath)).flatMap((match) =>
+    match.detection ? [match.detection.file] : []
   );
+
+  if (results.length === 0) {
+    throw new ParseError(
+      `Could not find memories_history.json or memories_history.html in ${exportPath}. ` +
+        'Expected path: <export>/json/memories_history.json, <export>/html/memories_history.html, ' +
+        'or <export>/mydata~*/json/memories_history.json, <export>/mydata~*/html/memories_history.html, ' +
+        'or a mydata~*.zip archive containing one of them'
+    );
+  }
+
+  return results;
 }
 
 /**
- * Load and parse Snapchat memories from an export folder
- * Supports both JSON and HTML export formats
+ * Find the memories file (JSON or HTML) in a Snapchat export folder or ZIP
+ * Returns the first part found; use findMemoriesFiles for multi-part exports
  */
-export async function loadMemories(exportPath: string): Promise<SnapchatMemory[]> {
-  const fileResult = await findMemoriesFile(exportPath);
-  const content = await readFile(fileResult.path, 'utf-8');
+export async function findMemoriesFile(exportPath: string): Promise<MemoriesFileResult> {
+  const [first] = await findMemoriesFiles(exportPath);
+  return first;
+}
 
-  if (fileResult.type === 'json') {
-    let data: unknown;
-    try {
-      data = JSON.parse(content);
-    } catch {
-      throw new ParseError('Invalid JSON in memories_history.json');
+/**
+ * Stream the memories in a single memories file, tagged with its source
+ * The file is parsed by the format adapter that found it.
+ */
+async function* streamMemoriesFile(
+  fileResult: MemoriesFileResult,
+  report: ParseReport
+): AsyncGenerator<SnapchatMemory> {
+  const fileReport = createParseReport();
+
+  try {
+    for await (const memory of getFormatAdapter(fileResult.type).parse(fileResult, fileReport)) {
+      yield { ...memory, source: fileResult.source };
+    }
+  } finally {
+    mergeParseReport(report, fileReport, fileResult.source);
+  }
+}
+
+/**
+ * Identify a memory independently of its download URL
+ */
+function getMemoryFingerprint(memory: SnapchatMemory): string {
+  return `${memory.date.toISOString()}|${memory.mediaType}`;
+}
+
+/**
+ * Get the suffix a memory's ID is given when another memory has its media ID
+ */
+function getDuplicateIdSuffix(memory: SnapchatMemory): string {
+  return createHash('sha256').update(getMemoryFingerprint(memory)).digest('hex').substring(0, 8);
+}
+
+/**
+ * Get the IDs a memory may have been given: its plain media ID and the one with its suffix
+ * A memory sharing its media ID with another one may have had either ID in an
+ * earlier run, when the memories were read in a different order.
+ */
+export function getMemoryIdCandidates(memory: SnapchatMemory): string[] {
+  const suffix = `-${getDuplicateIdSuffix(memory)}`;
+  return memory.mediaId.endsWith(suffix)
+    ? [memory.mediaId, memory.mediaId.slice(0, -suffix.length)]
+    : [memory.mediaId, `${memory.mediaId}${suffix}`];
+}
+
+/**
+ * Give a memory a distinct ID when its media ID is already taken by another memory
+ *
+ * The same memory appearing twice (multi-part overlap, repeated exports) keeps
+ * its ID so it can be deduplicated. A different memory with the same ID gets a
+ * suffix derived from its date and type, and the clash is reported. Which of
+ * the memories keeps the plain ID depends on the order they are read in, so
+ * the manifest looks a memory up by either (see getMemoryIdCandidates).
+ */
+function resolveDuplicateId(
+  memory: SnapchatMemory,
+  seen: Map<string, string>,
+  report: ParseReport
+): SnapchatMemory {
+  const fingerprint = getMemoryFingerprint(memory);
+  const existing = seen.get(memory.mediaId);
+
+  if (existing === undefined) {
+    seen.set(memory.mediaId, fingerprint);
+    return memory;
+  }
+  if (existing === fingerprint) {
+    return memory;
+  }
+
+  const resolved = { ...memory, mediaId: `${memory.mediaId}-${getDuplicateIdSuffix(memory)}` };
+  if (!seen.has(resolved.mediaId)) {
+    seen.set(resolved.mediaId, fingerprint);
+    recordDuplicateId(report, memory, resolved.mediaId);
+  }
+  return resolved;
+}
+
+/**
+ * Stream Snapchat memories from one or more export folders or ZIP archives
+ *
+ * Memories are yielded one at a time in file order. Unlike loadMemories, no
+ * deduplication across parts is done, since that needs the full set. Different
+ * memories sharing a media ID are given distinct IDs and reported, as are
+ * entries that cannot be parsed. Media files shipped in an export's memories/
+ * folder are matched to their memories as localMedia.
+ */
+export async function* streamMemories(
+  exportPaths: string | readonly string[],
+  report: ParseReport = createParseReport()
+): AsyncGenerator<SnapchatMemory> {
+  const paths = typeof exportPaths === 'string' ? [exportPaths] : exportPaths;
+  const seen = new Map<string, string>(); // mediaId -> fingerprint
+
+  // Media files may sit in any part of a multi-part export
+  const parts = (await Promise.all(paths.map((path) => listExportParts(path)))).flat();
+  const localMedia = await indexLocalMedia(parts);
+
+  for (const exportPath of paths) {
+    for (const fileResult of await findMemoriesFiles(exportPath)) {
+      for await (const memory of streamMemoriesFile(fileResult, report)) {
+        const local = localMedia.size > 0 ? matchLocalMedia(localMedia, memory) : null;
+        yield resolveDuplicateId(local ? { ...memory, localMedia: local } : memory, seen, report);
+      }
     }
-    return parseMemories(data);
-  } else {
-    // Parse HTML format
-    return parseMemoriesFromHtml(content);
   }
 }
+
+/**
+ * Get the generation timestamp ('ts' parameter) of a download URL
+ * Returns null when the URL carries no usable timestamp
+ */
+export function getUrlTimestamp(url: string): number | null {
+  try {
+    const ts = parseInt(new URL(url).searchParams.get('ts') ?? '', 10);
+    return isNaN(ts) ? null : ts;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a memory carries fresher download URLs than another copy of it
+ * Compares URL timestamps; without timestamps the later-loaded copy wins
+ */
+function hasFresherUrls(candidate: SnapchatMemory, existing: SnapchatMemory): boolean {
+  const candidateTs = getUrlTimestamp(candidate.downloadUrl);
+  const existingTs = getUrlTimestamp(existing.downloadUrl);
+
+  if (candidateTs === null || existingTs === null) {
+    return true;
+  }
+  return candidateTs >= existingTs;
+}
+
+/**
+ * Merge memories from several exports, deduplicating by mediaId
+ *
+ * When the same memory appears more than once (multi-part overlap or repeated
+ * exports), the copy with the freshest download URLs is kept. Order follows the
+ * first appearance of each mediaId.
+ */
+export function mergeMemories(memories: readonly SnapchatMemory[]): SnapchatMemory[] {
+  const merged = new Map<string, SnapchatMemory>();
+
+  for (const memory of memories) {
+    const existing = merged.get(memory.mediaId);
+    if (!existing) {
+      merged.set(memory.mediaId, memory);
+    } else if (hasFresherUrls(memory, existing)) {
+      merged.set(memory.mediaId, {
+        ...memory,
+        location: memory.location ?? existing.location,
+        localMedia: memory.localMedia ?? existing.localMedia,
+      });
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Load and parse Snapchat memories from one or more export folders or ZIP archives,
+ * together with a report of the entries that had to be skipped
+ * Supports both JSON and HTML export formats. All parts found are combined and
+ * deduplicated by mediaId.
+ */
+export async function loadMemoriesWithReport(
+  exportPaths: string | readonly string[]
+): Promise<ParseResult> {
+  const report = createParseReport();
+  const memories: SnapchatMemory[] = [];
+  for await (const memory of streamMemories(exportPaths, report)) {
+    memories.push(memory);
+  }
+  return { memories: mergeMemories(memories), report };
+}
+
+/**
+ * Load and parse Snapchat memories from one or more export folders or ZIP archives
+ * Supports both JSON and HTML export formats. All parts found are combined and
+ * deduplicated by mediaId.
+ */
+export async function loadMemories(
+  exportPaths: string | readonly string[]
+): Promise<SnapchatMemory[]> {
+  return (await loadMemoriesWithReport(exportPaths)).memories;
+}
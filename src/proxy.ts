@@ -0,0 +1,385 @@
+/**
+ * Proxy module for sending downloads through HTTP(S) and SOCKS proxies
+ *
+ * Proxies are taken from the --proxy option or the usual environment
+ * variables (HTTPS_PROXY, HTTP_PROXY, ALL_PROXY and NO_PROXY, in upper or
+ * lower case). Supported proxy URLs, with optional user:password@ credentials:
+ * - http://host:port, https://host:port: plain HTTP requests are sent to the
+ *   proxy, HTTPS requests go through a CONNECT tunnel
+ * - socks5://host:port: host names are resolved locally
+ * - socks5h://host:port, socks://host:port: the proxy resolves host names
+ */
+
+import { lookup } from 'node:dns/promises';
+import { connect as netConnect, isIP, Socket } from 'node:net';
+import { connect as tlsConnect } from 'node:tls';
+import { ProxyError } from './types.js';
+
+/**
+ * Proxies to use for download requests
+ */
+export interface ProxySettings {
+  readonly httpProxy: string | null; // For http:// URLs
+  readonly httpsProxy: string | null; // For https:// URLs
+  readonly noProxy: readonly string[]; // Hosts (or .domains, host:port, *) reached directly
+}
+
+const DEFAULT_PORTS: Record<string, number> = {
+  'http:': 80,
+  'https:': 443,
+  'socks:': 1080,
+  'socks5:': 1080,
+  'socks5h:': 1080,
+};
+
+/**
+ * Reply codes of a SOCKS5 connect request
+ */
+const SOCKS_ERRORS: Record<number, string> = {
+  1: 'general failure',
+  2: 'connection not allowed by ruleset',
+  3: 'network unreachable',
+  4: 'host unreachable',
+  5: 'connection refused',
+  6: 'TTL expired',
+  7: 'command not supported',
+  8: 'address type not supported',
+};
+
+/**
+ * Read an environment variable, preferring the lower case spelling like curl
+ */
+function readEnv(env: NodeJS.ProcessEnv, name: string): string | null {
+  return env[name] || env[name.toUpperCase()] || null;
+}
+
+/**
+ * Get the proxy settings from the environment, with an optional proxy for all URLs
+ */
+export function getProxySettings(
+  proxy?: string,
+  env: NodeJS.ProcessEnv = process.env
+): ProxySettings {
+  const allProxy = readEnv(env, 'all_proxy');
+  return {
+    httpProxy: proxy ?? readEnv(env, 'http_proxy') ?? allProxy,
+    httpsProxy: proxy ?? readEnv(env, 'https_proxy') ?? allProxy,
+    noProxy: (readEnv(env, 'no_proxy') ?? '').split(/[\s,]+/).filter(Boolean),
+  };
+}
+
+/**
+ * Parse a proxy URL, defaulting to http:// when no scheme is given
+ */
+export function parseProxyUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value.includes('://') ? value : `http://${value}`);
+  } catch {
+    throw new ProxyError(value.replace(/\/\/[^@/]*@/, '//'), 'Invalid proxy URL');
+  }
+  if (!(url.protocol in DEFAULT_PORTS)) {
+    throw new ProxyError(describeProxy(url), `Unsupported proxy protocol ${url.protocol}`);
+  }
+  return url;
+}
+
+/**
+ * Proxy URL without credentials, for messages
+ */
+export function describeProxy(proxy: URL): string {
+  return `${proxy.protocol}//${proxy.host}`;
+}
+
+/**
+ * Check if a URL's host is listed in NO_PROXY
+ */
+function isNoProxyHost(url: URL, noProxy: readonly string[]): boolean {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = url.port || String(DEFAULT_PORTS[url.protocol] ?? '');
+
+  return noProxy.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+    const match = entry.toLowerCase().match(/^\[?(.+?)\]?(?::(\d+))?$/);
+    if (!match || (match[2] && match[2] !== port)) {
+      return false;
+    }
+    const domain = match[1].replace(/^\*?\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Get the proxy for a request URL, or null to connect directly
+ */
+export function getProxyForUrl(url: string, settings: ProxySettings): URL | null {
+  const target = new URL(url);
+  const proxy = target.protocol === 'https:' ? settings.httpsProxy : settings.httpProxy;
+  if (!proxy || isNoProxyHost(target, settings.noProxy)) {
+    return null;
+  }
+  return parseProxyUrl(proxy);
+}
+
+/**
+ * Check if a proxy is a SOCKS proxy, which always tunnels
+ */
+export function isSocksProxy(proxy: URL): boolean {
+  return proxy.protocol.startsWith('socks');
+}
+
+/**
+ * Get the Proxy-Authorization header for an HTTP(S) proxy with credentials
+ */
+export function getProxyAuthorization(proxy: URL): string | null {
+  if (!proxy.username) {
+    return null;
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Get the host and port to connect to for a proxy
+ */
+export function getProxyAddress(proxy: URL): { host: string; port: number } {
+  return {
+    host: proxy.hostname.replace(/^\[|\]$/g, ''),
+    port: Number(proxy.port) || DEFAULT_PORTS[proxy.protocol],
+  };
+}
+
+/**
+ * Reads exact amounts of data from a socket during a proxy handshake
+ */
+interface SocketReader {
+  read(length: number): Promise<Buffer>;
+  readUntil(delimiter: string): Promise<Buffer>;
+  release(): void; // Stop reading, leaving unread data to the next reader of the socket
+}
+
+function createSocketReader(socket: Socket): SocketReader {
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+
+  const onReadable = (): void => wake?.();
+  const onError = (error: Error): void => {
+    failure = error;
+    wake?.();
+  };
+  const onClose = (): void => onError(new Error('Proxy closed the connection'));
+  socket.on('readable', onReadable);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  const waitForData = async (): Promise<void> => {
+    if (failure) {
+      throw failure;
+    }
+    await new Promise<void>((resolve) => (wake = resolve));
+    wake = null;
+  };
+
+  return {
+    read: async (length): Promise<Buffer> => {
+      for (;;) {
+        const data = socket.read(length) as Buffer | null;
+        if (data) {
+          return data;
+        }
+        await waitForData();
+      }
+    },
+    readUntil: async (delimiter): Promise<Buffer> => {
+      let buffer = Buffer.alloc(0);
+      for (;;) {
+        const chunk = socket.read() as Buffer | null;
+        if (!chunk) {
+          await waitForData();
+          continue;
+        }
+        buffer = Buffer.concat([buffer, chunk]);
+        const index = buffer.indexOf(delimiter);
+        if (index >= 0) {
+          const end = index + delimiter.length;
+          if (end < buffer.length) {
+            socket.unshift(buffer.subarray(end));
+          }
+          return buffer.subarray(0, end);
+        }
+      }
+    },
+    release: (): void => {
+      socket.off('readable', onReadable);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+}
+
+/**
+ * Ask an HTTP(S) proxy for a tunnel with CONNECT
+ */
+async function connectHttpTunnel(
+  proxy: URL,
+  socket: Socket,
+  reader: SocketReader,
+  host: string,
+  port: number
+): Promise<void> {
+  const authority = isIP(host) === 6 ? `[${host}]:${port}` : `${host}:${port}`;
+  const lines = [`CONNECT ${authority} HTTP/1.1`, `Host: ${authority}`];
+  const authorization = getProxyAuthorization(proxy);
+  if (authorization) {
+    lines.push(`Proxy-Authorization: ${authorization}`);
+  }
+  socket.write(`${lines.join('\r\n')}\r\n\r\n`);
+
+  const head = (await reader.readUntil('\r\n\r\n')).toString('latin1');
+  const status = Number(head.split(' ')[1]);
+  if (status === 407) {
+    throw new ProxyError(describeProxy(proxy), 'Proxy authentication required (407)');
+  }
+  if (!(status >= 200 && status < 300)) {
+    throw new ProxyError(describeProxy(proxy), `CONNECT to ${authority} failed (${status})`);
+  }
+}
+
+/**
+ * Convert an IPv6 address to its 16 bytes
+ */
+function ipv6ToBytes(address: string): number[] {
+  const [head, tail = ''] = address.split('::');
+  const groups = (part: string): string[] => (part ? part.split(':') : []);
+  const missing = 8 - groups(head).length - groups(tail).length;
+  const all = address.includes('::')
+    ? [...groups(head), ...Array<string>(missing).fill('0'), ...groups(tail)]
+    : groups(head);
+  return all.flatMap((group) => {
+    const value = parseInt(group, 16);
+    return [value >> 8, value & 0xff];
+  });
+}
+
+/**
+ * Open a tunnel through a SOCKS5 proxy (RFC 1928), logging in with RFC 1929
+ */
+async function connectSocksTunnel(
+  proxy: URL,
+  socket: Socket,
+  reader: SocketReader,
+  host: string,
+  port: number
+): Promise<void> {
+  const name = describeProxy(proxy);
+  const username = decodeURIComponent(proxy.username);
+  const password = decodeURIComponent(proxy.password);
+
+  // Offer username/password authentication only when there are credentials
+  socket.write(Buffer.from(username ? [5, 2, 0, 2] : [5, 1, 0]));
+  const [version, method] = await reader.read(2);
+  if (version !== 5) {
+    throw new ProxyError(name, 'Not a SOCKS5 proxy');
+  }
+  if (method === 2 && username) {
+    const user = Buffer.from(username);
+    const pass = Buffer.from(password);
+    socket.write(
+      Buffer.concat([Buffer.from([1, user.length]), user, Buffer.from([pass.length]), pass])
+    );
+    const [, status] = await reader.read(2);
+    if (status !== 0) {
+      throw new ProxyError(name, 'SOCKS authentication failed');
+    }
+  } else if (method !== 0) {
+    throw new ProxyError(name, 'No acceptable SOCKS authentication method');
+  }
+
+  // socks5:// resolves the host itself, socks5h:// leaves it to the proxy
+  let address = host;
+  if (proxy.protocol === 'socks5:' && !isIP(host)) {
+    address = (await lookup(host)).address;
+  }
+  let destination: number[];
+  if (isIP(address) === 4) {
+    destination = [1, ...address.split('.').map(Number)];
+  } else if (isIP(address) === 6) {
+    destination = [4, ...ipv6ToBytes(address)];
+  } else {
+    destination = [3, Buffer.byteLength(address), ...Buffer.from(address)];
+  }
+  socket.write(Buffer.from([5, 1, 0, ...destination, port >> 8, port & 0xff]));
+
+  const [, reply, , addressType] = await reader.read(4);
+  if (reply !== 0) {
+    throw new ProxyError(
+      name,
+      `SOCKS connect to ${host}:${port} failed: ${SOCKS_ERRORS[reply] ?? `error ${reply}`}`
+    );
+  }
+  // Skip the bound address and port
+  if (addressType === 3) {
+    const [length] = await reader.read(1);
+    await reader.read(length + 2);
+  } else {
+    await reader.read(addressType === 4 ? 18 : 6);
+  }
+}
+
+/**
+ * Open a connection to host:port through a proxy
+ * HTTP(S) proxies are asked for a CONNECT tunnel, SOCKS proxies for a SOCKS5
+ * connection. With tls, a TLS session with the host is started in the tunnel.
+ * Aborting the signal destroys the connection with the signal's reason.
+ */
+export async function connectThroughProxy(
+  proxy: URL,
+  host: string,
+  port: number,
+  options: { tls?: boolean; signal?: AbortSignal } = {}
+): Promise<Socket> {
+  const { signal } = options;
+  signal?.throwIfAborted();
+
+  const address = getProxyAddress(proxy);
+  const socket =
+    proxy.protocol === 'https:'
+      ? tlsConnect({
+          ...address,
+          servername: isIP(address.host) ? undefined : address.host,
+        })
+      : netConnect(address);
+  let current: Socket = socket;
+  const onAbort = (): void => {
+    current.destroy(signal?.reason as Error);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const reader = createSocketReader(socket);
+  try {
+    if (isSocksProxy(proxy)) {
+      await connectSocksTunnel(proxy, socket, reader, host, port);
+    } else {
+      await connectHttpTunnel(proxy, socket, reader, host, port);
+    }
+    reader.release();
+
+    if (options.tls) {
+      const secure = tlsConnect({ socket, servername: isIP(host) ? undefined : host });
+      current = secure;
+      await new Promise<void>((resolve, reject) => {
+        secure.once('secureConnect', resolve);
+        secure.once('error', reject);
+      });
+    }
+    return current;
+  } catch (error) {
+    current.destroy();
+    socket.destroy();
+    throw signal?.aborted ? (signal.reason as Error) : error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
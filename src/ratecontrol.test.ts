@@ -0,0 +1,106 @@
+/**
+ * Tests for the rate control module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRateController, parseRetryAfter } from './ratecontrol.js';
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-15T10:00:00Z');
+    expect(parseRetryAfter('30', now)).toBe(30_000);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 10:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('Mon, 15 Jan 2024 09:00:00 GMT', now)).toBe(0);
+  });
+
+  it('should return null for missing or invalid headers', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('createRateController', () => {
+  it('should halve the limit on rate limiting and ramp up after a round of successes', () => {
+    let time = 0;
+    const controller = createRateController({ maxConcurrency: 8, now: () => time });
+
+    controller.onRateLimited(1000);
+    expect(controller.limit).toBe(4);
+
+    // Within the cooldown, another 429 from the same burst doesn't cut again
+    controller.onRateLimited(1000);
+    expect(controller.limit).toBe(4);
+
+    time += 2000;
+    controller.onRateLimited(null);
+    expect(controller.limit).toBe(2);
+
+    controller.onSuccess();
+    expect(controller.limit).toBe(2);
+    controller.onSuccess();
+    expect(controller.limit).toBe(3);
+  });
+
+  it('should not go below the minimum or above the maximum', () => {
+    let time = 0;
+    const controller = createRateController({ maxConcurrency: 2, now: () => time });
+
+    for (let i = 0; i < 5; i++) {
+      controller.onRateLimited(0);
+      time += 5000;
+    }
+    expect(controller.limit).toBe(1);
+
+    for (let i = 0; i < 10; i++) {
+      controller.onSuccess();
+    }
+    expect(controller.limit).toBe(2);
+  });
+
+  it('should make workers over the limit wait for a free slot', async () => {
+    const controller = createRateController({ maxConcurrency: 1 });
+    await controller.acquire();
+
+    let acquired = false;
+    const waiting = controller.acquire().then(() => {
+      acquired = true;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(acquired).toBe(false);
+
+    controller.release();
+    await waiting;
+    expect(acquired).toBe(true);
+  });
+
+  it('should move the limit with a changed maximum and let waiting workers in', async () => {
+    const controller = createRateController({ maxConcurrency: 4 });
+    controller.onRateLimited(0);
+    expect(controller.limit).toBe(2);
+
+    // Raising keeps the back-off: one more allowed for one more maximum
+    controller.setMaxConcurrency(5);
+    expect(controller.limit).toBe(3);
+    controller.setMaxConcurrency(1);
+    expect(controller.limit).toBe(1);
+
+    await controller.acquire();
+    const waiting = controller.acquire();
+    controller.setMaxConcurrency(2);
+    await waiting;
+    expect(controller.maxConcurrency).toBe(2);
+  });
+
+  it('should report the rate of successful downloads', () => {
+    let time = 0;
+    const controller = createRateController({ maxConcurrency: 4, now: () => time });
+
+    time = 2000;
+    controller.onSuccess();
+    controller.onSuccess();
+    expect(controller.getRate()).toBe(1);
+
+    time = 30_000;
+    expect(controller.getRate()).toBe(0);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Rate control module shared by the download workers
+ *
+ * Adjusts how many workers may download at once with AIMD (additive increase,
+ * multiplicative decrease): every rate limited response halves the limit and
+ * pauses all workers for the server's Retry-After, and each full round of
+ * successful downloads lets one more worker back in, up to the configured
+ * concurrency.
+ */
+
+/**
+ * Default pause after a rate limited response without a Retry-After header
+ */
+export const DEFAULT_RATE_LIMIT_PAUSE_MS = 5000;
+
+/**
+ * Window over which the effective download rate is measured
+ */
+const RATE_WINDOW_MS = 10_000;
+
+/**
+ * Options for a rate controller
+ */
+export interface RateControllerOptions {
+  readonly maxConcurrency: number; // Upper bound, the configured concurrency
+  readonly minConcurrency?: number; // Lower bound when backing off (default: 1)
+  readonly decreaseCooldownMs?: number; // Rate limits within this time of a cut count once
+  readonly now?: () => number; // Clock, for tests
+}
+
+/**
+ * Shared limit on active download workers
+ */
+export interface RateController {
+  /**
+   * Current number of workers allowed to download at once
+   */
+  readonly limit: number;
+
+  /**
+   * Upper bound of the limit, the configured concurrency
+   */
+  readonly maxConcurrency: number;
+
+  /**
+   * Change the upper bound while downloading
+   * Raising it lets the extra workers in at once, lowering it takes effect as
+   * workers finish their current download.
+   */
+  setMaxConcurrency(maxConcurrency: number): void;
+
+  /**
+   * Wait for a free slot and for any rate limit pause to end
+   */
+  acquire(): Promise<void>;
+
+  /**
+   * Give back a slot taken with acquire
+   */
+  release(): void;
+
+  /**
+   * Report a successful download (additive increase)
+   */
+  onSuccess(): void;
+
+  /**
+   * Report a rate limited response (multiplicative decrease)
+   * @param retryAfterMs - Delay requested by the server, if any
+   */
+  onRateLimited(retryAfterMs: number | null): void;
+
+  /**
+   * Successful downloads per second over the last few seconds
+   */
+  getRate(): number;
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Create a rate controller
+ */
+export function createRateController(options: RateControllerOptions): RateController {
+  const { minConcurrency = 1, decreaseCooldownMs = 1000, now = (): number => Date.now() } = options;
+
+  const startedAt = now();
+  let maxConcurrency = Math.max(minConcurrency, options.maxConcurrency);
+  let limit = maxConcurrency;
+  let active = 0;
+  let pausedUntil = 0;
+  let lastDecrease = -Infinity;
+  let successesSinceChange = 0;
+  const completions: number[] = [];
+  const waiters: (() => void)[] = [];
+
+  const wakeWaiters = (): void => {
+    for (let free = limit - active; free > 0 && waiters.length > 0; free--) {
+      waiters.shift()?.();
+    }
+  };
+
+  return {
+    get limit(): number {
+      return limit;
+    },
+
+    get maxConcurrency(): number {
+      return maxConcurrency;
+    },
+
+    setMaxConcurrency: (value: number): void => {
+      const next = Math.max(minConcurrency, value);
+      // Keep any back-off from rate limiting: the limit moves by as much as the bound
+      limit = next > maxConcurrency ? limit + next - maxConcurrency : Math.min(limit, next);
+      maxConcurrency = next;
+      wakeWaiters();
+    },
+
+    acquire: async (): Promise<void> => {
+      for (;;) {
+        const pause = pausedUntil - now();
+        if (pause > 0) {
+          await new Promise((resolve) => setTimeout(resolve, pause));
+          continue;
+        }
+        if (active < limit) {
+          active++;
+          return;
+        }
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+    },
+
+    release: (): void => {
+      active = Math.max(0, active - 1);
+      wakeWaiters();
+    },
+
+    onSuccess: (): void => {
+      const time = now();
+      completions.push(time);
+      while (completions.length > 0 && completions[0] <= time - RATE_WINDOW_MS) {
+        completions.shift();
+      }
+
+      // One more worker after a full round of successes at the current limit
+      successesSinceChange++;
+      if (successesSinceChange >= limit && limit < maxConcurrency) {
+        limit++;
+        successesSinceChange = 0;
+        wakeWaiters();
+      }
+    },
+
+    onRateLimited: (retryAfterMs: number | null): void => {
+      const time = now();
+      pausedUntil = Math.max(pausedUntil, time + (retryAfterMs ?? DEFAULT_RATE_LIMIT_PAUSE_MS));
+
+      // Responses to requests sent before the last cut don't cut again
+      if (time - lastDecrease >= decreaseCooldownMs) {
+        limit = Math.max(minConcurrency, Math.floor(limit / 2));
+        lastDecrease = time;
+      }
+      successesSinceChange = 0;
+    },
+
+    getRate: (): number => {
+      const time = now();
+      const recent = completions.filter((completion) => completion > time - RATE_WINDOW_MS);
+      // Measure over the time since the start until a full window has passed
+      const windowMs = Math.max(1000, Math.min(RATE_WINDOW_MS, time - startedAt));
+      return recent.length / (windowMs / 1000);
+    },
+  };
+}
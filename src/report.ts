@@ -0,0 +1,170 @@
+/**
+ * Parse report module for tracking export entries dropped while parsing
+ */
+
+import { writeFile } from 'node:fs/promises';
+import {
+  DuplicateMediaId,
+  InvalidEntryError,
+  ParseReport,
+  RejectedEntry,
+  RejectReason,
+  SnapchatMemory,
+} from './types.js';
+
+/**
+ * Human readable labels for reject reasons
+ */
+export const REJECT_REASON_LABELS: Record<RejectReason, string> = {
+  'invalid-date': 'Bad date',
+  'unknown-media-type': 'Unknown media type',
+  'missing-url': 'Missing download URL',
+  'invalid-location': 'Unparseable location',
+  'invalid-entry': 'Malformed entry',
+};
+
+/**
+ * Number of duplicate media IDs listed in a formatted report
+ */
+const MAX_DUPLICATES_SHOWN = 5;
+
+/**
+ * Create a new empty parse report
+ */
+export function createParseReport(): ParseReport {
+  return { rejected: [], duplicates: [] };
+}
+
+/**
+ * Convert raw entry values to strings for the report
+ */
+function stringifyFields(fields: unknown): Record<string, string> {
+  if (typeof fields !== 'object' || fields === null) {
+    return { value: String(fields) };
+  }
+
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    result[key] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  return result;
+}
+
+/**
+ * Record a rejected entry in the report
+ *
+ * @param report - Report to add to
+ * @param index - Position of the entry in the export
+ * @param fields - Raw entry (JSON object or HTML cell values)
+ * @param error - Error raised while parsing the entry
+ */
+export function recordRejection(
+  report: ParseReport,
+  index: number,
+  fields: unknown,
+  error: unknown
+): RejectedEntry {
+  const rejected: RejectedEntry = {
+    index,
+    reason: error instanceof InvalidEntryError ? error.reason : 'invalid-entry',
+    message: error instanceof Error ? error.message : 'Unknown error',
+    fields: stringifyFields(fields),
+  };
+
+  report.rejected.push(rejected);
+  return rejected;
+}
+
+/**
+ * Record a memory that was given a new ID because another memory already had its ID
+ */
+export function recordDuplicateId(
+  report: ParseReport,
+  memory: SnapchatMemory,
+  resolvedId: string
+): DuplicateMediaId {
+  const duplicate: DuplicateMediaId = {
+    mediaId: memory.mediaId,
+    resolvedId,
+    date: memory.date.toISOString(),
+    mediaType: memory.mediaType,
+    ...(memory.source ? { source: memory.source } : {}),
+  };
+
+  report.duplicates.push(duplicate);
+  return duplicate;
+}
+
+/**
+ * Append the entries of one report to another, tagging them with a source
+ */
+export function mergeParseReport(target: ParseReport, from: ParseReport, source?: string): void {
+  for (const rejected of from.rejected) {
+    target.rejected.push(source ? { ...rejected, source } : rejected);
+  }
+  for (const duplicate of from.duplicates) {
+    target.duplicates.push(source ? { ...duplicate, source } : duplicate);
+  }
+}
+
+/**
+ * Check if a report has anything worth showing
+ */
+export function hasParseIssues(report: ParseReport): boolean {
+  return report.rejected.length > 0 || report.duplicates.length > 0;
+}
+
+/**
+ * Count rejected entries per reason
+ */
+export function countRejections(report: ParseReport): Map<RejectReason, number> {
+  const counts = new Map<RejectReason, number>();
+  for (const rejected of report.rejected) {
+    counts.set(rejected.reason, (counts.get(rejected.reason) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Format a parse report summary for display
+ */
+export function formatParseReport(report: ParseReport): string {
+  const lines: string[] = [];
+
+  if (report.rejected.length > 0 || report.duplicates.length === 0) {
+    lines.push(`Skipped entries: ${report.rejected.length}`);
+    for (const [reason, count] of countRejections(report)) {
+      lines.push(`  ${REJECT_REASON_LABELS[reason]}: ${count}`);
+    }
+  }
+
+  if (report.duplicates.length > 0) {
+    lines.push(`Duplicate media IDs: ${report.duplicates.length} (renamed to keep each memory)`);
+    for (const duplicate of report.duplicates.slice(0, MAX_DUPLICATES_SHOWN)) {
+      lines.push(`  ${duplicate.mediaId} -> ${duplicate.resolvedId} (${duplicate.date})`);
+    }
+    if (report.duplicates.length > MAX_DUPLICATES_SHOWN) {
+      lines.push(`  ... and ${report.duplicates.length - MAX_DUPLICATES_SHOWN} more`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a single rejected entry for display
+ */
+export function formatRejectedEntry(rejected: RejectedEntry): string {
+  const fields = Object.entries(rejected.fields)
+    .map(([key, value]) => `${key}: ${value.length > 60 ? `${value.substring(0, 57)}...` : value}`)
+    .join(', ');
+  return `#${rejected.index + 1} ${REJECT_REASON_LABELS[rejected.reason]} - ${rejected.message} (${fields})`;
+}
+
+/**
+ * Write the rejected entries of a report to a JSON file
+ */
+export async function writeParseReport(report: ParseReport, path: string): Promise<void> {
+  const content = JSON.stringify(report.rejected, null, 2);
+  await writeFile(path, content, 'utf-8');
+}
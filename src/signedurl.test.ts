@@ -0,0 +1,53 @@
+/**
+ * Tests for the signed URL module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSignedUrlCache, parseSignedUrlExpiry } from './signedurl.js';
+
+describe('parseSignedUrlExpiry', () => {
+  it('should read Expires in seconds or milliseconds', () => {
+    expect(parseSignedUrlExpiry('https://cdn.example/file?Expires=1705314600')).toBe(
+      1705314600_000
+    );
+    expect(parseSignedUrlExpiry('http://127.0.0.1/signed/a?expires=1705314600000')).toBe(
+      1705314600_000
+    );
+  });
+
+  it('should read X-Amz-Date and X-Amz-Expires', () => {
+    const url =
+      'https://bucket.s3.amazonaws.com/file?X-Amz-Date=20240115T103000Z&X-Amz-Expires=3600';
+    expect(parseSignedUrlExpiry(url)).toBe(Date.parse('2024-01-15T11:30:00Z'));
+  });
+
+  it('should return null when the URL does not say', () => {
+    expect(parseSignedUrlExpiry('https://cdn.example/file?sig=abc')).toBeNull();
+    expect(parseSignedUrlExpiry('not a url')).toBeNull();
+  });
+});
+
+describe('createSignedUrlCache', () => {
+  it('should drop URLs within the margin of their expiry', () => {
+    let time = Date.parse('2024-01-15T10:00:00Z');
+    const cache = createSignedUrlCache({ marginMs: 30_000, now: () => time });
+    const signed = cache.set('proxy', `https://cdn.example/file?Expires=${time / 1000 + 60}`);
+
+    expect(signed.expiresAt).toBe(time + 60_000);
+    expect(cache.get('proxy')).toBe(signed.url);
+    time += 30_000;
+    expect(cache.get('proxy')).toBeNull();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should assume the default lifetime for URLs without an expiry', () => {
+    let time = 0;
+    const cache = createSignedUrlCache({ defaultTtlMs: 60_000, marginMs: 0, now: () => time });
+    cache.set('proxy', 'https://cdn.example/file');
+
+    time = 59_999;
+    expect(cache.get('proxy')).toBe('https://cdn.example/file');
+    time = 60_000;
+    expect(cache.get('proxy')).toBeNull();
+  });
+});
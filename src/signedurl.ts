@@ -0,0 +1,138 @@
+/**
+ * Signed URL module for keeping the short-lived file URLs of JSON exports
+ *
+ * Downloads from JSON exports POST to Snapchat's proxy for a signed URL, which
+ * only stays valid for a while. Resolving them ahead of the downloads and
+ * keeping them with their expiry lets a download reuse a URL while it is
+ * still good and ask for a new one only when it has run out.
+ */
+
+/**
+ * Lifetime assumed for signed URLs that don't say when they expire
+ */
+export const DEFAULT_SIGNED_URL_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Signed URLs are no longer used this close to their expiry
+ */
+export const SIGNED_URL_EXPIRY_MARGIN_MS = 30_000;
+
+/**
+ * Read when a signed URL expires from its query parameters
+ * Supports Expires (S3 query string authentication, in seconds or milliseconds
+ * since the epoch) and X-Amz-Date with X-Amz-Expires (AWS Signature Version 4).
+ *
+ * @returns The expiry time in milliseconds since the epoch, or null if the URL doesn't say
+ */
+export function parseSignedUrlExpiry(url: string): number | null {
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return null;
+  }
+
+  const expires = params.get('Expires') ?? params.get('expires');
+  if (expires && /^\d+$/.test(expires)) {
+    const value = Number(expires);
+    // Anything past 1e12 is too far in the future to be seconds
+    return value > 1e12 ? value : value * 1000;
+  }
+
+  // X-Amz-Date looks like 20240115T103000Z
+  const date = params.get('X-Amz-Date')?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  const seconds = params.get('X-Amz-Expires');
+  if (date && seconds && /^\d+$/.test(seconds)) {
+    const [, year, month, day, hour, minute, second] = date.map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute, second) + Number(seconds) * 1000;
+  }
+
+  return null;
+}
+
+/**
+ * A resolved signed URL
+ */
+export interface SignedUrl {
+  readonly url: string;
+  readonly expiresAt: number; // Milliseconds since the epoch
+}
+
+/**
+ * Signed URLs keyed by the download URL they were resolved from
+ */
+export interface SignedUrlCache {
+  /**
+   * Number of URLs stored, including expired ones not yet looked up again
+   */
+  readonly size: number;
+
+  /**
+   * Get the signed URL of a download URL
+   * @returns The signed URL, or null if there is none or it is about to expire
+   */
+  get(downloadUrl: string): string | null;
+
+  /**
+   * Store the signed URL resolved for a download URL
+   * @returns The stored URL with its expiry
+   */
+  set(downloadUrl: string, signedUrl: string): SignedUrl;
+
+  /**
+   * Forget the signed URL of a download URL, e.g. after the server rejected it
+   */
+  delete(downloadUrl: string): void;
+}
+
+/**
+ * Options for a signed URL cache
+ */
+export interface SignedUrlCacheOptions {
+  readonly defaultTtlMs?: number; // Lifetime of URLs without an expiry (default: 10 minutes)
+  readonly marginMs?: number; // Treat URLs as expired this long before they are (default: 30s)
+  readonly now?: () => number; // Clock, for tests
+}
+
+/**
+ * Create an empty signed URL cache
+ */
+export function createSignedUrlCache(options: SignedUrlCacheOptions = {}): SignedUrlCache {
+  const {
+    defaultTtlMs = DEFAULT_SIGNED_URL_TTL_MS,
+    marginMs = SIGNED_URL_EXPIRY_MARGIN_MS,
+    now = Date.now,
+  } = options;
+  const urls = new Map<string, SignedUrl>();
+
+  return {
+    get size(): number {
+      return urls.size;
+    },
+
+    get(downloadUrl: string): string | null {
+      const signed = urls.get(downloadUrl);
+      if (!signed) {
+        return null;
+      }
+      if (signed.expiresAt - marginMs <= now()) {
+        urls.delete(downloadUrl);
+        return null;
+      }
+      return signed.url;
+    },
+
+    set(downloadUrl: string, signedUrl: string): SignedUrl {
+      const signed = {
+        url: signedUrl,
+        expiresAt: parseSignedUrlExpiry(signedUrl) ?? now() + defaultTtlMs,
+      };
+      urls.set(downloadUrl, signed);
+      return signed;
+    },
+
+    delete(downloadUrl: string): void {
+      urls.delete(downloadUrl);
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Tests for the sniff module
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeContent, detectFormat } from './sniff.js';
+
+/**
+ * Start of an ISO base media file with the given major brand
+ */
+const ftyp = (brand: string): Buffer =>
+  Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from(`ftyp${brand}`, 'latin1')]);
+
+describe('detectFormat', () => {
+  it('should detect images', () => {
+    expect(detectFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe1]))?.extension).toBe('jpg');
+    expect(
+      detectFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))?.extension
+    ).toBe('png');
+    expect(detectFormat(Buffer.from('RIFF\x10\x00\x00\x00WEBPVP8 ', 'latin1'))?.extension).toBe(
+      'webp'
+    );
+    expect(detectFormat(ftyp('heic'))).toMatchObject({ kind: 'Image', extension: 'heic' });
+    expect(detectFormat(ftyp('mif1'))).toMatchObject({ kind: 'Image', extension: 'heic' });
+    expect(detectFormat(ftyp('avif'))).toMatchObject({ kind: 'Image', extension: 'avif' });
+  });
+
+  it('should detect videos', () => {
+    expect(detectFormat(ftyp('isom'))).toMatchObject({ kind: 'Video', extension: 'mp4' });
+    expect(detectFormat(ftyp('mp42'))).toMatchObject({ kind: 'Video', extension: 'mp4' });
+    expect(detectFormat(ftyp('qt  '))).toMatchObject({ kind: 'Video', extension: 'mov' });
+    expect(detectFormat(Buffer.from('\x00\x00\x00\x08wide', 'latin1'))?.extension).toBe('mov');
+    expect(detectFormat(Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f]))?.extension).toBe('webm');
+  });
+
+  it('should detect ZIP archives', () => {
+    expect(detectFormat(Buffer.from('PK\x03\x04', 'latin1'))?.kind).toBe('Archive');
+  });
+
+  it('should not detect text', () => {
+    expect(
+      detectFormat(Buffer.from('<?xml version="1.0"?><Error>AccessDenied</Error>'))
+    ).toBeNull();
+    expect(detectFormat(Buffer.from(''))).toBeNull();
+  });
+
+  it('should not take ISO base media files of unknown brands for videos', () => {
+    expect(detectFormat(ftyp('crx '))).toBeNull();
+  });
+});
+
+describe('describeContent', () => {
+  it('should describe error pages', () => {
+    expect(describeContent(Buffer.from('  <!DOCTYPE html><html>'))).toBe('an HTML page');
+    expect(describeContent(Buffer.from('<?xml version="1.0"?><Error>'))).toBe('an XML document');
+    expect(describeContent(ftyp('qt  '))).toBe('a video (mov)');
+  });
+});
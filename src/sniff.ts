@@ -0,0 +1,161 @@
+/**
+ * Sniff module for detecting the real format of downloaded files
+ *
+ * Servers don't always send a correct Content-Type, and an expired link can
+ * answer 200 with an HTML or XML error page, so downloads are identified by
+ * their magic bytes instead.
+ */
+
+import { open } from 'node:fs/promises';
+
+/**
+ * A file format recognized from its first bytes
+ */
+export interface SniffedFormat {
+  readonly kind: 'Image' | 'Video' | 'Archive';
+  readonly extension: string; // e.g. jpg, heic, mov
+  readonly contentType: string;
+}
+
+/**
+ * Bytes needed to recognize every supported format
+ */
+const SNIFF_LENGTH = 64;
+
+const JPEG: SniffedFormat = { kind: 'Image', extension: 'jpg', contentType: 'image/jpeg' };
+const PNG: SniffedFormat = { kind: 'Image', extension: 'png', contentType: 'image/png' };
+const GIF: SniffedFormat = { kind: 'Image', extension: 'gif', contentType: 'image/gif' };
+const WEBP: SniffedFormat = { kind: 'Image', extension: 'webp', contentType: 'image/webp' };
+const HEIC: SniffedFormat = { kind: 'Image', extension: 'heic', contentType: 'image/heic' };
+const AVIF: SniffedFormat = { kind: 'Image', extension: 'avif', contentType: 'image/avif' };
+const MP4: SniffedFormat = { kind: 'Video', extension: 'mp4', contentType: 'video/mp4' };
+const MOV: SniffedFormat = { kind: 'Video', extension: 'mov', contentType: 'video/quicktime' };
+const WEBM: SniffedFormat = { kind: 'Video', extension: 'webm', contentType: 'video/webm' };
+const ZIP: SniffedFormat = { kind: 'Archive', extension: 'zip', contentType: 'application/zip' };
+
+/**
+ * ISO base media file brands of HEIF images
+ */
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+/**
+ * ISO base media file brands of AVIF images and image sequences
+ */
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+
+/**
+ * ISO base media file brands of MP4 (and 3GP) videos
+ */
+const MP4_BRANDS = new Set([
+  'isom',
+  'iso2',
+  'iso4',
+  'iso5',
+  'iso6',
+  'mp41',
+  'mp42',
+  'avc1',
+  'dash',
+  'M4V ',
+  'MSNV',
+  '3gp4',
+  '3gp5',
+  '3gp6',
+  '3g2a',
+]);
+
+/**
+ * Top-level QuickTime atoms that can start a MOV file without an ftyp box
+ */
+const QUICKTIME_ATOMS = new Set(['moov', 'mdat', 'wide', 'free', 'skip', 'pnot']);
+
+/**
+ * Check if data starts with the given bytes at an offset
+ */
+function hasBytes(data: Buffer, bytes: readonly number[] | string, offset = 0): boolean {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return data.subarray(offset, offset + expected.length).equals(expected);
+}
+
+/**
+ * Detect the format of a file from its first bytes
+ * @returns The format, or null if it isn't a supported image, video or ZIP
+ */
+export function detectFormat(data: Buffer): SniffedFormat | null {
+  if (hasBytes(data, [0xff, 0xd8, 0xff])) return JPEG;
+  if (hasBytes(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return PNG;
+  if (hasBytes(data, 'GIF87a') || hasBytes(data, 'GIF89a')) return GIF;
+  if (hasBytes(data, 'RIFF') && hasBytes(data, 'WEBP', 8)) return WEBP;
+  if (hasBytes(data, [0x1a, 0x45, 0xdf, 0xa3])) return WEBM; // EBML header
+  if (hasBytes(data, [0x50, 0x4b, 0x03, 0x04]) || hasBytes(data, [0x50, 0x4b, 0x05, 0x06])) {
+    return ZIP;
+  }
+
+  // ISO base media files (MP4, MOV, HEIC, AVIF) start with an ftyp box
+  if (hasBytes(data, 'ftyp', 4)) {
+    const brand = data.subarray(8, 12).toString('latin1');
+    if (HEIF_BRANDS.has(brand)) return HEIC;
+    if (AVIF_BRANDS.has(brand)) return AVIF;
+    if (MP4_BRANDS.has(brand)) return MP4;
+    if (brand === 'qt  ') return MOV;
+    return null;
+  }
+  if (data.length >= 8 && QUICKTIME_ATOMS.has(data.subarray(4, 8).toString('latin1'))) {
+    return MOV;
+  }
+
+  return null;
+}
+
+const KIND_DESCRIPTIONS: Record<SniffedFormat['kind'], string> = {
+  Image: 'an image',
+  Video: 'a video',
+  Archive: 'a ZIP archive',
+};
+
+/**
+ * Describe what the first bytes of a file look like, for error messages
+ */
+export function describeContent(data: Buffer): string {
+  const format = detectFormat(data);
+  if (format) {
+    return `${KIND_DESCRIPTIONS[format.kind]} (${format.extension})`;
+  }
+
+  const text = data.toString('latin1').trimStart().toLowerCase();
+  if (text.startsWith('<?xml')) return 'an XML document';
+  if (text.startsWith('<!doctype html') || text.startsWith('<html')) return 'an HTML page';
+  if (text.startsWith('<')) return 'a markup document';
+  if (text.startsWith('{') || text.startsWith('[')) return 'JSON';
+  if (data.length === 0) return 'an empty file';
+  return 'data of an unknown format';
+}
+
+/**
+ * Detect the format of a media file
+ * Files that aren't recognized as the expected kind of media are assumed to be
+ * JPEG images or MP4 videos, the formats Snapchat uses most.
+ */
+export async function detectMediaFormat(
+  path: string,
+  mediaType: 'Image' | 'Video'
+): Promise<SniffedFormat> {
+  const format = detectFormat(await readFileHeader(path));
+  if (format?.kind === mediaType) {
+    return format;
+  }
+  return mediaType === 'Image' ? JPEG : MP4;
+}
+
+/**
+ * Read the first bytes of a file
+ */
+export async function readFileHeader(path: string): Promise<Buffer> {
+  const file = await open(path, 'r');
+  try {
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(SNIFF_LENGTH), 0, SNIFF_LENGTH, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
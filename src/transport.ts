@@ -0,0 +1,364 @@
+/**
+ * Transport module for the HTTP traffic of the downloader
+ *
+ * Downloads go through a Transport instead of calling fetch directly, so they
+ * can be pointed at the bundled mock server in tests or routed through custom
+ * networking.
+ */
+
+import { request as httpRequest, IncomingMessage, RequestOptions } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { Socket } from 'node:net';
+import { Duplex, Readable } from 'node:stream';
+import {
+  connectThroughProxy,
+  getProxyAddress,
+  getProxyAuthorization,
+  getProxyForUrl,
+  getProxySettings,
+  isSocksProxy,
+  ProxySettings,
+} from './proxy.js';
+import { RequestTimeouts, TimeoutError, TimeoutPhase } from './types.js';
+
+/**
+ * A single HTTP request made by the downloader
+ */
+export interface TransportRequest {
+  readonly url: string;
+  readonly method: 'GET' | 'POST';
+  readonly headers?: Readonly<Record<string, string>>;
+  readonly body?: string;
+  readonly signal?: AbortSignal;
+  readonly connectTimeoutMs?: number; // Fail with a TimeoutError if connecting takes longer
+}
+
+/**
+ * Carries the downloader's HTTP requests
+ */
+export interface Transport {
+  /**
+   * Send a request and return the final response, following redirects
+   */
+  request(request: TransportRequest): Promise<Response>;
+
+  /**
+   * Check if a download URL uses the proxy flow (POST for a signed URL, then GET)
+   * rather than a direct GET that redirects to the file
+   */
+  isProxyUrl(url: string): boolean;
+}
+
+/**
+ * Options for the built-in transports
+ */
+export interface TransportOptions {
+  readonly proxyHosts?: readonly string[]; // Hosts whose download URLs use the proxy flow
+  readonly proxy?: ProxySettings; // HTTP(S) or SOCKS proxies, from the environment by default
+}
+
+/**
+ * Redirects followed before a request fails, as with fetch
+ */
+const MAX_REDIRECTS = 20;
+
+const REDIRECT_STATUS_CODES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Hosts serving JSON export download URLs
+ *
+ * JSON export URLs: https://app.snapchat.com/dmd/memories?...&proxy=true&...
+ * HTML export URLs: https://us-east1-aws.api.snapchat.com/dmd/mm?...
+ */
+const DEFAULT_PROXY_HOSTS = ['app.snapchat.com'];
+
+/**
+ * Create the isProxyUrl check for a list of proxy hosts
+ */
+function createProxyUrlCheck(proxyHosts: readonly string[]): (url: string) => boolean {
+  return (url) => {
+    // JSON export URLs contain 'proxy=true' or go through a proxy host
+    if (url.includes('proxy=true')) {
+      return true;
+    }
+    try {
+      return proxyHosts.includes(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  };
+}
+
+/**
+ * Create a transport that sends requests with the global fetch
+ * fetch doesn't tell when the connection is made, so connectTimeoutMs is
+ * ignored and connecting counts towards the caller's header timeout. It also
+ * doesn't use proxies.
+ */
+export function createFetchTransport(options: TransportOptions = {}): Transport {
+  return {
+    request: (request) =>
+      fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        redirect: 'follow',
+        signal: request.signal,
+      }),
+
+    isProxyUrl: createProxyUrlCheck(options.proxyHosts ?? DEFAULT_PROXY_HOSTS),
+  };
+}
+
+/**
+ * Convert a node:http response to a fetch Response
+ */
+function toResponse(res: IncomingMessage): Response {
+  const headers = new Headers();
+  for (let i = 0; i < res.rawHeaders.length; i += 2) {
+    headers.append(res.rawHeaders[i], res.rawHeaders[i + 1]);
+  }
+  const status = res.statusCode ?? 0;
+  // Responses to these statuses can't have a body
+  const body = status === 204 || status === 304 ? null : Readable.toWeb(res);
+  if (!body) {
+    res.resume();
+  }
+  return new Response(body as ReadableStream<Uint8Array> | null, {
+    status,
+    statusText: res.statusMessage,
+    headers,
+  });
+}
+
+/**
+ * Stand in for a connection that could not be opened, failing with its error
+ * node:http reports the error of the stream like any socket error, as the request's error.
+ */
+function createFailedConnection(error: Error): Duplex {
+  const connection = new Duplex({ read: (): void => undefined });
+  process.nextTick(() => connection.destroy(error));
+  return connection;
+}
+
+/**
+ * Open a connection through a tunneling proxy, for the createConnection option
+ * The socket is ready when it is handed over, so the connect timeout is applied here.
+ */
+function createTunnelConnection(
+  request: TransportRequest,
+  proxy: URL,
+  url: URL
+): NonNullable<RequestOptions['createConnection']> {
+  return (_options, oncreate) => {
+    const controller = new AbortController();
+    const { connectTimeoutMs, signal } = request;
+    const timer = connectTimeoutMs
+      ? setTimeout(
+          () => controller.abort(new TimeoutError(request.url, 'connect', connectTimeoutMs)),
+          connectTimeoutMs
+        )
+      : undefined;
+    const onAbort = (): void => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    connectThroughProxy(proxy, url.hostname.replace(/^\[|\]$/g, ''), getPort(url), {
+      tls: url.protocol === 'https:',
+      signal: controller.signal,
+    })
+      .then(
+        (socket) => oncreate(null, socket),
+        (error: Error) => oncreate(null, createFailedConnection(error))
+      )
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      });
+    return undefined;
+  };
+}
+
+/**
+ * Get the port of a URL, or the default port of its protocol
+ */
+function getPort(url: URL): number {
+  return Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+}
+
+/**
+ * Send a single request with node:http(s), without following redirects
+ * Plain HTTP requests are sent to an HTTP(S) proxy as is; HTTPS requests and
+ * SOCKS proxies go through a tunnel.
+ */
+function sendHttpRequest(
+  request: TransportRequest,
+  proxySettings: ProxySettings
+): Promise<IncomingMessage> {
+  const url = new URL(request.url);
+  const proxy = getProxyForUrl(request.url, proxySettings);
+  const headers: Record<string, string> = { ...request.headers };
+  if (request.body !== undefined) {
+    headers['Content-Length'] = String(Buffer.byteLength(request.body));
+  }
+  const options: RequestOptions = {
+    method: request.method,
+    headers,
+    signal: request.signal,
+    hostname: url.hostname.replace(/^\[|\]$/g, ''),
+    port: getPort(url),
+    path: `${url.pathname}${url.search}`,
+  };
+
+  // Protocol of the connection that is made, to the proxy or the server
+  let protocol = url.protocol;
+  if (proxy && !isSocksProxy(proxy) && url.protocol === 'http:') {
+    const authorization = getProxyAuthorization(proxy);
+    const address = getProxyAddress(proxy);
+    Object.assign(options, { hostname: address.host, port: address.port, path: url.href });
+    headers.Host = url.host;
+    if (authorization) {
+      headers['Proxy-Authorization'] = authorization;
+    }
+    protocol = proxy.protocol;
+  } else if (proxy) {
+    options.createConnection = createTunnelConnection(request, proxy, url);
+  }
+  const send = protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = send(options, resolve);
+    req.on('error', (error) =>
+      reject(request.signal?.aborted ? (request.signal.reason as Error) : error)
+    );
+
+    const { connectTimeoutMs } = request;
+    if (connectTimeoutMs) {
+      req.on('socket', (socket: Socket) => {
+        // Sockets reused from the agent or opened through a tunnel are already connected
+        if (!socket.connecting) {
+          return;
+        }
+        const timer = setTimeout(
+          () => req.destroy(new TimeoutError(request.url, 'connect', connectTimeoutMs)),
+          connectTimeoutMs
+        );
+        socket.once(protocol === 'https:' ? 'secureConnect' : 'connect', () => clearTimeout(timer));
+        socket.once('close', () => clearTimeout(timer));
+      });
+    }
+
+    req.end(request.body);
+  });
+}
+
+/**
+ * Create a transport that sends requests with node:http and node:https
+ * Unlike fetch, this sees the connection being made, so it honors connectTimeoutMs.
+ */
+export function createHttpTransport(options: TransportOptions = {}): Transport {
+  const proxySettings = options.proxy ?? getProxySettings();
+
+  return {
+    request: async (request): Promise<Response> => {
+      let current = request;
+      for (let redirects = 0; ; redirects++) {
+        const res = await sendHttpRequest(current, proxySettings);
+        const location = res.headers.location;
+        if (!REDIRECT_STATUS_CODES.has(res.statusCode ?? 0) || !location) {
+          return toResponse(res);
+        }
+
+        res.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`Too many redirects: ${request.url}`);
+        }
+        // Like fetch, POSTs redirected with 301, 302 or 303 continue as a GET without a body
+        const asGet = current.method === 'POST' && res.statusCode !== 307 && res.statusCode !== 308;
+        current = {
+          ...current,
+          url: new URL(location, current.url).toString(),
+          ...(asGet ? { method: 'GET', headers: undefined, body: undefined } : {}),
+        };
+      }
+    },
+
+    isProxyUrl: createProxyUrlCheck(options.proxyHosts ?? DEFAULT_PROXY_HOSTS),
+  };
+}
+
+/**
+ * Transport used when none is given
+ */
+export const defaultTransport: Transport = createHttpTransport();
+
+/**
+ * Timeouts for one request, with the AbortSignal to send it with
+ */
+export interface RequestTimer {
+  /**
+   * Aborted when the request times out or the caller's signal is aborted
+   */
+  readonly signal: AbortSignal;
+
+  /**
+   * The response headers arrived: switch to the idle timeout
+   */
+  responseStarted(): void;
+
+  /**
+   * A chunk of the response body arrived: restart the idle timeout
+   */
+  progress(): void;
+
+  /**
+   * Stop the timers once the request is done
+   */
+  finish(): void;
+
+  /**
+   * Replace the error a request failed with by the reason it was aborted, if it was
+   */
+  toError(error: unknown): unknown;
+}
+
+/**
+ * Start the header timeout for a request
+ * The request gets its own AbortController, linked to the signal of the run.
+ */
+export function createRequestTimer(
+  url: string,
+  timeouts: RequestTimeouts,
+  signal?: AbortSignal
+): RequestTimer {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  const onAbort = (): void => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const arm = (phase: TimeoutPhase, timeoutMs: number): void => {
+    clearTimeout(timer);
+    if (timeoutMs > 0 && !controller.signal.aborted) {
+      timer = setTimeout(
+        () => controller.abort(new TimeoutError(url, phase, timeoutMs)),
+        timeoutMs
+      );
+    }
+  };
+  arm('headers', timeouts.headersMs);
+
+  return {
+    signal: controller.signal,
+    responseStarted: () => arm('idle', timeouts.idleMs),
+    progress: () => arm('idle', timeouts.idleMs),
+    finish: (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+    toError: (error) => (controller.signal.aborted ? (controller.signal.reason as unknown) : error),
+  };
+}
@@ -2,6 +2,8 @@
  * Core type definitions for Snapchat Memory Export tool
  */
 
+import type { Transport } from './transport.js';
+
 /**
  * GPS coordinates
  */
@@ -25,6 +27,34 @@ export interface SnapchatMemory {
   readonly downloadUrl: string;
   readonly mediaDownloadUrl: string | null; // Direct URL for ZIP with base media + overlay
   readonly mediaId: string;
+  readonly source?: string; // Export folder or ZIP the memory was loaded from
+  readonly localMedia?: LocalMedia; // Media files shipped with the export, if any
+}
+
+/**
+ * Media file shipped inside an export's memories/ folder
+ */
+export interface LocalMediaFile {
+  readonly path: string; // File path, or entry name inside zipPath
+  readonly zipPath?: string; // Set when the file lives inside a ZIP archive
+}
+
+/**
+ * Local media files matched to a memory
+ */
+export interface LocalMedia {
+  readonly main: LocalMediaFile;
+  readonly overlay: LocalMediaFile | null;
+}
+
+/**
+ * Memories file found in an export, and the format adapter that reads it
+ */
+export interface MemoriesFileResult {
+  readonly path: string; // File path, or entry name inside zipPath
+  readonly type: string; // Name of the format adapter ('json', 'html', ...)
+  readonly source: string; // Export folder or ZIP archive the file belongs to
+  readonly zipPath?: string; // Set when the file lives inside a ZIP archive
 }
 
 /**
@@ -67,10 +97,28 @@ export interface ExportOptions {
   readonly delay: number;
   readonly concurrency: number;
   readonly maxRetries: number;
+  readonly maxConsecutiveFailures?: number; // Stop after this many failed downloads in a row, 0 never
   readonly importToPhotos: boolean;
   readonly limit: number | null;
   readonly skipOverlay: boolean; // Skip overlay download attempts (faster if URLs expired)
+  readonly splitSegments?: boolean; // Save multi-segment videos as numbered parts instead of joining them
+  readonly offline: boolean; // Only use media files shipped with the export, never download
   readonly preloadedMemories?: readonly SnapchatMemory[]; // Pre-loaded memories from interactive mode
+  readonly rejectsFile?: string; // Write entries skipped while parsing to this JSON file
+  readonly transport?: Transport; // HTTP transport for downloads, defaults to node:http
+  readonly timeouts?: RequestTimeouts; // Network timeouts for download requests
+  readonly proxy?: string; // Proxy URL, overrides the HTTPS_PROXY/HTTP_PROXY/ALL_PROXY variables
+  readonly prefetchUrls?: 'all' | number; // Resolve signed URLs before downloading, all or this many ahead
+  readonly maxBandwidth?: number; // Bytes per second for all downloads together, unset for no limit
+}
+
+/**
+ * Network timeouts for a single download request, in milliseconds (0 disables)
+ */
+export interface RequestTimeouts {
+  readonly connectMs: number; // Until the connection to the server is made
+  readonly headersMs: number; // From sending the request until the response headers arrive
+  readonly idleMs: number; // Between two chunks of the response body
 }
 
 /**
@@ -93,13 +141,99 @@ export class DownloadError extends Error {
   constructor(
     public readonly url: string,
     public readonly statusCode: number,
-    message: string
+    message: string,
+    public readonly retryAfterMs: number | null = null // From the Retry-After header
   ) {
     super(`Failed to download ${url}: ${message} (status: ${statusCode})`);
     this.name = 'DownloadError';
   }
 }
 
+/**
+ * Error thrown when a download ends before all bytes announced by the server arrived
+ * The partial file is kept so the next attempt can resume it.
+ */
+export class IncompleteDownloadError extends DownloadError {
+  constructor(
+    url: string,
+    public readonly received: number,
+    public readonly expected: number
+  ) {
+    super(url, 0, `Incomplete download: received ${received} of ${expected} bytes`);
+    this.name = 'IncompleteDownloadError';
+  }
+}
+
+/**
+ * Error thrown when a download isn't the kind of media its memory is, e.g. an
+ * HTML error page served with status 200 for an expired link
+ */
+export class MediaMismatchError extends DownloadError {
+  constructor(
+    url: string,
+    public readonly expected: MediaType,
+    public readonly received: string // Description of what was received
+  ) {
+    super(
+      url,
+      0,
+      `Expected ${expected === 'Image' ? 'an image' : 'a video'}, received ${received}`
+    );
+    this.name = 'MediaMismatchError';
+  }
+}
+
+/**
+ * Phase of a request that took too long
+ */
+export type TimeoutPhase = 'connect' | 'headers' | 'idle';
+
+const TIMEOUT_DESCRIPTIONS: Record<TimeoutPhase, string> = {
+  connect: 'connecting',
+  headers: 'waiting for a response',
+  idle: 'waiting for data',
+};
+
+/**
+ * Error thrown when a request takes longer than its timeout for a phase
+ */
+export class TimeoutError extends DownloadError {
+  constructor(
+    url: string,
+    public readonly phase: TimeoutPhase,
+    public readonly timeoutMs: number
+  ) {
+    super(url, 0, `Timed out ${TIMEOUT_DESCRIPTIONS[phase]} after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error thrown when a proxy is misconfigured or refuses a connection
+ */
+export class ProxyError extends Error {
+  constructor(
+    public readonly proxy: string, // Proxy URL without credentials
+    message: string
+  ) {
+    super(`Proxy ${proxy}: ${message}`);
+    this.name = 'ProxyError';
+  }
+}
+
+/**
+ * Error thrown when a saved memory can't be recorded in the manifest, e.g. on a full disk
+ */
+export class ManifestWriteError extends Error {
+  constructor(
+    public readonly filePath: string, // The saved file that isn't recorded
+    message: string
+  ) {
+    super(`Saved ${filePath} but could not record it in the manifest: ${message}`);
+    this.name = 'ManifestWriteError';
+  }
+}
+
 /**
  * Custom error for parsing failures
  */
@@ -110,6 +244,59 @@ export class ParseError extends Error {
   }
 }
 
+/**
+ * Reason a raw entry was rejected while parsing
+ */
+export type RejectReason =
+  | 'invalid-date'
+  | 'unknown-media-type'
+  | 'missing-url'
+  | 'invalid-location'
+  | 'invalid-entry';
+
+/**
+ * Error for a single export entry that cannot be turned into a memory
+ */
+export class InvalidEntryError extends ParseError {
+  constructor(
+    public readonly reason: RejectReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InvalidEntryError';
+  }
+}
+
+/**
+ * Raw entry that was rejected while parsing, with the reason it was dropped
+ */
+export interface RejectedEntry {
+  readonly index: number; // Position in "Saved Media" or among the HTML table rows
+  readonly reason: RejectReason;
+  readonly message: string;
+  readonly fields: Readonly<Record<string, string>>; // Raw fields as found in the export
+  readonly source?: string; // Export folder or ZIP the entry came from
+}
+
+/**
+ * Different memories found under the same media ID
+ */
+export interface DuplicateMediaId {
+  readonly mediaId: string; // ID shared with an earlier memory
+  readonly resolvedId: string; // Distinct ID given to this memory
+  readonly date: string; // ISO 8601 timestamp of memory date
+  readonly mediaType: MediaType;
+  readonly source?: string; // Export folder or ZIP the memory came from
+}
+
+/**
+ * Report of what was dropped or renamed while parsing an export
+ */
+export interface ParseReport {
+  readonly rejected: RejectedEntry[];
+  readonly duplicates: DuplicateMediaId[];
+}
+
 /**
  * Custom error for metadata embedding failures
  */
@@ -133,6 +320,7 @@ export interface ManifestEntry {
   readonly fileSize: number;
   readonly mediaType: MediaType;
   readonly originalDate: string; // ISO 8601 timestamp of memory date
+  readonly parts?: readonly string[]; // Every file of a video saved as numbered parts
 }
 
 /**